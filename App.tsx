@@ -1,30 +1,75 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, {
+  useState,
+  useCallback,
+  useRef,
+  useEffect,
+  useMemo,
+} from 'react';
 import {
   StftParams,
-  SignalPoint,
   SpectrogramData,
+  PlaybackSource,
   PlaybackStatus,
   TransformParams,
   SpectrogramView,
   GlitchParams,
   BrushParams,
+  ChannelView,
+  ChannelSpectrograms,
+  ChannelMetrics,
+  GlitchEvent,
+  SignalGeneratorParams,
+  SpectrogramAggregation,
+  SpectrogramLayer,
+  SpectrogramViewport,
+  SpectralPoint,
+  WandConnectivity,
 } from './types';
-import {
-  DEFAULT_PARAMS,
-  DEFAULT_GLITCH_PARAMS,
-  DEFAULT_BRUSH_PARAMS,
-} from './constants';
+import { DEFAULT_PARAMS, DEFAULT_TRANSFORM_PARAMS } from './constants';
 import ParameterControls from './components/ParameterControls';
 import SignalPlot from './components/SignalPlot';
 import ResultsDisplay from './components/ResultsDisplay';
 import SpectrogramDisplay from './components/SpectrogramDisplay';
 import AudioPlaybackControls from './components/AudioPlaybackControls';
+import ExportDialog from './components/ExportDialog';
+import HistoryPanel from './components/HistoryPanel';
+import GlitchTimeline from './components/GlitchTimeline';
+import ErrorTimeline from './components/ErrorTimeline';
 import {
-  performStft,
-  resynthesizeAudio,
+  ChannelMasks,
+  EMPTY_SPECTROGRAM,
+  ResynthesisResult,
   SpectralMask,
+  getFrameLayout,
 } from './services/signalService';
-import { debounce } from './utils';
+import {
+  BASE_CHANNEL_VIEWS,
+  MAX_CHANNELS,
+  deriveChannelSignal,
+  getChannelViewLabel,
+  getChannelViews,
+  getLinkedViews,
+} from './services/channels';
+import { analyzeOverlap } from './services/overlapAnalysis';
+import { computeChannelMetrics, computeFrameErrors } from './services/metrics';
+import { TimeRange, clampRange } from './services/waveform';
+import { AudioPlayer } from './services/audioPlayer';
+import { describeSignal, generateSignal } from './services/signalGenerator';
+import { EditHistory, diffChannelMasks } from './services/editHistory';
+import {
+  JobCancelledError,
+  StftWorkerClient,
+  StftWorkerFailedError,
+} from './services/stftWorkerClient';
+import {
+  ProjectFileError,
+  PROJECT_FILE_EXTENSION,
+  checkProjectAudio,
+  createProjectFile,
+  parseProjectFile,
+  withTransformDefaults,
+} from './services/projectFile';
+import { debounce, downloadBlob } from './utils';
 
 const ALLOWED_AUDIO_TYPES = [
   'audio/wav',
@@ -36,16 +81,6 @@ const ALLOWED_AUDIO_TYPES = [
 ];
 const MAX_FILE_SIZE_BYTES = 50 * 1024 * 1024; // 50MB
 
-const float32ArrayToSignalPoints = (
-  data: Float32Array,
-  sr: number,
-): SignalPoint[] => {
-  return Array.from(data).map((amplitude, index) => ({
-    time: index / sr,
-    amplitude,
-  }));
-};
-
 const App: React.FC = () => {
   const [params, setParams] = useState<StftParams>(() => {
     try {
@@ -62,31 +97,62 @@ const App: React.FC = () => {
     return DEFAULT_PARAMS;
   });
 
-  const [transformParams, setTransformParams] = useState<TransformParams>({
-    spectralEdit: { enabled: false, brush: DEFAULT_BRUSH_PARAMS },
-    audioGlitch: { enabled: false, params: DEFAULT_GLITCH_PARAMS },
-  });
+  const overlapAnalysis = useMemo(() => analyzeOverlap(params), [params]);
 
-  const [originalSignal, setOriginalSignal] = useState<SignalPoint[]>([]);
-  const [reconstructedSignal, setReconstructedSignal] = useState<SignalPoint[]>(
-    [],
+  const [transformParams, setTransformParams] = useState<TransformParams>(
+    () => {
+      try {
+        const stored = localStorage.getItem('stft-transform-params');
+        if (stored)
+          return withTransformDefaults(
+            JSON.parse(stored) as Partial<TransformParams>,
+          );
+      } catch (e) {
+        console.error('Could not load transform params from localStorage', e);
+      }
+      return DEFAULT_TRANSFORM_PARAMS;
+    },
   );
-  const [error, setError] = useState<number>(0);
-  const [snr, setSnr] = useState<number | null>(null);
-
-  const [originalSpectrogram, setOriginalSpectrogram] =
-    useState<SpectrogramData>({ data: [], freqLabels: [] });
-  const [transformedSpectrogram, setTransformedSpectrogram] =
-    useState<SpectrogramData>({ data: [], freqLabels: [] });
-  const [differenceSpectrogram, setDifferenceSpectrogram] =
-    useState<SpectrogramData>({ data: [], freqLabels: [] });
+
+  const [originalChannels, setOriginalChannels] = useState<Float32Array[]>([]);
+  const [reconstructedChannels, setReconstructedChannels] = useState<
+    Float32Array[]
+  >([]);
+  const [channelMetrics, setChannelMetrics] = useState<ChannelMetrics[]>([]);
+  const [glitchEvents, setGlitchEvents] = useState<GlitchEvent[]>([]);
+
+  const [originalSpectrograms, setOriginalSpectrograms] =
+    useState<ChannelSpectrograms>({});
+  const [transformedSpectrograms, setTransformedSpectrograms] =
+    useState<ChannelSpectrograms>({});
+  const [differenceSpectrograms, setDifferenceSpectrograms] =
+    useState<ChannelSpectrograms>({});
+  const [errorSpectrograms, setErrorSpectrograms] =
+    useState<ChannelSpectrograms>({});
   const [spectrogramView, setSpectrogramView] =
     useState<SpectrogramView>('transformed');
+  const [channelView, setChannelView] = useState<ChannelView>('left');
+  // Time (s) the waveform, error timeline and spectrogram are focused on.
+  const [focusTime, setFocusTime] = useState<number | null>(null);
+  // Visible span of the waveform detail view, mirrored on the spectrogram.
+  const [viewRange, setViewRange] = useState<TimeRange>({ start: 0, end: 0 });
+  // Visible STFT bins when the spectrogram is zoomed in frequency.
+  const [binRange, setBinRange] = useState<{ start: number; end: number }>({
+    start: 0,
+    end: 0,
+  });
+  const [spectrogramAggregation, setSpectrogramAggregation] =
+    useState<SpectrogramAggregation>('mean');
+  // The current spectrogram layer recomputed for the zoomed-in window.
+  const [detailSpectrogram, setDetailSpectrogram] = useState<{
+    view: ChannelView;
+    layer: SpectrogramLayer;
+    aggregation: SpectrogramAggregation;
+    spectrogram: SpectrogramData;
+  } | null>(null);
 
-  const [spectralMask, setSpectralMask] = useState<SpectralMask | null>(null);
-  const [fullComplexStft, setFullComplexStft] = useState<number[][][] | null>(
-    null,
-  );
+  const [channelMasks, setChannelMasks] = useState<ChannelMasks>({});
+  const [channelStfts, setChannelStfts] = useState<number[][][][] | null>(null);
   const [stftDimensions, setStftDimensions] = useState<{
     frames: number;
     bins: number;
@@ -94,24 +160,50 @@ const App: React.FC = () => {
 
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isResynthesizing, setIsResynthesizing] = useState<boolean>(false);
+  const [jobProgress, setJobProgress] = useState<number | null>(null);
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
   const [audioInfo, setAudioInfo] = useState<{
     name: string;
     duration: number;
     sr: number;
+    channels: number;
   } | null>(null);
-  const [playbackStatus, setPlaybackStatus] = useState<{
-    original: PlaybackStatus;
-    reconstructed: PlaybackStatus;
-  }>({ original: 'stopped', reconstructed: 'stopped' });
+  const [reconstructedBuffer, setReconstructedBuffer] =
+    useState<AudioBuffer | null>(null);
+  const [playbackStatus, setPlaybackStatus] =
+    useState<PlaybackStatus>('stopped');
+  const [playbackSource, setPlaybackSource] =
+    useState<PlaybackSource>('original');
+  // Playback wraps around inside this span while set.
+  const [loopRegion, setLoopRegion] = useState<TimeRange | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodesRef = useRef<{
-    original: AudioBufferSourceNode | null;
-    reconstructed: AudioBufferSourceNode | null;
-  }>({ original: null, reconstructed: null });
-  const reconstructedBufferRef = useRef<AudioBuffer | null>(null);
-  const audioDataRef = useRef<Float32Array | null>(null);
+  const playerRef = useRef<AudioPlayer | null>(null);
+  const audioDataRef = useRef<Float32Array[] | null>(null);
+  const workerRef = useRef<StftWorkerClient | null>(null);
+  // Tokens of the newest analysis and resynthesis runs. A run can be
+  // cancelled by a job another run started, so only the newest one clears
+  // its spinner.
+  const analysisRunRef = useRef(0);
+  const resynthesisRunRef = useRef(0);
+  const historyRef = useRef(new EditHistory());
+  const [history, setHistory] = useState(() => historyRef.current.snapshot());
+  // Masks as they were when the current brush stroke began.
+  const strokeBaseRef = useRef<ChannelMasks | null>(null);
+
+  useEffect(() => {
+    const client = new StftWorkerClient();
+    client.onFailure = (error) => {
+      console.error(error);
+      alert('Audio processing stopped working. Reload the page to continue.');
+    };
+    workerRef.current = client;
+    return () => {
+      client.dispose();
+      workerRef.current = null;
+    };
+  }, []);
 
   useEffect(() => {
     try {
@@ -121,97 +213,100 @@ const App: React.FC = () => {
     }
   }, [params]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem(
+        'stft-transform-params',
+        JSON.stringify(transformParams),
+      );
+    } catch (e) {
+      console.error('Could not save transform params to localStorage', e);
+    }
+  }, [transformParams]);
+
   useEffect(() => {
     const isTransformActive =
       transformParams.spectralEdit.enabled ||
+      transformParams.spectralGlitch.enabled ||
       transformParams.audioGlitch.enabled;
     if (!isTransformActive) {
-      setSpectrogramView('transformed');
+      // The error heatmap is still meaningful for a plain round trip.
+      setSpectrogramView((view) => (view === 'error' ? view : 'transformed'));
     }
   }, [
     transformParams.spectralEdit.enabled,
+    transformParams.spectralGlitch.enabled,
     transformParams.audioGlitch.enabled,
   ]);
 
-  const stopAllPlayback = useCallback(() => {
-    if (sourceNodesRef.current.original) {
-      sourceNodesRef.current.original.onended = null;
-      sourceNodesRef.current.original.stop();
-      sourceNodesRef.current.original = null;
-    }
-    if (sourceNodesRef.current.reconstructed) {
-      sourceNodesRef.current.reconstructed.onended = null;
-      sourceNodesRef.current.reconstructed.stop();
-      sourceNodesRef.current.reconstructed = null;
+  useEffect(() => () => playerRef.current?.dispose(), []);
+
+  // The AudioContext (and the player on it) is created on first use.
+  const getAudioContext = useCallback(() => {
+    if (!audioContextRef.current) {
+      const AudioContext =
+        window.AudioContext || (window as any).webkitAudioContext;
+      const context: AudioContext = new AudioContext();
+      const player = new AudioPlayer(context);
+      player.onEnded = () => setPlaybackStatus('stopped');
+      audioContextRef.current = context;
+      playerRef.current = player;
     }
-    setPlaybackStatus({ original: 'stopped', reconstructed: 'stopped' });
+    return audioContextRef.current;
+  }, []);
+
+  // A new reconstruction swaps in without interrupting playback.
+  useEffect(() => {
+    playerRef.current?.setSignals(audioBuffer, reconstructedBuffer);
+  }, [audioBuffer, reconstructedBuffer]);
+
+  const stopAllPlayback = useCallback(() => {
+    playerRef.current?.stop();
+    setPlaybackStatus('stopped');
   }, []);
 
   const updateReconstructedAudio = useCallback(
-    async (
-      newReconstructedSignal: Float32Array,
-      baseComplexStft: number[][][] | null,
-    ) => {
-      setReconstructedSignal(
-        float32ArrayToSignalPoints(newReconstructedSignal, params.sr),
-      );
+    async ({
+      signals: newReconstructedChannels,
+      glitchEvents: newGlitchEvents,
+    }: ResynthesisResult) => {
+      setReconstructedChannels(newReconstructedChannels);
+      setGlitchEvents(newGlitchEvents);
 
-      // Update error/SNR
-      if (audioDataRef.current) {
-        let maxError = 0;
-        const len = Math.min(
-          audioDataRef.current.length,
-          newReconstructedSignal.length,
-        );
-        for (let i = 0; i < len; i++) {
-          const error = Math.abs(
-            audioDataRef.current[i] - newReconstructedSignal[i],
-          );
-          if (error > maxError) maxError = error;
-        }
-        setError(maxError);
-
-        let signalPower = 0,
-          errorPower = 0;
-        for (let i = 0; i < len; i++) {
-          const diff = audioDataRef.current[i] - newReconstructedSignal[i];
-          signalPower += audioDataRef.current[i] * audioDataRef.current[i];
-          errorPower += diff * diff;
-        }
-        setSnr(
-          errorPower < 1e-12
-            ? Infinity
-            : 10 * Math.log10(signalPower / errorPower),
+      // Update error/SNR per channel
+      const originals = audioDataRef.current;
+      if (originals) {
+        setChannelMetrics(
+          newReconstructedChannels.map((reconstructed, c) =>
+            computeChannelMetrics(
+              originals[c],
+              reconstructed,
+              BASE_CHANNEL_VIEWS[c],
+            ),
+          ),
         );
       }
 
       // Update audio buffer for playback
-      if (audioContextRef.current) {
+      if (audioContextRef.current && newReconstructedChannels.length > 0) {
         const newReconstructedBuffer = audioContextRef.current.createBuffer(
-          1,
-          newReconstructedSignal.length,
+          newReconstructedChannels.length,
+          newReconstructedChannels[0].length,
           params.sr,
         );
-        newReconstructedBuffer.copyToChannel(newReconstructedSignal, 0);
-        reconstructedBufferRef.current = newReconstructedBuffer;
+        newReconstructedChannels.forEach((channel, c) =>
+          newReconstructedBuffer.getChannelData(c).set(channel),
+        );
+        setReconstructedBuffer(newReconstructedBuffer);
       }
 
       // Update spectrograms
-      const { complexStft: newTransformedStft } = performStft(
-        newReconstructedSignal,
-        params,
-      );
-      setTransformedSpectrogram(
-        performStft(newReconstructedSignal, params).originalSpectrogram,
-      );
-      if (baseComplexStft) {
-        setDifferenceSpectrogram(
-          generateDifferenceSpectrogramData(
-            baseComplexStft,
-            newTransformedStft,
-            params,
-          ),
-        );
+      if (workerRef.current) {
+        const { spectrograms, differences, errors } =
+          await workerRef.current.spectrogram(newReconstructedChannels);
+        setTransformedSpectrograms(spectrograms);
+        setDifferenceSpectrograms(differences);
+        setErrorSpectrograms(errors);
       }
     },
     [params],
@@ -222,62 +317,114 @@ const App: React.FC = () => {
       buffer: AudioBuffer,
       currentParams: StftParams,
       currentTransforms: TransformParams,
+      initialMasks: ChannelMasks = {},
     ) => {
+      const worker = workerRef.current;
+      if (!worker) return;
+      const run = ++analysisRunRef.current;
       setIsLoading(true);
+      setIsResynthesizing(false);
       stopAllPlayback();
+      setReconstructedBuffer(null);
+      setLoopRegion(null);
+      playerRef.current?.setLoop(null);
 
-      const audioData = buffer.getChannelData(0);
-      audioDataRef.current = audioData;
-      setOriginalSignal(
-        float32ArrayToSignalPoints(audioData, currentParams.sr),
+      const channelCount = Math.min(buffer.numberOfChannels, MAX_CHANNELS);
+      const audioData = Array.from({ length: channelCount }, (_, c) =>
+        buffer.getChannelData(c),
       );
+      audioDataRef.current = audioData;
+      setOriginalChannels(audioData);
+      setFocusTime(null);
+      setViewRange({ start: 0, end: buffer.duration });
 
-      const { complexStft, originalSpectrogram: newOriginalSpec } = performStft(
-        audioData,
-        currentParams,
-      );
-      setFullComplexStft(complexStft);
-      setOriginalSpectrogram(newOriginalSpec);
-
-      const frames = complexStft.length > 0 ? complexStft[0].length : 0;
-      const bins = complexStft.length;
-      setStftDimensions({ frames, bins });
-      const newMask = new SpectralMask(frames, bins);
-      setSpectralMask(newMask);
-
-      const initialReconstructed = await resynthesizeAudio(
-        complexStft,
-        newMask,
-        currentParams,
-        audioData.length,
-        currentTransforms,
-      );
-      await updateReconstructedAudio(initialReconstructed, complexStft);
+      const views = getChannelViews(channelCount);
+      setChannelView((current) => (views.includes(current) ? current : 'left'));
 
-      setIsLoading(false);
+      try {
+        const {
+          channelStfts: newChannelStfts,
+          frames,
+          bins,
+          spectrograms,
+        } = await worker.analyze(audioData, currentParams, setJobProgress);
+        setChannelStfts(newChannelStfts);
+        setOriginalSpectrograms(spectrograms);
+
+        setStftDimensions({ frames, bins });
+        setBinRange({ start: 0, end: bins });
+        setDetailSpectrogram(null);
+        const newMasks: ChannelMasks = Object.fromEntries(
+          views.map((view) => {
+            const saved = initialMasks[view];
+            return [
+              view,
+              saved && saved.F === frames && saved.B === bins
+                ? saved
+                : new SpectralMask(frames, bins),
+            ];
+          }),
+        );
+        setChannelMasks(newMasks);
+        historyRef.current.clear();
+        setHistory(historyRef.current.snapshot());
+
+        const initialReconstructed = await worker.resynthesize(
+          newMasks,
+          currentTransforms,
+          setJobProgress,
+        );
+        await updateReconstructedAudio(initialReconstructed);
+      } catch (e) {
+        // Worker failures are reported by the client's onFailure.
+        if (
+          !(e instanceof JobCancelledError) &&
+          !(e instanceof StftWorkerFailedError)
+        ) {
+          console.error('STFT analysis failed:', e);
+          alert('Could not analyze audio.');
+        }
+      } finally {
+        if (analysisRunRef.current === run) {
+          setJobProgress(null);
+          setIsLoading(false);
+        }
+      }
     },
     [stopAllPlayback, updateReconstructedAudio],
   );
 
   const triggerResynthesis = useCallback(
     debounce(
-      async (currentMask: SpectralMask, currentTransforms: TransformParams) => {
-        if (!fullComplexStft || !audioDataRef.current) return;
+      async (
+        currentMasks: ChannelMasks,
+        currentTransforms: TransformParams,
+      ) => {
+        const worker = workerRef.current;
+        if (!worker || !channelStfts || !audioDataRef.current) return;
 
+        const run = ++resynthesisRunRef.current;
         setIsResynthesizing(true);
-        const reconstructed = await resynthesizeAudio(
-          fullComplexStft,
-          currentMask,
-          params,
-          audioDataRef.current.length,
-          currentTransforms,
-        );
-        await updateReconstructedAudio(reconstructed, fullComplexStft);
-        setIsResynthesizing(false);
+        try {
+          const reconstructed = await worker.resynthesize(
+            currentMasks,
+            currentTransforms,
+            setJobProgress,
+          );
+          await updateReconstructedAudio(reconstructed);
+        } catch (e) {
+          if (!(e instanceof JobCancelledError))
+            console.error('Resynthesis failed:', e);
+        } finally {
+          if (resynthesisRunRef.current === run) {
+            setJobProgress(null);
+            setIsResynthesizing(false);
+          }
+        }
       },
       400,
     ),
-    [fullComplexStft, params, updateReconstructedAudio],
+    [channelStfts, updateReconstructedAudio],
   );
 
   const handleFileChange = async (
@@ -299,15 +446,11 @@ const App: React.FC = () => {
     setAudioInfo(null);
     setAudioBuffer(null);
     stopAllPlayback();
-
-    const AudioContext =
-      window.AudioContext || (window as any).webkitAudioContext;
-    if (!audioContextRef.current) audioContextRef.current = new AudioContext();
+    const context = getAudioContext();
 
     try {
       const arrayBuffer = await file.arrayBuffer();
-      const decodedBuffer =
-        await audioContextRef.current.decodeAudioData(arrayBuffer);
+      const decodedBuffer = await context.decodeAudioData(arrayBuffer);
       const newSr = decodedBuffer.sampleRate;
 
       const newParams = { ...params, sr: newSr };
@@ -318,6 +461,7 @@ const App: React.FC = () => {
         name: safeName,
         duration: decodedBuffer.duration,
         sr: newSr,
+        channels: decodedBuffer.numberOfChannels,
       });
 
       await processAudio(decodedBuffer, newParams, transformParams);
@@ -328,6 +472,116 @@ const App: React.FC = () => {
     }
   };
 
+  const handleGenerateSignal = async (generator: SignalGeneratorParams) => {
+    setIsLoading(true);
+    setAudioInfo(null);
+    setAudioBuffer(null);
+    stopAllPlayback();
+
+    try {
+      const context = getAudioContext();
+      const signal = generateSignal(generator, transformParams.seed);
+      const buffer = context.createBuffer(
+        1,
+        signal.length,
+        generator.sampleRate,
+      );
+      buffer.getChannelData(0).set(signal);
+
+      const newParams = { ...params, sr: generator.sampleRate };
+      setParams(newParams);
+      setAudioBuffer(buffer);
+      setAudioInfo({
+        name: `${describeSignal(generator)}.wav`,
+        duration: buffer.duration,
+        sr: generator.sampleRate,
+        channels: 1,
+      });
+
+      await processAudio(buffer, newParams, transformParams);
+    } catch (e) {
+      console.error('Could not generate signal:', e);
+      alert('Could not generate the test signal.');
+      setIsLoading(false);
+    }
+  };
+
+  const handleProjectSave = async (embedAudio: boolean) => {
+    const channels = audioDataRef.current;
+    if (!channels || !audioInfo) return;
+    try {
+      const blob = await createProjectFile({
+        params,
+        transformParams,
+        masks: channelMasks,
+        channels,
+        audioName: audioInfo.name,
+        embedAudio,
+      });
+      const baseName = audioInfo.name.replace(/\.[^.]+$/, '') || 'project';
+      downloadBlob(blob, `${baseName}.${PROJECT_FILE_EXTENSION}`);
+    } catch (e) {
+      console.error('Could not save project:', e);
+      alert('Could not save project.');
+    }
+  };
+
+  const handleProjectOpen = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const project = await parseProjectFile(await file.text());
+      const { audio } = project;
+
+      let buffer = audioBuffer;
+      if (project.embeddedChannels) {
+        const embedded = getAudioContext().createBuffer(
+          audio.channelCount,
+          audio.length,
+          audio.sampleRate,
+        );
+        project.embeddedChannels.forEach((channel, c) =>
+          embedded.getChannelData(c).set(channel),
+        );
+        buffer = embedded;
+        setAudioBuffer(buffer);
+        setAudioInfo({
+          name: audio.name,
+          duration: buffer.duration,
+          sr: audio.sampleRate,
+          channels: audio.channelCount,
+        });
+      } else if (!buffer || !audioDataRef.current) {
+        throw new ProjectFileError(
+          `This project does not embed its audio. Upload '${audio.name}' first, then open the project again.`,
+        );
+      } else {
+        await checkProjectAudio(project, audioDataRef.current, params.sr);
+      }
+
+      const newParams = { ...project.params, sr: audio.sampleRate };
+      setParams(newParams);
+      setTransformParams(project.transformParams);
+      await processAudio(
+        buffer,
+        newParams,
+        project.transformParams,
+        project.masks,
+      );
+    } catch (e) {
+      if (e instanceof ProjectFileError) {
+        alert(`Could not open project: ${e.message}`);
+      } else {
+        console.error('Could not open project:', e);
+        alert('Could not open project.');
+      }
+    }
+  };
+
   const handleParamsChange = (newParams: StftParams) => {
     setParams(newParams);
     if (audioBuffer) processAudio(audioBuffer, newParams, transformParams);
@@ -335,93 +589,411 @@ const App: React.FC = () => {
 
   const handleTransformChange = (newTransformParams: TransformParams) => {
     setTransformParams(newTransformParams);
-    if (audioBuffer && spectralMask) {
-      triggerResynthesis(spectralMask, newTransformParams);
+    if (audioBuffer && stftDimensions.frames > 0) {
+      // Linking makes the partner channels adopt the current view's mask.
+      const { linkChannels } = newTransformParams.spectralEdit;
+      const currentMask = channelMasks[channelView];
+      if (
+        linkChannels &&
+        !transformParams.spectralEdit.linkChannels &&
+        currentMask
+      ) {
+        const newMasks = handleMaskChange(currentMask, newTransformParams);
+        recordMaskEdit('Link channel masks', channelMasks, newMasks);
+      } else {
+        triggerResynthesis(channelMasks, newTransformParams);
+      }
     }
   };
 
-  const handleMaskChange = (newMask: SpectralMask) => {
-    setSpectralMask(newMask);
-    triggerResynthesis(newMask, transformParams);
+  const recordMaskEdit = (
+    label: string,
+    before: ChannelMasks,
+    after: ChannelMasks,
+  ) => {
+    const diffs = diffChannelMasks(before, after);
+    if (diffs.length === 0) return;
+    const count = originalChannels.length;
+    const suffix =
+      count > 1
+        ? ` (${diffs.map((d) => getChannelViewLabel(d.view, count)).join(', ')})`
+        : '';
+    historyRef.current.push(label + suffix, diffs);
+    setHistory(historyRef.current.snapshot());
   };
 
-  const handlePlaybackToggle = useCallback(
-    (type: 'original' | 'reconstructed') => {
-      if (!audioContextRef.current || !audioBuffer) return;
-      const isPlaying = playbackStatus[type] === 'playing';
-      stopAllPlayback();
-      if (isPlaying) return;
-
-      const bufferToPlay =
-        type === 'original' ? audioBuffer : reconstructedBufferRef.current;
-      if (!bufferToPlay) return;
-
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = bufferToPlay;
-      source.connect(audioContextRef.current.destination);
-      source.onended = () => {
-        if (sourceNodesRef.current[type] === source) {
-          sourceNodesRef.current[type] = null;
-          setPlaybackStatus((prev) => ({ ...prev, [type]: 'stopped' }));
+  const handleMaskChange = (
+    newMask: SpectralMask,
+    currentTransforms: TransformParams = transformParams,
+  ) => {
+    const newMasks: ChannelMasks = { ...channelMasks, [channelView]: newMask };
+    if (currentTransforms.spectralEdit.linkChannels) {
+      const strokeBase = strokeBaseRef.current;
+      getLinkedViews(
+        channelView,
+        Object.keys(channelMasks) as ChannelView[],
+      ).forEach((view) => {
+        const linked = channelMasks[view];
+        // Within a stroke the partner's copy is ours to update in place;
+        // the mask from before the stroke must stay intact for the history.
+        if (strokeBase && linked && linked !== strokeBase[view]) {
+          linked.gainDbLayer.set(newMask.gainDbLayer);
+          linked.generativeDbLayer.set(newMask.generativeDbLayer);
+          linked.generativeModeLayer.set(newMask.generativeModeLayer);
+          linked.pastedLayer.set(newMask.pastedLayer);
+        } else {
+          newMasks[view] = newMask.clone();
         }
-      };
-      source.start(0);
-      sourceNodesRef.current[type] = source;
-      setPlaybackStatus({
-        original: 'stopped',
-        reconstructed: 'stopped',
-        [type]: 'playing',
       });
+    }
+    setChannelMasks(newMasks);
+    triggerResynthesis(newMasks, currentTransforms);
+    return newMasks;
+  };
+
+  const handleStrokeStart = () => {
+    strokeBaseRef.current = channelMasks;
+  };
+
+  const handleStrokeEnd = (label: string) => {
+    const before = strokeBaseRef.current;
+    strokeBaseRef.current = null;
+    // The stroke edits its mask copies in place, so the current state already
+    // holds the final result even if the last render is still pending.
+    if (before) recordMaskEdit(label, before, channelMasks);
+  };
+
+  // A whole edit in one go (a selection operation), as one history entry.
+  const handleMaskEdit = (newMask: SpectralMask, label: string) => {
+    const before = channelMasks;
+    recordMaskEdit(label, before, handleMaskChange(newMask));
+  };
+
+  // The wand can flood the whole STFT, so it fills in the worker.
+  const handleMagicWand = (
+    seed: SpectralPoint,
+    toleranceDb: number,
+    connectivity: WandConnectivity,
+  ): Promise<Uint8Array> => {
+    const worker = workerRef.current;
+    if (!worker) return Promise.reject(new Error('STFT worker not ready'));
+    return worker.magicWand(channelView, seed, toleranceDb, connectivity);
+  };
+
+  const handleMaskReset = () => {
+    if (stftDimensions.frames === 0) return;
+    const newMasks: ChannelMasks = Object.fromEntries(
+      Object.keys(channelMasks).map((view) => [
+        view,
+        new SpectralMask(stftDimensions.frames, stftDimensions.bins),
+      ]),
+    );
+    recordMaskEdit('Reset masks', channelMasks, newMasks);
+    setChannelMasks(newMasks);
+    triggerResynthesis(newMasks, transformParams);
+  };
+
+  const handleHistoryJump = useCallback(
+    (position: number) => {
+      if (strokeBaseRef.current || stftDimensions.frames === 0) return;
+      const newMasks = historyRef.current.goTo(position, channelMasks);
+      setHistory(historyRef.current.snapshot());
+      setChannelMasks(newMasks);
+      triggerResynthesis(newMasks, transformParams);
     },
-    [audioBuffer, playbackStatus, stopAllPlayback],
+    [channelMasks, stftDimensions.frames, transformParams, triggerResynthesis],
   );
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable]')) return;
+      const key = e.key.toLowerCase();
+      const isUndo = key === 'z' && !e.shiftKey;
+      const isRedo = (key === 'z' && e.shiftKey) || key === 'y';
+      if (!isUndo && !isRedo) return;
+      e.preventDefault();
+      handleHistoryJump(historyRef.current.currentPosition + (isUndo ? -1 : 1));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleHistoryJump]);
+
+  const handlePlaybackToggle = useCallback(() => {
+    const player = playerRef.current;
+    if (!player || !audioBuffer) return;
+    if (player.isPlaying) {
+      player.pause();
+      setPlaybackStatus('stopped');
+    } else {
+      player.play();
+      setPlaybackStatus('playing');
+    }
+  }, [audioBuffer]);
+
+  const handlePlaybackSourceChange = useCallback((source: PlaybackSource) => {
+    playerRef.current?.select(source);
+    setPlaybackSource(source);
+  }, []);
+
+  const handleLoopRegionChange = useCallback((region: TimeRange | null) => {
+    playerRef.current?.setLoop(region);
+    setLoopRegion(region);
+  }, []);
+
+  // Read by the playheads every animation frame.
+  const getPlaybackPosition = useCallback(() => {
+    const player = playerRef.current;
+    return player && player.duration > 0 ? player.position : null;
+  }, []);
+
   const isTransformActive =
-    transformParams.spectralEdit.enabled || transformParams.audioGlitch.enabled;
-  const currentViewKey = isTransformActive ? spectrogramView : 'transformed';
+    transformParams.spectralEdit.enabled ||
+    transformParams.spectralGlitch.enabled ||
+    transformParams.audioGlitch.enabled;
+  const availableViews: SpectrogramView[] = isTransformActive
+    ? ['transformed', 'original', 'difference', 'error']
+    : ['transformed', 'error'];
+  const currentViewKey = availableViews.includes(spectrogramView)
+    ? spectrogramView
+    : 'transformed';
 
   const spectrograms: Record<
     SpectrogramView,
     {
       data: SpectrogramData;
       title: string;
-      viewType: 'intensity' | 'difference';
+      viewType: SpectrogramLayer;
     }
   > = {
     original: {
-      data: originalSpectrogram,
+      data: originalSpectrograms[channelView] ?? EMPTY_SPECTROGRAM,
       title: 'Spectrogram (Original)',
       viewType: 'intensity',
     },
     transformed: {
-      data: transformedSpectrogram,
+      data: transformedSpectrograms[channelView] ?? EMPTY_SPECTROGRAM,
       title: 'Spectrogram (Post-Transformation)',
       viewType: 'intensity',
     },
     difference: {
-      data: differenceSpectrogram,
+      data: differenceSpectrograms[channelView] ?? EMPTY_SPECTROGRAM,
       title: 'Spectrogram (Difference Map)',
       viewType: 'difference',
     },
+    error: {
+      data: errorSpectrograms[channelView] ?? EMPTY_SPECTROGRAM,
+      title: 'Spectrogram (Error Heatmap)',
+      viewType: 'error',
+    },
   };
   const currentSpectrogram = spectrograms[currentViewKey];
 
-  const SpectrogramViewToggle = () =>
-    isTransformActive ? (
-      <div className="flex items-center space-x-1 bg-slate-100 p-1 rounded-md">
-        {(['transformed', 'original', 'difference'] as SpectrogramView[]).map(
-          (view) => (
-            <button
-              key={view}
-              onClick={() => setSpectrogramView(view)}
-              className={`px-2 py-1 text-xs font-medium rounded ${spectrogramView === view ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}
-            >
-              {view.charAt(0).toUpperCase() + view.slice(1)}
-            </button>
+  const channelCount = originalChannels.length;
+  const channelViews = getChannelViews(channelCount);
+  const worstMetrics = channelMetrics.reduce<{
+    error: number;
+    snr: number | null;
+  }>(
+    (worst, m) => ({
+      error: Math.max(worst.error, m.maxError),
+      snr: worst.snr === null ? m.snr : Math.min(worst.snr, m.snr),
+    }),
+    { error: 0, snr: null },
+  );
+  const reconstructedViewSignal = useMemo(
+    () =>
+      reconstructedChannels.length === channelCount && channelCount > 0
+        ? deriveChannelSignal(reconstructedChannels, channelView)
+        : new Float32Array(0),
+    [reconstructedChannels, channelView, channelCount],
+  );
+  const originalViewSignal = useMemo(
+    () =>
+      channelCount > 0
+        ? deriveChannelSignal(originalChannels, channelView)
+        : new Float32Array(0),
+    [originalChannels, channelView, channelCount],
+  );
+  const frameErrors = useMemo(
+    () =>
+      reconstructedViewSignal.length > 0
+        ? computeFrameErrors(
+            originalViewSignal,
+            reconstructedViewSignal,
+            params,
+          )
+        : null,
+    [originalViewSignal, reconstructedViewSignal, params],
+  );
+
+  // STFT frames are centered half a window after their start sample.
+  const { padLeft } = getFrameLayout(originalViewSignal.length, params);
+  const { sr, nfft, hopLength } = params;
+  const frameToTime = useCallback(
+    (frame: number) => (frame * hopLength - padLeft + nfft / 2) / sr,
+    [sr, nfft, hopLength, padLeft],
+  );
+  const timeToFrame = useCallback(
+    (time: number) => (time * sr + padLeft - nfft / 2) / hopLength,
+    [sr, nfft, hopLength, padLeft],
+  );
+  const focusFrame =
+    focusTime === null || stftDimensions.frames === 0
+      ? null
+      : Math.max(
+          0,
+          Math.min(
+            stftDimensions.frames - 1,
+            Math.round(timeToFrame(focusTime)),
           ),
-        )}
-      </div>
-    ) : null;
+        );
+  const duration = originalViewSignal.length / params.sr;
+
+  // Jumping to a time keeps the zoom but re-centers the view on it.
+  const handleSeek = useCallback(
+    (time: number) => {
+      setFocusTime(time);
+      playerRef.current?.seek(time);
+      setViewRange((range) =>
+        time >= range.start && time <= range.end
+          ? range
+          : clampRange(
+              {
+                start: time - (range.end - range.start) / 2,
+                end: time + (range.end - range.start) / 2,
+              },
+              duration,
+            ),
+      );
+    },
+    [duration],
+  );
+
+  // The frames and bins the spectrogram shows: the waveform's time range,
+  // widened to whole frames, and the zoomed-in bin range.
+  const spectrogramViewport = useMemo((): SpectrogramViewport => {
+    const { frames, bins } = stftDimensions;
+    const frameStart =
+      viewRange.start <= 0
+        ? 0
+        : Math.max(
+            0,
+            Math.min(
+              frames - 1,
+              Math.floor(timeToFrame(viewRange.start) + 1e-6),
+            ),
+          );
+    const frameEnd =
+      viewRange.end >= duration
+        ? frames
+        : Math.max(
+            frameStart + 1,
+            Math.min(frames, Math.ceil(timeToFrame(viewRange.end) - 1e-6) + 1),
+          );
+    const binEnd = Math.min(bins, binRange.end);
+    return {
+      frameStart,
+      frameEnd,
+      binStart: Math.min(binEnd, binRange.start),
+      binEnd,
+    };
+  }, [stftDimensions, viewRange, binRange, duration, timeToFrame]);
+
+  const handleSpectrogramViewportChange = useCallback(
+    ({ frameStart, frameEnd, binStart, binEnd }: SpectrogramViewport) => {
+      const clampTime = (time: number) => Math.max(0, Math.min(duration, time));
+      setViewRange({
+        start: frameStart === 0 ? 0 : clampTime(frameToTime(frameStart)),
+        end:
+          frameEnd >= stftDimensions.frames
+            ? duration
+            : clampTime(frameToTime(frameEnd - 1)),
+      });
+      setBinRange({ start: binStart, end: binEnd });
+    },
+    [stftDimensions.frames, duration, frameToTime],
+  );
+
+  // Zoomed-in windows (and max pooling) are recomputed in the worker at up to
+  // full resolution once the view stops moving. The whole-file mean overview
+  // is already at hand.
+  const detailLayer = currentSpectrogram.viewType;
+  const detailBase =
+    detailLayer === 'intensity'
+      ? spectrograms.original.data
+      : currentSpectrogram.data;
+  useEffect(() => {
+    const worker = workerRef.current;
+    const { frameStart, frameEnd, binStart, binEnd } = spectrogramViewport;
+    const isFullView =
+      frameStart === 0 &&
+      frameEnd === stftDimensions.frames &&
+      binStart === 0 &&
+      binEnd === stftDimensions.bins;
+    if (
+      !worker ||
+      detailBase.data.length === 0 ||
+      (isFullView && spectrogramAggregation === 'mean')
+    ) {
+      setDetailSpectrogram(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      worker
+        .viewport(
+          channelView,
+          detailLayer,
+          spectrogramViewport,
+          spectrogramAggregation,
+        )
+        .then((spectrogram) =>
+          setDetailSpectrogram({
+            view: channelView,
+            layer: detailLayer,
+            aggregation: spectrogramAggregation,
+            spectrogram,
+          }),
+        )
+        .catch((e) => {
+          if (e instanceof JobCancelledError) return;
+          console.error('Spectrogram detail failed:', e);
+        });
+    }, 120);
+    return () => {
+      clearTimeout(timer);
+      worker.cancel('viewport');
+    };
+  }, [
+    spectrogramViewport,
+    spectrogramAggregation,
+    channelView,
+    detailLayer,
+    detailBase,
+    stftDimensions,
+  ]);
+  const detailData =
+    detailSpectrogram &&
+    detailSpectrogram.view === channelView &&
+    detailSpectrogram.layer === detailLayer &&
+    detailSpectrogram.aggregation === spectrogramAggregation
+      ? detailSpectrogram.spectrogram
+      : null;
+
+  const SpectrogramViewToggle = () => (
+    <div className="flex items-center space-x-1 bg-slate-100 p-1 rounded-md">
+      {availableViews.map((view) => (
+        <button
+          key={view}
+          onClick={() => setSpectrogramView(view)}
+          className={`px-2 py-1 text-xs font-medium rounded ${currentViewKey === view ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}
+        >
+          {view.charAt(0).toUpperCase() + view.slice(1)}
+        </button>
+      ))}
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-slate-100/50 font-sans p-4 sm:p-6 lg:p-8">
@@ -446,16 +1018,17 @@ const App: React.FC = () => {
                 onTransformChange={handleTransformChange}
                 isLoading={isLoading || isResynthesizing}
                 onFileChange={handleFileChange}
+                onGenerateSignal={(generator) =>
+                  void handleGenerateSignal(generator)
+                }
                 audioInfo={audioInfo}
-                onMaskReset={() => {
-                  if (stftDimensions.frames > 0) {
-                    const newMask = new SpectralMask(
-                      stftDimensions.frames,
-                      stftDimensions.bins,
-                    );
-                    handleMaskChange(newMask);
-                  }
-                }}
+                overlapAnalysis={overlapAnalysis}
+                onMaskReset={handleMaskReset}
+                channelCount={channelCount}
+                onProjectSave={(embedAudio) =>
+                  void handleProjectSave(embedAudio)
+                }
+                onProjectOpen={(event) => void handleProjectOpen(event)}
               />
             </div>
           </aside>
@@ -485,6 +1058,7 @@ const App: React.FC = () => {
                 </svg>
                 <span className="ml-4 text-xl text-slate-600">
                   Performing Initial Analysis...
+                  {jobProgress !== null && ` ${Math.round(jobProgress * 100)}%`}
                 </span>
               </div>
             ) : !audioBuffer ? (
@@ -516,29 +1090,83 @@ const App: React.FC = () => {
               <div className="space-y-8">
                 <AudioPlaybackControls
                   onToggle={handlePlaybackToggle}
+                  onStop={stopAllPlayback}
                   status={playbackStatus}
-                  disabled={!audioBuffer || isLoading || isResynthesizing}
+                  source={playbackSource}
+                  onSourceChange={handlePlaybackSourceChange}
+                  hasReconstruction={reconstructedBuffer !== null}
+                  loopRegion={loopRegion}
+                  onLoopRegionChange={handleLoopRegionChange}
+                  viewRange={viewRange}
+                  getPosition={getPlaybackPosition}
+                  disabled={!audioBuffer || isLoading}
+                  onExport={() => setIsExportOpen(true)}
+                />
+                <ExportDialog
+                  isOpen={isExportOpen}
+                  onClose={() => setIsExportOpen(false)}
+                  fileName={audioInfo?.name ?? 'audio'}
+                  sampleRate={params.sr}
+                  originalChannels={originalChannels}
+                  reconstructedChannels={reconstructedChannels}
                 />
                 <ResultsDisplay
-                  error={error}
+                  error={worstMetrics.error}
+                  channelMetrics={channelMetrics}
+                  channelCount={channelCount}
                   params={params}
-                  snr={snr}
+                  overlapAnalysis={overlapAnalysis}
+                  snr={worstMetrics.snr}
                   transformParams={transformParams}
                   isResynthesizing={isResynthesizing}
+                  progress={jobProgress}
                 />
                 <div>
                   <h3 className="text-xl font-semibold text-slate-700 mb-4">
                     Original vs. Reconstructed Signal
                   </h3>
                   <SignalPlot
-                    originalData={originalSignal}
-                    reconstructedData={reconstructedSignal}
+                    original={originalViewSignal}
+                    reconstructed={reconstructedViewSignal}
+                    sampleRate={params.sr}
+                    range={viewRange}
+                    onRangeChange={setViewRange}
+                    markerTime={focusTime}
+                    loopRegion={loopRegion}
+                    playheadTime={getPlaybackPosition}
+                    onSeek={handleSeek}
                   />
+                  {frameErrors && (
+                    <div className="mt-4">
+                      <h4 className="font-semibold text-slate-700 mb-2">
+                        Error Over Time
+                      </h4>
+                      <ErrorTimeline
+                        errors={frameErrors}
+                        duration={duration}
+                        markerTime={focusTime}
+                        onSeek={handleSeek}
+                      />
+                    </div>
+                  )}
+                  {transformParams.audioGlitch.enabled &&
+                    reconstructedChannels.length === channelCount && (
+                      <div className="mt-4">
+                        <h4 className="font-semibold text-slate-700 mb-2">
+                          Glitch Events
+                        </h4>
+                        <GlitchTimeline
+                          signal={reconstructedViewSignal}
+                          events={glitchEvents}
+                          sampleRate={params.sr}
+                        />
+                      </div>
+                    )}
                 </div>
                 <div>
                   <div className="flex justify-between items-center mb-4">
                     <h3 className="text-xl font-semibold text-slate-700">
-                      {isTransformActive
+                      {isTransformActive || currentViewKey === 'error'
                         ? currentSpectrogram.title
                         : 'Spectrogram'}
                     </h3>
@@ -547,14 +1175,39 @@ const App: React.FC = () => {
                   <SpectrogramDisplay
                     spectrogramData={spectrograms.original.data}
                     viewType={currentSpectrogram.viewType}
-                    diffData={spectrograms.difference.data.data}
-                    mask={spectralMask}
+                    diffData={spectrograms.difference.data}
+                    errorData={spectrograms.error.data}
+                    detailData={detailData}
+                    mask={channelMasks[channelView] ?? null}
                     onMaskChange={handleMaskChange}
+                    onStrokeStart={handleStrokeStart}
+                    onStrokeEnd={handleStrokeEnd}
+                    onMaskEdit={handleMaskEdit}
+                    onMagicWand={handleMagicWand}
                     isEditMode={transformParams.spectralEdit.enabled}
                     brushParams={transformParams.spectralEdit.brush}
                     fullDimensions={stftDimensions}
+                    channelViews={channelViews}
+                    channelView={channelView}
+                    onChannelViewChange={setChannelView}
+                    channelCount={channelCount}
+                    markerFrame={focusFrame}
+                    onFrameSelect={(frame) => handleSeek(frameToTime(frame))}
+                    viewport={spectrogramViewport}
+                    onViewportChange={handleSpectrogramViewportChange}
+                    aggregation={spectrogramAggregation}
+                    onAggregationChange={setSpectrogramAggregation}
+                    sampleRate={params.sr}
+                    frameToTime={frameToTime}
+                    playheadTime={getPlaybackPosition}
+                    channelStfts={channelStfts}
                   />
                 </div>
+                <HistoryPanel
+                  history={history}
+                  onJump={handleHistoryJump}
+                  disabled={isLoading || stftDimensions.frames === 0}
+                />
               </div>
             )}
           </main>
@@ -564,87 +1217,4 @@ const App: React.FC = () => {
   );
 };
 
-// Helper function to be moved to signalService but placed here for brevity in diff
-export const generateDifferenceSpectrogramData = (
-  originalStft: number[][][],
-  transformedStft: number[][][],
-  params: StftParams,
-): SpectrogramData => {
-  if (originalStft.length === 0 || transformedStft.length === 0)
-    return { data: [], freqLabels: [] };
-
-  const stftToDbMatrix = (stftResult: number[][][]): number[][] =>
-    stftResult.map((row) =>
-      row.map(
-        (complex) =>
-          20 * Math.log10(Math.sqrt(complex[0] ** 2 + complex[1] ** 2) + 1e-12),
-      ),
-    );
-
-  const originalDb = stftToDbMatrix(originalStft);
-  const transformedDb = stftToDbMatrix(transformedStft);
-
-  let maxAbsDiff = 0;
-  const diffMatrix = originalDb.map((row, i) =>
-    row.map((val, j) => {
-      const diff = transformedDb[i][j] - val;
-      if (Math.abs(diff) > maxAbsDiff) maxAbsDiff = Math.abs(diff);
-      return diff;
-    }),
-  );
-  if (maxAbsDiff < 1e-6) maxAbsDiff = 1;
-
-  return downsampleAndCreateLabels(
-    diffMatrix.map((row) => row.map((diff) => diff / maxAbsDiff)),
-    params,
-  );
-};
-
-const downsampleAndCreateLabels = (
-  matrix: number[][],
-  params: StftParams,
-): SpectrogramData => {
-  const freqBins = matrix.length;
-  const timeSteps = matrix.length > 0 ? matrix[0].length : 0;
-  const MAX_DISPLAY_TIME_STEPS = 512;
-  const MAX_DISPLAY_FREQ_BINS = 256;
-  const timeStepRatio = Math.max(
-    1,
-    Math.floor(timeSteps / MAX_DISPLAY_TIME_STEPS),
-  );
-  const freqBinRatio = Math.max(
-    1,
-    Math.floor(freqBins / MAX_DISPLAY_FREQ_BINS),
-  );
-  const displayMatrix: number[][] = [];
-
-  for (let i = freqBins - 1; i >= 0; i -= freqBinRatio) {
-    const newRow: number[] = [];
-    for (let j = 0; j < timeSteps; j += timeStepRatio) {
-      let sum = 0,
-        count = 0;
-      for (let y = 0; y < freqBinRatio && i - y >= 0; y++) {
-        for (let x = 0; x < timeStepRatio && j + x < timeSteps; x++) {
-          sum += matrix[i - y][j + x];
-          count++;
-        }
-      }
-      newRow.push(count > 0 ? sum / count : 0);
-    }
-    displayMatrix.push(newRow);
-  }
-
-  const nyquist = params.sr / 2;
-  const freqLabels = [
-    { bin: 0, label: `${(nyquist / 1000).toFixed(1)} kHz` },
-    {
-      bin: Math.floor(displayMatrix.length / 2),
-      label: `${(nyquist / 2 / 1000).toFixed(1)} kHz`,
-    },
-    { bin: displayMatrix.length - 1, label: '0 kHz' },
-  ];
-
-  return { data: displayMatrix, freqLabels };
-};
-
 export default App;
@@ -0,0 +1,350 @@
+/// <reference types="node" />
+// Headless STFT round trip over a batch of WAV files:
+//
+//   npm run roundtrip -- [options] <file.wav>...
+//
+// Each file is analyzed and resynthesized with the same code the app uses.
+// The reconstructed audio and a JSON and CSV metrics report are written to
+// the output directory. Run with --help for the options.
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import {
+  ChannelMetrics,
+  PadMode,
+  StftParams,
+  TransformParams,
+  WindowFunction,
+  WindowSymmetry,
+} from '../types';
+import { DEFAULT_PARAMS, DEFAULT_TRANSFORM_PARAMS } from '../constants';
+import { WavSampleFormat, encodeWav } from '../services/audioEncoder';
+import { BASE_CHANNEL_VIEWS, MAX_CHANNELS } from '../services/channels';
+import { computeChannelMetrics } from '../services/metrics';
+import {
+  LoadedProject,
+  checkProjectAudio,
+  parseProjectFile,
+} from '../services/projectFile';
+import {
+  ChannelMasks,
+  performStft,
+  resynthesizeChannels,
+} from '../services/signalService';
+import { decodeWav } from '../services/wavDecoder';
+import { WINDOW_LABELS } from '../services/windows';
+
+const USAGE = `Usage: npm run roundtrip -- [options] <file.wav>...
+
+STFT options (ignored with --project, which brings its own):
+  --nfft <n>             FFT size (default ${DEFAULT_PARAMS.nfft})
+  --hop <n>              Hop length in samples (default ${DEFAULT_PARAMS.hopLength})
+  --window <name>        ${Object.keys(WINDOW_LABELS).join(', ')}
+  --symmetry <s>         periodic or symmetric
+  --no-center            Start the first frame at sample 0
+  --pad-mode <mode>      zero, reflect, constant or edge
+
+Other options:
+  --project <file>       Apply the settings and mask of a saved project
+  --out <dir>            Output directory (default roundtrip-out)
+  --format <f>           pcm16, pcm24 or float32 (default float32)
+  --max-error <x>        Fail files whose max abs error exceeds x
+  --help                 Show this message`;
+
+interface FileReport {
+  file: string;
+  output?: string;
+  sampleRate?: number;
+  samples?: number;
+  channels?: ChannelMetrics[];
+  passed: boolean;
+  error?: string;
+}
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const parseChoice = <T extends string>(
+  value: string | undefined,
+  choices: readonly T[],
+  option: string,
+): T | undefined => {
+  if (value === undefined) return undefined;
+  if (!(choices as readonly string[]).includes(value))
+    fail(`--${option} must be one of: ${choices.join(', ')}`);
+  return value as T;
+};
+
+const parseInteger = (value: string | undefined, option: string) => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0)
+    fail(`--${option} must be a positive integer`);
+  return n;
+};
+
+const checkStftParams = ({ nfft, hopLength }: StftParams) => {
+  if (nfft < 2 || (nfft & (nfft - 1)) !== 0)
+    throw new Error(`n_fft ${nfft} is not a power of two`);
+  if (hopLength > nfft)
+    throw new Error(`hop ${hopLength} is longer than n_fft ${nfft}`);
+};
+
+const toCsv = (reports: FileReport[]) => {
+  const quote = (v: string | number | boolean | undefined) => {
+    const text =
+      v === undefined
+        ? ''
+        : typeof v === 'number' && !Number.isFinite(v)
+          ? v > 0
+            ? 'inf'
+            : '-inf'
+          : String(v);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const header = [
+    'file',
+    'channel',
+    'sample_rate',
+    'samples',
+    'max_error',
+    'snr_db',
+    'si_sdr_db',
+    'segmental_snr_db',
+    'spectral_convergence',
+    'log_spectral_distance_db',
+    'correlation',
+    'peak_diff_db',
+    'rms_diff_db',
+    'passed',
+    'output',
+    'error',
+  ];
+  const rows = reports.flatMap((r) =>
+    (r.channels?.length ? r.channels : [null]).map((c) =>
+      [
+        r.file,
+        c?.view,
+        r.sampleRate,
+        r.samples,
+        c?.maxError,
+        c?.snr,
+        c?.siSdr,
+        c?.segmentalSnr,
+        c?.spectralConvergence,
+        c?.logSpectralDistance,
+        c?.correlation,
+        c?.peakDiffDb,
+        c?.rmsDiffDb,
+        r.passed,
+        r.output,
+        r.error,
+      ]
+        .map(quote)
+        .join(','),
+    ),
+  );
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
+
+const roundTripFile = async (
+  file: string,
+  baseParams: Omit<StftParams, 'sr'>,
+  transformParams: TransformParams,
+  project: LoadedProject | null,
+  outDir: string,
+  format: WavSampleFormat,
+  maxError: number | undefined,
+): Promise<FileReport> => {
+  const bytes = await readFile(file);
+  const wav = decodeWav(
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength),
+  );
+  // Like the app, only the first two channels are processed.
+  const originals = wav.channels.slice(0, MAX_CHANNELS);
+  const params: StftParams = { ...baseParams, sr: wav.sampleRate };
+  checkStftParams(params);
+  if (project) await checkProjectAudio(project, originals, wav.sampleRate);
+
+  const channelStfts: number[][][][] = [];
+  for (const signal of originals)
+    channelStfts.push((await performStft(signal, params)).complexStft);
+  const masks: ChannelMasks = project?.masks ?? {};
+  const length = originals[0]?.length ?? 0;
+  const { signals } = await resynthesizeChannels(
+    channelStfts,
+    masks,
+    params,
+    length,
+    transformParams,
+  );
+
+  const channels = signals.map((reconstructed, c) =>
+    computeChannelMetrics(originals[c], reconstructed, BASE_CHANNEL_VIEWS[c]),
+  );
+  const output = path.join(
+    outDir,
+    `${path.basename(file, path.extname(file))}.roundtrip.wav`,
+  );
+  await writeFile(
+    output,
+    new Uint8Array(
+      encodeWav(signals, wav.sampleRate, format, { dither: false }),
+    ),
+  );
+  return {
+    file,
+    output,
+    sampleRate: wav.sampleRate,
+    samples: length,
+    channels,
+    passed:
+      maxError === undefined || channels.every((c) => c.maxError <= maxError),
+  };
+};
+
+const main = async () => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        nfft: { type: 'string' },
+        hop: { type: 'string' },
+        window: { type: 'string' },
+        symmetry: { type: 'string' },
+        'no-center': { type: 'boolean' },
+        'pad-mode': { type: 'string' },
+        project: { type: 'string' },
+        out: { type: 'string', default: 'roundtrip-out' },
+        format: { type: 'string', default: 'float32' },
+        'max-error': { type: 'string' },
+        help: { type: 'boolean' },
+      },
+    });
+  } catch (e) {
+    return fail(e instanceof Error ? e.message : String(e));
+  }
+  const { values, positionals: files } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (files.length === 0) fail('No input files given.');
+
+  const format = parseChoice<WavSampleFormat>(
+    values.format,
+    ['pcm16', 'pcm24', 'float32'],
+    'format',
+  )!;
+  const maxError =
+    values['max-error'] === undefined ? undefined : Number(values['max-error']);
+  if (maxError !== undefined && !(maxError >= 0))
+    fail('--max-error must be a non-negative number');
+
+  let project: LoadedProject | null = null;
+  let baseParams: Omit<StftParams, 'sr'> = { ...DEFAULT_PARAMS };
+  let transformParams = DEFAULT_TRANSFORM_PARAMS;
+  if (values.project) {
+    try {
+      project = await parseProjectFile(await readFile(values.project, 'utf8'));
+    } catch (e) {
+      return fail(
+        `Could not open project: ${e instanceof Error ? e.message : String(e)}`,
+      );
+    }
+    baseParams = project.params;
+    transformParams = project.transformParams;
+  } else {
+    baseParams = {
+      ...baseParams,
+      nfft: parseInteger(values.nfft, 'nfft') ?? baseParams.nfft,
+      hopLength: parseInteger(values.hop, 'hop') ?? baseParams.hopLength,
+      window:
+        parseChoice(
+          values.window,
+          Object.keys(WINDOW_LABELS) as WindowFunction[],
+          'window',
+        ) ?? baseParams.window,
+      windowSymmetry:
+        parseChoice<WindowSymmetry>(
+          values.symmetry,
+          ['periodic', 'symmetric'],
+          'symmetry',
+        ) ?? baseParams.windowSymmetry,
+      center: !values['no-center'],
+      padMode:
+        parseChoice<PadMode>(
+          values['pad-mode'],
+          ['zero', 'reflect', 'constant', 'edge'],
+          'pad-mode',
+        ) ?? baseParams.padMode,
+    };
+  }
+
+  await mkdir(values.out, { recursive: true });
+  const reports: FileReport[] = [];
+  for (const file of files) {
+    let report: FileReport;
+    try {
+      report = await roundTripFile(
+        file,
+        baseParams,
+        transformParams,
+        project,
+        values.out,
+        format,
+        maxError,
+      );
+    } catch (e) {
+      report = {
+        file,
+        passed: false,
+        error: e instanceof Error ? e.message : String(e),
+      };
+    }
+    reports.push(report);
+
+    const summary = report.error
+      ? `error: ${report.error}`
+      : report
+          .channels!.map(
+            (c) =>
+              `${c.view} max error ${c.maxError.toExponential(2)}, SNR ${c.snr.toFixed(1)} dB`,
+          )
+          .join('; ');
+    console.log(`${report.passed ? 'ok  ' : 'FAIL'} ${file}: ${summary}`);
+  }
+
+  await writeFile(
+    path.join(values.out, 'report.json'),
+    JSON.stringify(
+      {
+        createdAt: new Date().toISOString(),
+        // The sample rate comes from each file, so it is left out here.
+        params: { ...baseParams, sr: undefined, duration: undefined },
+        transformParams,
+        project: values.project ?? null,
+        maxError: maxError ?? null,
+        files: reports,
+      },
+      // JSON has no Infinity; bit-exact channels report an SNR of null.
+      (_key, value: unknown) =>
+        typeof value === 'number' && !Number.isFinite(value) ? null : value,
+      2,
+    ),
+  );
+  await writeFile(path.join(values.out, 'report.csv'), toCsv(reports));
+
+  const failed = reports.filter((r) => !r.passed).length;
+  console.log(
+    `${reports.length - failed}/${reports.length} passed; reports in ${values.out}`,
+  );
+  if (failed > 0) process.exitCode = 1;
+};
+
+void main();
@@ -1,15 +1,28 @@
-import React from 'react';
-import { PlaybackStatus } from '../types';
+import React, { useEffect, useRef } from 'react';
+import { PlaybackSource, PlaybackStatus } from '../types';
+import { TimeRange } from '../services/waveform';
 
 interface AudioPlaybackControlsProps {
-  onToggle: (type: 'original' | 'reconstructed') => void;
-  status: {
-    original: PlaybackStatus;
-    reconstructed: PlaybackStatus;
-  };
+  onToggle: () => void; // Play from the current position, or pause there
+  onStop: () => void;
+  status: PlaybackStatus;
+  source: PlaybackSource;
+  onSourceChange: (source: PlaybackSource) => void;
+  hasReconstruction: boolean;
+  loopRegion: TimeRange | null;
+  onLoopRegionChange: (region: TimeRange | null) => void;
+  viewRange: TimeRange; // What "loop" captures
+  getPosition: () => number | null;
   disabled: boolean;
+  onExport: () => void;
 }
 
+const SOURCE_LABELS: Record<PlaybackSource, string> = {
+  original: 'Original',
+  reconstructed: 'Reconstructed',
+  difference: 'Difference',
+};
+
 const PlayIcon = () => (
   <svg
     xmlns="http://www.w3.org/2000/svg"
@@ -32,7 +45,7 @@ const PlayIcon = () => (
   </svg>
 );
 
-const StopIcon = () => (
+const PauseIcon = () => (
   <svg
     xmlns="http://www.w3.org/2000/svg"
     className="h-6 w-6"
@@ -49,54 +62,170 @@ const StopIcon = () => (
   </svg>
 );
 
+const StopIcon = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className="h-5 w-5"
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+    strokeWidth={2}
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+    />
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      d="M9 10a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z"
+    />
+  </svg>
+);
+
+// Position in seconds, rewritten every animation frame without re-rendering.
+const PositionReadout: React.FC<{ getPosition: () => number | null }> = ({
+  getPosition,
+}) => {
+  const spanRef = useRef<HTMLSpanElement | null>(null);
+  useEffect(() => {
+    let handle = 0;
+    const update = () => {
+      handle = requestAnimationFrame(update);
+      const position = getPosition();
+      if (spanRef.current)
+        spanRef.current.textContent =
+          position === null ? '–' : `${position.toFixed(3)} s`;
+    };
+    update();
+    return () => cancelAnimationFrame(handle);
+  }, [getPosition]);
+  return <span ref={spanRef} className="font-mono text-sm text-slate-700" />;
+};
+
+const DownloadIcon = () => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className="h-5 w-5"
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+    strokeWidth={2}
+  >
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+    />
+  </svg>
+);
+
 const AudioPlaybackControls: React.FC<AudioPlaybackControlsProps> = ({
   onToggle,
+  onStop,
   status,
+  source,
+  onSourceChange,
+  hasReconstruction,
+  loopRegion,
+  onLoopRegionChange,
+  viewRange,
+  getPosition,
   disabled,
+  onExport,
 }) => {
   const buttonBaseClasses =
     'w-28 flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
   const playClasses =
     'text-white bg-blue-600 hover:bg-blue-700 focus:ring-blue-500';
-  const stopClasses =
+  const pauseClasses =
     'text-white bg-red-600 hover:bg-red-700 focus:ring-red-500';
+  const secondaryClasses =
+    'flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-white border hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed';
+  const isPlaying = status === 'playing';
+  const canLoop = viewRange.end > viewRange.start;
 
   return (
     <div
-      className={`grid grid-cols-1 md:grid-cols-2 gap-4 ${disabled ? 'cursor-not-allowed' : ''}`}
+      className={`bg-slate-50 p-4 rounded-lg border space-y-3 ${disabled ? 'cursor-not-allowed' : ''}`}
     >
-      <div className="bg-slate-50 p-4 rounded-lg border">
-        <h4 className="font-semibold text-slate-700 mb-3">Original Audio</h4>
+      <div className="flex flex-wrap items-center gap-3">
         <button
-          onClick={() => onToggle('original')}
+          onClick={onToggle}
           disabled={disabled}
-          className={`${buttonBaseClasses} ${status.original === 'playing' ? stopClasses : playClasses}`}
-          aria-label={
-            status.original === 'playing'
-              ? 'Stop original audio'
-              : 'Play original audio'
-          }
+          className={`${buttonBaseClasses} ${isPlaying ? pauseClasses : playClasses}`}
+          aria-label={isPlaying ? 'Pause playback' : 'Start playback'}
         >
-          {status.original === 'playing' ? <StopIcon /> : <PlayIcon />}
-          <span>{status.original === 'playing' ? 'Stop' : 'Play'}</span>
+          {isPlaying ? <PauseIcon /> : <PlayIcon />}
+          <span>{isPlaying ? 'Pause' : 'Play'}</span>
         </button>
+        <button
+          onClick={onStop}
+          disabled={disabled}
+          className={secondaryClasses}
+          aria-label="Stop playback and return to the start"
+        >
+          <StopIcon />
+          <span>Stop</span>
+        </button>
+        <PositionReadout getPosition={getPosition} />
+        <div
+          className="flex items-center gap-1 bg-slate-100 p-1 rounded-md ml-auto"
+          role="group"
+          aria-label="Playback source"
+        >
+          {(Object.keys(SOURCE_LABELS) as PlaybackSource[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => onSourceChange(key)}
+              disabled={disabled || (key !== 'original' && !hasReconstruction)}
+              className={`px-3 py-1 text-sm font-medium rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${source === key ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}
+              aria-pressed={source === key}
+            >
+              {SOURCE_LABELS[key]}
+            </button>
+          ))}
+        </div>
       </div>
-      <div className="bg-slate-50 p-4 rounded-lg border">
-        <h4 className="font-semibold text-slate-700 mb-3">
-          Reconstructed Audio
-        </h4>
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={loopRegion !== null}
+            disabled={disabled || !canLoop}
+            onChange={(e) =>
+              onLoopRegionChange(e.target.checked ? viewRange : null)
+            }
+          />
+          Loop
+        </label>
+        {loopRegion ? (
+          <>
+            <span className="font-mono">
+              {loopRegion.start.toFixed(3)}–{loopRegion.end.toFixed(3)} s
+            </span>
+            <button
+              onClick={() => onLoopRegionChange(viewRange)}
+              disabled={disabled || !canLoop}
+              className="text-xs text-blue-600 hover:underline disabled:opacity-50"
+            >
+              Loop visible range
+            </button>
+          </>
+        ) : (
+          <span className="text-xs text-slate-500">
+            Loops the visible range. Click the waveform, error timeline or
+            spectrogram to seek; switching source keeps the position.
+          </span>
+        )}
         <button
-          onClick={() => onToggle('reconstructed')}
+          onClick={onExport}
           disabled={disabled}
-          className={`${buttonBaseClasses} ${status.reconstructed === 'playing' ? stopClasses : playClasses}`}
-          aria-label={
-            status.reconstructed === 'playing'
-              ? 'Stop reconstructed audio'
-              : 'Play reconstructed audio'
-          }
+          className={`${secondaryClasses} ml-auto`}
         >
-          {status.reconstructed === 'playing' ? <StopIcon /> : <PlayIcon />}
-          <span>{status.reconstructed === 'playing' ? 'Stop' : 'Play'}</span>
+          <DownloadIcon />
+          <span>Export Audio...</span>
         </button>
       </div>
     </div>
@@ -0,0 +1,184 @@
+import React, { MouseEvent, useCallback, useMemo } from 'react';
+
+import { FrameErrors } from '../services/metrics';
+
+interface ErrorTimelineProps {
+  errors: FrameErrors;
+  duration: number; // Seconds
+  markerTime: number | null;
+  onSeek: (time: number) => void;
+}
+
+const WIDTH = 600;
+const HEIGHT = 48;
+// A click snaps to the worst frame within this many columns either side.
+const SNAP_COLUMNS = 6;
+
+interface TraceProps {
+  label: string;
+  xs: Float64Array; // Column positions in viewBox units
+  values: Float64Array; // One per column; may hold +/-Infinity
+  color: string;
+  markerX: number | null;
+  onClick: (e: MouseEvent<SVGSVGElement>) => void;
+}
+
+// One auto-ranged trace. Infinite values (exact frames) are pinned to the
+// edge of the range they point towards.
+const Trace: React.FC<TraceProps> = ({
+  label,
+  xs,
+  values,
+  color,
+  markerX,
+  onClick,
+}) => {
+  const { path, min, max } = useMemo(() => {
+    let lo = Infinity,
+      hi = -Infinity;
+    for (const v of values) {
+      if (!isFinite(v)) continue;
+      lo = Math.min(lo, v);
+      hi = Math.max(hi, v);
+    }
+    if (lo > hi) return { path: '', min: 0, max: 0 };
+    lo = Math.floor(lo / 10) * 10;
+    hi = Math.max(lo + 10, Math.ceil(hi / 10) * 10);
+    const y = (v: number) => {
+      const clamped = Math.max(lo, Math.min(hi, v));
+      return (HEIGHT - ((clamped - lo) / (hi - lo)) * HEIGHT).toFixed(1);
+    };
+    const points = Array.from(values, (v, c) => `${xs[c].toFixed(1)},${y(v)}`);
+    return { path: `M${points.join('L')}`, min: lo, max: hi };
+  }, [xs, values]);
+
+  return (
+    <div className="flex gap-2">
+      <div className="w-20 flex flex-col justify-between text-xs text-slate-500 text-right">
+        <span>{path ? `${max} dB` : ''}</span>
+        <span className="font-medium text-slate-600">{label}</span>
+        <span>{path ? `${min} dB` : ''}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="flex-1 h-12 bg-white rounded border cursor-pointer"
+        preserveAspectRatio="none"
+        onClick={onClick}
+        aria-label={`${label} over time`}
+      >
+        {path ? (
+          <path d={path} fill="none" stroke={color} strokeWidth={1.25} />
+        ) : (
+          <text x={4} y={HEIGHT / 2 + 4} fontSize={11} fill="#64748b">
+            Exact in every frame
+          </text>
+        )}
+        {markerX !== null && (
+          <line
+            x1={markerX}
+            x2={markerX}
+            y1={0}
+            y2={HEIGHT}
+            stroke="#0f172a"
+            strokeWidth={1}
+            strokeDasharray="3 2"
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
+
+// Per-frame RMS error and SNR across the whole signal, to show where a
+// reconstruction breaks down. Clicking jumps to the nearest error peak.
+const ErrorTimeline: React.FC<ErrorTimelineProps> = ({
+  errors,
+  duration,
+  markerTime,
+  onSeek,
+}) => {
+  const toX = useCallback(
+    (time: number) =>
+      duration > 0 ? Math.max(0, Math.min(1, time / duration)) * WIDTH : 0,
+    [duration],
+  );
+
+  // Frames are pooled into at most WIDTH columns, keeping the worst value
+  // and the frame it came from, so short spikes survive the decimation.
+  const columns = useMemo(() => {
+    const frames = errors.times.length;
+    const count = Math.max(1, Math.min(WIDTH, frames));
+    const xs = new Float64Array(count);
+    const error = new Float64Array(count).fill(-Infinity);
+    const snr = new Float64Array(count).fill(Infinity);
+    const peakFrame = new Int32Array(count);
+    for (let c = 0; c < count; c++) {
+      const from = Math.floor((c * frames) / count);
+      const to = Math.max(from + 1, Math.floor(((c + 1) * frames) / count));
+      peakFrame[c] = from;
+      const middle = Math.min(frames - 1, Math.floor((from + to - 1) / 2));
+      xs[c] = toX(errors.times[middle] ?? 0);
+      for (let f = from; f < to && f < frames; f++) {
+        if (errors.rmsErrorDb[f] > error[c]) {
+          error[c] = errors.rmsErrorDb[f];
+          peakFrame[c] = f;
+        }
+        snr[c] = Math.min(snr[c], errors.snrDb[f]);
+      }
+    }
+    return { xs, error, snr, peakFrame };
+  }, [errors, toX]);
+
+  const handleClick = (e: MouseEvent<SVGSVGElement>) => {
+    const frames = errors.times.length;
+    if (frames === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.max(
+      0,
+      Math.min(1, (e.clientX - rect.left) / rect.width),
+    );
+    const count = columns.error.length;
+    let clicked = 0;
+    for (let c = 1; c < count; c++) {
+      if (
+        Math.abs(columns.xs[c] - fraction * WIDTH) <
+        Math.abs(columns.xs[clicked] - fraction * WIDTH)
+      )
+        clicked = c;
+    }
+    let best = clicked;
+    for (
+      let c = Math.max(0, clicked - SNAP_COLUMNS);
+      c <= Math.min(count - 1, clicked + SNAP_COLUMNS);
+      c++
+    ) {
+      if (columns.error[c] > columns.error[best]) best = c;
+    }
+    onSeek(Math.max(0, errors.times[columns.peakFrame[best]]));
+  };
+
+  const markerX = markerTime !== null ? toX(markerTime) : null;
+
+  return (
+    <div className="space-y-1">
+      <Trace
+        label="RMS error"
+        xs={columns.xs}
+        values={columns.error}
+        color="#dc2626"
+        markerX={markerX}
+        onClick={handleClick}
+      />
+      <Trace
+        label="Frame SNR"
+        xs={columns.xs}
+        values={columns.snr}
+        color="#2563eb"
+        markerX={markerX}
+        onClick={handleClick}
+      />
+    </div>
+  );
+};
+
+export default ErrorTimeline;
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+
+import { ChannelView } from '../types';
+import {
+  AUDIO_EXPORT_FORMATS,
+  AudioExportFormat,
+  encodeAudio,
+} from '../services/audioEncoder';
+import {
+  deriveChannelSignal,
+  getChannelViewLabel,
+  getChannelViews,
+} from '../services/channels';
+import { downloadBlob } from '../utils';
+
+export type ExportSource = 'original' | 'reconstructed' | 'difference';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fileName: string;
+  sampleRate: number;
+  originalChannels: Float32Array[];
+  reconstructedChannels: Float32Array[];
+}
+
+const SOURCE_LABELS: Record<ExportSource, string> = {
+  original: 'Original',
+  reconstructed: 'Reconstructed',
+  difference: 'Difference (residual)',
+};
+
+const selectClasses =
+  'mt-1 block w-full pl-3 pr-10 py-2 text-base border-slate-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md';
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  isOpen,
+  onClose,
+  fileName,
+  sampleRate,
+  originalChannels,
+  reconstructedChannels,
+}) => {
+  const [source, setSource] = useState<ExportSource>('reconstructed');
+  const [format, setFormat] = useState<AudioExportFormat>('wav-pcm24');
+  const [channelSelection, setChannelSelection] = useState<ChannelView | 'all'>(
+    'all',
+  );
+  const [dither, setDither] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const channelCount = originalChannels.length;
+  const hasReconstruction = reconstructedChannels.length === channelCount;
+  const availableSources: ExportSource[] = hasReconstruction
+    ? ['original', 'reconstructed', 'difference']
+    : ['original'];
+  const activeSource = availableSources.includes(source) ? source : 'original';
+  const activeChannels =
+    channelSelection !== 'all' &&
+    !getChannelViews(channelCount).includes(channelSelection)
+      ? 'all'
+      : channelSelection;
+
+  const getSourceChannels = (): Float32Array[] => {
+    if (activeSource === 'original') return originalChannels;
+    if (activeSource === 'reconstructed') return reconstructedChannels;
+    return originalChannels.map((channel, c) =>
+      channel.map((v, i) => v - reconstructedChannels[c][i]),
+    );
+  };
+
+  const handleExport = () => {
+    try {
+      const channels = getSourceChannels();
+      const selected =
+        activeChannels === 'all'
+          ? channels
+          : [deriveChannelSignal(channels, activeChannels)];
+      const { extension } = AUDIO_EXPORT_FORMATS[format];
+      const baseName = fileName.replace(/\.[^.]+$/, '') || 'audio';
+      const suffix =
+        activeChannels === 'all' || channelCount < 2
+          ? activeSource
+          : `${activeSource}-${activeChannels}`;
+      downloadBlob(
+        encodeAudio(selected, sampleRate, format, { dither }),
+        `${baseName}-${suffix}.${extension}`,
+      );
+      setError(null);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+        className="w-full max-w-md bg-white rounded-xl shadow-xl p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3
+          id="export-dialog-title"
+          className="text-lg font-semibold text-slate-800"
+        >
+          Export Audio
+        </h3>
+
+        <div>
+          <label htmlFor="export-source" className="block text-sm font-medium">
+            Signal
+          </label>
+          <select
+            id="export-source"
+            value={activeSource}
+            onChange={(e) => setSource(e.target.value as ExportSource)}
+            className={selectClasses}
+          >
+            {availableSources.map((s) => (
+              <option key={s} value={s}>
+                {SOURCE_LABELS[s]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {channelCount > 1 && (
+          <div>
+            <label
+              htmlFor="export-channels"
+              className="block text-sm font-medium"
+            >
+              Channels
+            </label>
+            <select
+              id="export-channels"
+              value={activeChannels}
+              onChange={(e) =>
+                setChannelSelection(e.target.value as ChannelView | 'all')
+              }
+              className={selectClasses}
+            >
+              <option value="all">All ({channelCount} channels)</option>
+              {getChannelViews(channelCount).map((view) => (
+                <option key={view} value={view}>
+                  {getChannelViewLabel(view, channelCount)} only
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="export-format" className="block text-sm font-medium">
+            Format
+          </label>
+          <select
+            id="export-format"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as AudioExportFormat)}
+            className={selectClasses}
+          >
+            {(Object.keys(AUDIO_EXPORT_FORMATS) as AudioExportFormat[]).map(
+              (f) => (
+                <option key={f} value={f}>
+                  {AUDIO_EXPORT_FORMATS[f].label}
+                </option>
+              ),
+            )}
+          </select>
+        </div>
+
+        {AUDIO_EXPORT_FORMATS[format].quantized && (
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={dither}
+              onChange={(e) => setDither(e.target.checked)}
+              className="rounded border-slate-300"
+            />
+            TPDF dither
+            <span className="text-xs text-slate-500">
+              (decorrelates quantization error from the signal)
+            </span>
+          </label>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium rounded-md text-slate-700 bg-slate-100 hover:bg-slate-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+
+import { GlitchEvent, GlitchType } from '../types';
+import { GLITCH_LABELS } from '../services/audioGlitches';
+
+interface GlitchTimelineProps {
+  signal: Float32Array; // The glitched output of the current channel view
+  events: GlitchEvent[];
+  sampleRate: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 64;
+
+const GLITCH_COLORS: Record<GlitchType, string> = {
+  stutter: '#8b5cf6',
+  drop: '#64748b',
+  clip: '#ef4444',
+  jitter: '#f59e0b',
+  bitcrush: '#10b981',
+  reverse: '#3b82f6',
+  tapeStop: '#ec4899',
+};
+
+// Level effects share a chunk with time effects, so each kind gets a lane.
+const LANES: Record<GlitchType, number> = {
+  stutter: 0,
+  tapeStop: 0,
+  reverse: 0,
+  jitter: 0,
+  bitcrush: 1,
+  clip: 2,
+  drop: 3,
+};
+const LANE_COUNT = 4;
+
+// The whole output waveform as a min/max envelope, with every scheduled
+// glitch marked where it was applied. Hover a marker for its exact span.
+const GlitchTimeline: React.FC<GlitchTimelineProps> = ({
+  signal,
+  events,
+  sampleRate,
+}) => {
+  const envelopePath = useMemo(() => {
+    if (signal.length === 0) return '';
+    const upper: string[] = [];
+    const lower: string[] = [];
+    for (let x = 0; x < WIDTH; x++) {
+      const from = Math.floor((x / WIDTH) * signal.length);
+      const to = Math.max(
+        from + 1,
+        Math.floor(((x + 1) / WIDTH) * signal.length),
+      );
+      let min = 0,
+        max = 0;
+      for (let i = from; i < to && i < signal.length; i++) {
+        if (signal[i] < min) min = signal[i];
+        if (signal[i] > max) max = signal[i];
+      }
+      const y = (v: number) =>
+        (HEIGHT / 2 - Math.max(-1, Math.min(1, v)) * (HEIGHT / 2)).toFixed(1);
+      upper.push(`${x},${y(max)}`);
+      lower.push(`${x},${y(min)}`);
+    }
+    return `M${upper.join('L')}L${lower.reverse().join('L')}Z`;
+  }, [signal]);
+
+  // Back-to-back events of one kind are drawn (and listed) as a single run.
+  const runs = useMemo(() => {
+    const merged: GlitchEvent[] = [];
+    const lastOfType: Partial<Record<GlitchType, GlitchEvent>> = {};
+    for (const event of events) {
+      const last = lastOfType[event.type];
+      if (last && last.end === event.start && event.type !== 'jitter') {
+        last.end = event.end;
+      } else {
+        const run = { ...event };
+        merged.push(run);
+        lastOfType[event.type] = run;
+      }
+    }
+    return merged;
+  }, [events]);
+
+  const counts = useMemo(() => {
+    const byType: Partial<Record<GlitchType, number>> = {};
+    for (const { type } of events) byType[type] = (byType[type] ?? 0) + 1;
+    return byType;
+  }, [events]);
+
+  const toX = (sample: number) => (sample / Math.max(1, signal.length)) * WIDTH;
+  const seconds = (sample: number) => (sample / sampleRate).toFixed(3);
+  const laneHeight = HEIGHT / LANE_COUNT;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-16 bg-white rounded border"
+        preserveAspectRatio="none"
+        aria-label="Glitch events over the whole signal"
+      >
+        {runs.map((run, i) => (
+          <rect
+            key={i}
+            x={toX(run.start)}
+            y={LANES[run.type] * laneHeight}
+            width={Math.max(0.5, toX(run.end) - toX(run.start))}
+            height={laneHeight}
+            fill={GLITCH_COLORS[run.type]}
+            fillOpacity={0.45}
+          >
+            <title>
+              {`${GLITCH_LABELS[run.type]}: ${seconds(run.start)}–${seconds(run.end)} s`}
+              {run.offset !== undefined &&
+                ` (read ${run.offset >= 0 ? '+' : ''}${((run.offset / sampleRate) * 1000).toFixed(1)} ms)`}
+            </title>
+          </rect>
+        ))}
+        <path d={envelopePath} fill="#334155" fillOpacity={0.6} />
+      </svg>
+      <div className="flex flex-wrap gap-x-3 text-xs text-slate-500 mt-1">
+        {events.length === 0
+          ? 'No glitches were scheduled.'
+          : (Object.keys(GLITCH_LABELS) as GlitchType[])
+              .filter((type) => counts[type])
+              .map((type) => (
+                <span key={type}>
+                  <span style={{ color: GLITCH_COLORS[type] }}>&#9632;</span>{' '}
+                  {GLITCH_LABELS[type]} &times;{counts[type]}
+                </span>
+              ))}
+      </div>
+    </div>
+  );
+};
+
+export default GlitchTimeline;
@@ -0,0 +1,96 @@
+import React from 'react';
+
+import { HistorySnapshot } from '../services/editHistory';
+
+interface HistoryPanelProps {
+  history: HistorySnapshot;
+  onJump: (position: number) => void;
+  disabled: boolean;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+
+const isMac =
+  typeof navigator !== 'undefined' &&
+  /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD_KEY = isMac ? '⌘' : 'Ctrl+';
+
+// Lists mask edits oldest first. Clicking an entry restores the state right
+// after it; entries past the current position can still be redone.
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  onJump,
+  disabled,
+}) => {
+  const { entries, position, totalBytes, limitBytes } = history;
+  const buttonClasses =
+    'px-2 py-1 text-xs font-medium rounded border bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-slate-50 p-4 rounded-lg border">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold text-slate-700">Edit History</h4>
+        <div className="flex gap-1">
+          <button
+            onClick={() => onJump(position - 1)}
+            disabled={disabled || position === 0}
+            className={buttonClasses}
+            title={`Undo (${MOD_KEY}Z)`}
+          >
+            Undo
+          </button>
+          <button
+            onClick={() => onJump(position + 1)}
+            disabled={disabled || position === entries.length}
+            className={buttonClasses}
+            title={`Redo (${MOD_KEY}Shift+Z)`}
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+      <ol className="max-h-40 overflow-y-auto text-sm divide-y divide-slate-200 bg-white rounded border">
+        <li>
+          <button
+            onClick={() => onJump(0)}
+            disabled={disabled}
+            className={`w-full text-left px-3 py-1 ${position === 0 ? 'bg-blue-50 text-blue-700 font-medium' : 'text-slate-600 hover:bg-slate-50'}`}
+          >
+            {entries.length > 0 && entries[0].id > 1
+              ? 'Oldest remembered state'
+              : 'Unedited mask'}
+          </button>
+        </li>
+        {entries.map((entry, i) => (
+          <li key={entry.id}>
+            <button
+              onClick={() => onJump(i + 1)}
+              disabled={disabled}
+              className={`w-full flex justify-between px-3 py-1 text-left ${
+                i + 1 === position
+                  ? 'bg-blue-50 text-blue-700 font-medium'
+                  : i + 1 > position
+                    ? 'text-slate-400 italic hover:bg-slate-50'
+                    : 'text-slate-600 hover:bg-slate-50'
+              }`}
+            >
+              <span>{entry.label}</span>
+              <span className="text-xs font-mono text-slate-400">
+                {formatBytes(entry.bytes)}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+      <p className="text-xs text-slate-500 mt-2">
+        {formatBytes(totalBytes)} of {formatBytes(limitBytes)} used; the oldest
+        edits are dropped beyond that.
+      </p>
+    </div>
+  );
+};
+
+export default HistoryPanel;
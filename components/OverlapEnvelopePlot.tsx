@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+
+import { OverlapAnalysis } from '../services/overlapAnalysis';
+
+interface OverlapEnvelopePlotProps {
+  analysis: OverlapAnalysis;
+}
+
+const WIDTH = 240;
+const HEIGHT = 64;
+const PERIODS = 3; // Repeat the hop-periodic envelope so the ripple is visible
+
+// Plots both overlap-add envelopes normalized to their mean, so a flat line at
+// the middle means no ripple.
+const OverlapEnvelopePlot: React.FC<OverlapEnvelopePlotProps> = ({
+  analysis,
+}) => {
+  const { colaPath, nolaPath, span } = useMemo(() => {
+    const normalize = (envelope: Float32Array) => {
+      const mean = envelope.reduce((a, b) => a + b, 0) / envelope.length || 1;
+      return Array.from(envelope, (v) => v / mean);
+    };
+    const cola = normalize(analysis.colaEnvelope);
+    const nola = normalize(analysis.nolaEnvelope);
+    const deviation = Math.max(
+      1e-3,
+      ...cola.map((v) => Math.abs(v - 1)),
+      ...nola.map((v) => Math.abs(v - 1)),
+    );
+
+    const toPath = (values: number[]) => {
+      const total = values.length * PERIODS;
+      const points: string[] = [];
+      for (let i = 0; i < total; i++) {
+        const v = values[i % values.length];
+        const x = (i / Math.max(1, total - 1)) * WIDTH;
+        const y = HEIGHT / 2 - ((v - 1) / deviation) * (HEIGHT / 2 - 4);
+        points.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+      }
+      return `M${points.join('L')}`;
+    };
+    return {
+      colaPath: toPath(cola),
+      nolaPath: toPath(nola),
+      span: deviation,
+    };
+  }, [analysis]);
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-16 bg-white rounded border"
+        preserveAspectRatio="none"
+        aria-label="Overlap-add envelope ripple"
+      >
+        <line
+          x1={0}
+          y1={HEIGHT / 2}
+          x2={WIDTH}
+          y2={HEIGHT / 2}
+          stroke="#cbd5e1"
+          strokeDasharray="3 3"
+        />
+        <path d={colaPath} fill="none" stroke="#2563eb" strokeWidth={1.5} />
+        <path d={nolaPath} fill="none" stroke="#f97316" strokeWidth={1.5} />
+      </svg>
+      <div className="flex justify-between text-xs text-slate-500 mt-1">
+        <span>
+          <span className="text-blue-600">&#9644;</span> &Sigma;w{' '}
+          <span className="text-orange-500">&#9644;</span> &Sigma;w&sup2;
+        </span>
+        <span className="font-mono">
+          &plusmn;{(span * 100).toPrecision(2)}%
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default OverlapEnvelopePlot;
@@ -1,10 +1,27 @@
-import React from 'react';
+import React, { useState } from 'react';
+
 import {
   StftParams,
   TransformParams,
   GlitchParams,
   BrushParams,
+  WindowFunction,
+  WindowShapeParams,
+  PadMode,
+  GenerativeMode,
+  GlitchType,
+  SpectralGlitchParams,
+  SignalGeneratorParams,
 } from '../types';
+import { WINDOW_LABELS } from '../services/windows';
+import { OverlapAnalysis } from '../services/overlapAnalysis';
+import { PROJECT_FILE_EXTENSION } from '../services/projectFile';
+import { randomSeed } from '../utils';
+import { GLITCH_LABELS } from '../services/audioGlitches';
+
+import WindowPreview from './WindowPreview';
+import OverlapEnvelopePlot from './OverlapEnvelopePlot';
+import SignalGeneratorPanel from './SignalGeneratorPanel';
 
 interface ParameterControlsProps {
   params: StftParams;
@@ -12,11 +29,148 @@ interface ParameterControlsProps {
   transformParams: TransformParams;
   onTransformChange: (newParams: TransformParams) => void;
   onFileChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onGenerateSignal: (params: SignalGeneratorParams) => void;
   isLoading: boolean;
-  audioInfo: { name: string; duration: number; sr: number } | null;
+  audioInfo: {
+    name: string;
+    duration: number;
+    sr: number;
+    channels: number;
+  } | null;
   onMaskReset: () => void;
+  overlapAnalysis: OverlapAnalysis;
+  channelCount: number;
+  onProjectSave: (embedAudio: boolean) => void;
+  onProjectOpen: (event: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
+// Glitch effects in the order they are listed, with their chance setting.
+const GLITCH_EFFECTS: {
+  type: GlitchType;
+  chanceKey: keyof GlitchParams;
+  description: string;
+}[] = [
+  {
+    type: 'stutter',
+    chanceKey: 'stutterChance',
+    description: 'Repeats the previous chunk.',
+  },
+  {
+    type: 'drop',
+    chanceKey: 'dropChance',
+    description: 'Silences the chunk.',
+  },
+  {
+    type: 'clip',
+    chanceKey: 'clipChance',
+    description: 'Hard-clips the chunk.',
+  },
+  {
+    type: 'jitter',
+    chanceKey: 'jitterChance',
+    description: 'Reads the chunk from a randomly shifted time.',
+  },
+  {
+    type: 'bitcrush',
+    chanceKey: 'bitcrushChance',
+    description: 'Lowers the bit depth and sample rate of the chunk.',
+  },
+  {
+    type: 'reverse',
+    chanceKey: 'reverseChance',
+    description: 'Plays the chunk backwards.',
+  },
+  {
+    type: 'tapeStop',
+    chanceKey: 'tapeStopChance',
+    description: 'Slows the audio to a halt, like a stopping tape deck.',
+  },
+];
+
+// Each spectral glitch has a per-frame chance and one intensity setting.
+const SPECTRAL_GLITCH_EFFECTS: {
+  label: string;
+  chanceKey: keyof SpectralGlitchParams;
+  description: string;
+  intensity: {
+    key: keyof SpectralGlitchParams;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+    precision?: number;
+  };
+}[] = [
+  {
+    label: 'Freeze',
+    chanceKey: 'freezeChance',
+    description: 'Holds a frame, repeating it over the following frames.',
+    intensity: {
+      key: 'freezeLength',
+      label: 'Hold',
+      min: 1,
+      max: 64,
+      step: 1,
+      unit: ' frames',
+    },
+  },
+  {
+    label: 'Smear',
+    chanceKey: 'smearChance',
+    description: "Blends in the previous frame's magnitudes.",
+    intensity: {
+      key: 'smearAmount',
+      label: 'Amount',
+      min: 0,
+      max: 1,
+      step: 0.05,
+      unit: '',
+      precision: 2,
+    },
+  },
+  {
+    label: 'Quantize',
+    chanceKey: 'quantizeChance',
+    description: 'Snaps magnitudes to a coarse dB grid.',
+    intensity: {
+      key: 'quantizeStep',
+      label: 'Step',
+      min: 1,
+      max: 24,
+      step: 1,
+      unit: ' dB',
+    },
+  },
+  {
+    label: 'Bin Shuffle',
+    chanceKey: 'shuffleChance',
+    description: 'Swaps bins with nearby bins.',
+    intensity: {
+      key: 'shuffleRange',
+      label: 'Range',
+      min: 1,
+      max: 64,
+      step: 1,
+      unit: ' bins',
+    },
+  },
+  {
+    label: 'Phase Scramble',
+    chanceKey: 'phaseScrambleChance',
+    description: 'Randomizes phases, turning tones into noise.',
+    intensity: {
+      key: 'phaseScrambleAmount',
+      label: 'Amount',
+      min: 0,
+      max: 1,
+      step: 0.05,
+      unit: '',
+      precision: 2,
+    },
+  },
+];
+
 const ParameterControlGroup: React.FC<{
   title: string;
   children: React.ReactNode;
@@ -38,12 +192,23 @@ const LabeledSlider: React.FC<{
   step: number;
   unit: string;
   description?: string;
-}> = ({ label, value, onChange, min, max, step, unit, description }) => (
+  precision?: number;
+}> = ({
+  label,
+  value,
+  onChange,
+  min,
+  max,
+  step,
+  unit,
+  description,
+  precision = 0,
+}) => (
   <div>
     <label className="block text-sm font-medium text-slate-700">
       {label}:{' '}
       <span className="font-mono text-blue-600">
-        {value.toFixed(0)}
+        {value.toFixed(precision)}
         {unit}
       </span>
     </label>
@@ -62,23 +227,87 @@ const LabeledSlider: React.FC<{
   </div>
 );
 
+const LabeledSwitch: React.FC<{
+  id: string;
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}> = ({ id, label, checked, onChange }) => (
+  <div className="flex items-center justify-between bg-slate-50 p-3 rounded-md border">
+    <label htmlFor={id} className="text-sm font-medium text-slate-700">
+      {label}
+    </label>
+    <button
+      id={id}
+      role="switch"
+      aria-checked={checked}
+      onClick={() => onChange(!checked)}
+      className={`${checked ? 'bg-blue-600' : 'bg-slate-300'} relative inline-flex h-6 w-11 items-center rounded-full transition-colors`}
+    >
+      <span
+        className={`${checked ? 'translate-x-6' : 'translate-x-1'} inline-block h-4 w-4 transform rounded-full bg-white transition-transform`}
+      />
+    </button>
+  </div>
+);
+
 const ParameterControls: React.FC<ParameterControlsProps> = ({
   params,
   onParamsChange,
   transformParams,
   onTransformChange,
   onFileChange,
+  onGenerateSignal,
   isLoading,
   audioInfo,
   onMaskReset,
+  overlapAnalysis,
+  channelCount,
+  onProjectSave,
+  onProjectOpen,
 }) => {
+  const [embedAudio, setEmbedAudio] = useState(false);
+  // The hop as typed. Every hop change re-analyzes the file, so it is only
+  // applied on blur or Enter, not on each keystroke ("256" passes through 2).
+  const [hopDraft, setHopDraft] = useState<string | null>(null);
+
   const handleNfftChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const newNfft = parseInt(e.target.value, 10);
-    onParamsChange({ ...params, nfft: newNfft, hopLength: newNfft / 2 });
+    // Keep the current overlap ratio rather than the absolute hop.
+    const hopRatio = params.hopLength / params.nfft;
+    onParamsChange({
+      ...params,
+      nfft: newNfft,
+      hopLength: Math.max(1, Math.round(newNfft * hopRatio)),
+    });
+  };
+
+  const handleHopChange = (hopLength: number) => {
+    if (!Number.isFinite(hopLength)) return;
+    const clamped = Math.max(1, Math.min(params.nfft, Math.round(hopLength)));
+    if (clamped !== params.hopLength)
+      onParamsChange({ ...params, hopLength: clamped });
+  };
+
+  const commitHopDraft = () => {
+    if (hopDraft !== null) handleHopChange(parseInt(hopDraft, 10));
+    setHopDraft(null);
+  };
+
+  const overlapPercent = (1 - params.hopLength / params.nfft) * 100;
+
+  const handleWindowShapeChange = <K extends keyof WindowShapeParams>(
+    key: K,
+    value: WindowShapeParams[K],
+  ) => {
+    onParamsChange({
+      ...params,
+      windowShape: { ...params.windowShape, [key]: value },
+    });
   };
 
   const handleTransformSubParamChange = <
-    K extends keyof TransformParams,
+    K extends 'spectralEdit' | 'spectralGlitch' | 'audioGlitch',
     P extends keyof TransformParams[K],
   >(
     key: K,
@@ -91,6 +320,20 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({
     });
   };
 
+  const glitch = transformParams.audioGlitch.params;
+  const handleGlitchChange = (changes: Partial<GlitchParams>) =>
+    handleTransformSubParamChange('audioGlitch', 'params', {
+      ...glitch,
+      ...changes,
+    });
+
+  const spectralGlitch = transformParams.spectralGlitch.params;
+  const handleSpectralGlitchChange = (changes: Partial<SpectralGlitchParams>) =>
+    handleTransformSubParamChange('spectralGlitch', 'params', {
+      ...spectralGlitch,
+      ...changes,
+    });
+
   const nfftOptions = [256, 512, 1024, 2048, 4096, 8192];
   const isGenerativeMode =
     transformParams.spectralEdit.brush.brushMode === 'generative';
@@ -117,6 +360,42 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({
             disabled={isLoading}
           />
         </div>
+        <SignalGeneratorPanel
+          onGenerate={onGenerateSignal}
+          disabled={isLoading}
+        />
+        <div className="mt-3 grid grid-cols-2 gap-2">
+          <label
+            htmlFor="project-open"
+            className={`flex items-center justify-center px-3 py-2 text-sm font-medium rounded-md border ${isLoading ? 'text-slate-400 cursor-not-allowed' : 'text-slate-700 bg-white hover:bg-slate-50 cursor-pointer'}`}
+          >
+            Open Project
+          </label>
+          <input
+            id="project-open"
+            type="file"
+            className="sr-only"
+            accept={`.${PROJECT_FILE_EXTENSION},application/json`}
+            onChange={onProjectOpen}
+            disabled={isLoading}
+          />
+          <button
+            onClick={() => onProjectSave(embedAudio)}
+            disabled={!audioInfo || isLoading}
+            className="px-3 py-2 text-sm font-medium rounded-md border text-slate-700 bg-white hover:bg-slate-50 disabled:text-slate-400 disabled:cursor-not-allowed"
+          >
+            Save Project
+          </button>
+        </div>
+        <label className="mt-2 flex items-center gap-2 text-xs text-slate-600">
+          <input
+            type="checkbox"
+            checked={embedAudio}
+            onChange={(e) => setEmbedAudio(e.target.checked)}
+            className="rounded border-slate-300"
+          />
+          Embed audio in saved project
+        </label>
       </div>
 
       {audioInfo && (
@@ -133,6 +412,12 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({
             <span className="font-medium">Sample Rate:</span>{' '}
             {audioInfo.sr.toLocaleString()} Hz
           </p>
+          <p className="text-slate-600">
+            <span className="font-medium">Channels:</span>{' '}
+            {audioInfo.channels === 1 ? 'Mono' : audioInfo.channels}
+            {audioInfo.channels > channelCount &&
+              ` (first ${channelCount} analyzed)`}
+          </p>
         </div>
       )}
 
@@ -161,44 +446,185 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({
                 Changes trigger re-analysis.
               </p>
             </div>
-            <div className="bg-slate-100 p-3 rounded-md">
-              <p className="text-sm font-medium">
-                Hop Length:{' '}
-                <span className="text-lg font-mono text-blue-600">
-                  {params.hopLength}
+            <div>
+              <label htmlFor="window" className="block text-sm font-medium">
+                Window
+              </label>
+              <select
+                id="window"
+                value={params.window}
+                onChange={(e) =>
+                  onParamsChange({
+                    ...params,
+                    window: e.target.value as WindowFunction,
+                  })
+                }
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-slate-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              >
+                {(Object.keys(WINDOW_LABELS) as WindowFunction[]).map((w) => (
+                  <option key={w} value={w}>
+                    {WINDOW_LABELS[w]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center space-x-1 bg-slate-100 p-1 rounded-md">
+              {(['periodic', 'symmetric'] as const).map((symmetry) => (
+                <button
+                  key={symmetry}
+                  onClick={() =>
+                    onParamsChange({ ...params, windowSymmetry: symmetry })
+                  }
+                  className={`w-full px-2 py-1 text-xs font-medium rounded ${params.windowSymmetry === symmetry ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}
+                >
+                  {symmetry === 'periodic' ? 'Periodic' : 'Symmetric'}
+                </button>
+              ))}
+            </div>
+            {params.window === 'tukey' && (
+              <LabeledSlider
+                label="Taper Ratio (alpha)"
+                value={params.windowShape.tukeyAlpha}
+                min={0}
+                max={1}
+                step={0.05}
+                unit=""
+                precision={2}
+                onChange={(v) => handleWindowShapeChange('tukeyAlpha', v)}
+              />
+            )}
+            {params.window === 'gaussian' && (
+              <LabeledSlider
+                label="Width (sigma)"
+                value={params.windowShape.gaussianSigma}
+                min={0.1}
+                max={1}
+                step={0.05}
+                unit=""
+                precision={2}
+                description="Standard deviation relative to half the window length."
+                onChange={(v) => handleWindowShapeChange('gaussianSigma', v)}
+              />
+            )}
+            {params.window === 'kaiser' && (
+              <LabeledSlider
+                label="Shape (beta)"
+                value={params.windowShape.kaiserBeta}
+                min={0}
+                max={20}
+                step={0.1}
+                unit=""
+                precision={1}
+                onChange={(v) => handleWindowShapeChange('kaiserBeta', v)}
+              />
+            )}
+            <WindowPreview params={params} />
+            <div>
+              <label htmlFor="hopLength" className="block text-sm font-medium">
+                Hop Length (samples)
+              </label>
+              <input
+                id="hopLength"
+                type="number"
+                min={1}
+                max={params.nfft}
+                value={hopDraft ?? params.hopLength}
+                onChange={(e) => setHopDraft(e.target.value)}
+                onBlur={commitHopDraft}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitHopDraft();
+                  else if (e.key === 'Escape') setHopDraft(null);
+                }}
+                className="mt-1 block w-full pl-3 py-2 text-base border-slate-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md font-mono"
+              />
+            </div>
+            <LabeledSlider
+              label="Overlap"
+              value={overlapPercent}
+              min={0}
+              max={99}
+              step={0.5}
+              unit="%"
+              precision={1}
+              onChange={(v) => handleHopChange(params.nfft * (1 - v / 100))}
+            />
+            <div className="bg-slate-100 p-3 rounded-md space-y-2">
+              <div className="flex justify-between text-xs font-medium">
+                <span
+                  className={
+                    overlapAnalysis.isCola ? 'text-green-700' : 'text-slate-500'
+                  }
+                >
+                  COLA {overlapAnalysis.isCola ? 'met' : 'not met'}
                 </span>
-              </p>
+                <span
+                  className={
+                    overlapAnalysis.isNola ? 'text-green-700' : 'text-red-600'
+                  }
+                >
+                  NOLA {overlapAnalysis.isNola ? 'met' : 'violated'}
+                </span>
+              </div>
+              <OverlapEnvelopePlot analysis={overlapAnalysis} />
+            </div>
+            <LabeledSwitch
+              id="centerFrames"
+              label="Center Frames"
+              checked={params.center}
+              onChange={(center) => onParamsChange({ ...params, center })}
+            />
+            <div>
+              <label htmlFor="padMode" className="block text-sm font-medium">
+                Boundary Padding
+              </label>
+              <select
+                id="padMode"
+                value={params.padMode}
+                onChange={(e) =>
+                  onParamsChange({
+                    ...params,
+                    padMode: e.target.value as PadMode,
+                  })
+                }
+                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border-slate-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md"
+              >
+                <option value="zero">Zero</option>
+                <option value="reflect">Reflect</option>
+                <option value="constant">Constant</option>
+                <option value="edge">Edge</option>
+              </select>
               <p className="text-xs text-slate-500 mt-1">
-                Auto-set to 50% of FFT size for ideal reconstruction.
+                How the signal is extended past its ends so the first and last
+                samples get full window coverage.
               </p>
             </div>
+            {params.padMode === 'constant' && (
+              <LabeledSlider
+                label="Pad Value"
+                value={params.padValue}
+                min={-1}
+                max={1}
+                step={0.01}
+                unit=""
+                precision={2}
+                onChange={(padValue) => onParamsChange({ ...params, padValue })}
+              />
+            )}
           </ParameterControlGroup>
 
           <ParameterControlGroup title="Spectral Editor">
-            <div className="flex items-center justify-between bg-slate-50 p-3 rounded-md border">
-              <label
-                htmlFor="editMode"
-                className="text-sm font-medium text-slate-700"
-              >
-                Enable Edit Mode
-              </label>
-              <button
-                role="switch"
-                aria-checked={transformParams.spectralEdit.enabled}
-                onClick={() =>
-                  handleTransformSubParamChange(
-                    'spectralEdit',
-                    'enabled',
-                    !transformParams.spectralEdit.enabled,
-                  )
-                }
-                className={`${transformParams.spectralEdit.enabled ? 'bg-blue-600' : 'bg-slate-300'} relative inline-flex h-6 w-11 items-center rounded-full transition-colors`}
-              >
-                <span
-                  className={`${transformParams.spectralEdit.enabled ? 'translate-x-6' : 'translate-x-1'} inline-block h-4 w-4 transform rounded-full bg-white transition-transform`}
-                />
-              </button>
-            </div>
+            <LabeledSwitch
+              id="editMode"
+              label="Enable Edit Mode"
+              checked={transformParams.spectralEdit.enabled}
+              onChange={(checked) =>
+                handleTransformSubParamChange(
+                  'spectralEdit',
+                  'enabled',
+                  checked,
+                )
+              }
+            />
 
             <div className="flex items-center space-x-1 bg-slate-100 p-1 rounded-md">
               {(['subtractive', 'generative'] as const).map((mode) => (
@@ -213,11 +639,37 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({
                   }
                   className={`w-full px-2 py-1 text-xs font-medium rounded ${transformParams.spectralEdit.brush.brushMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}
                 >
-                  {mode === 'subtractive' ? 'Remove/Boost' : 'Generate Tone'}
+                  {mode === 'subtractive' ? 'Remove/Boost' : 'Generate'}
                 </button>
               ))}
             </div>
 
+            {isGenerativeMode && (
+              <div>
+                <div className="flex items-center space-x-1 bg-slate-100 p-1 rounded-md">
+                  {(['tone', 'noise'] as GenerativeMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() =>
+                        handleTransformSubParamChange('spectralEdit', 'brush', {
+                          ...transformParams.spectralEdit.brush,
+                          generativeMode: mode,
+                        })
+                      }
+                      className={`w-full px-2 py-1 text-xs font-medium rounded ${transformParams.spectralEdit.brush.generativeMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}
+                    >
+                      {mode === 'tone' ? 'Tone' : 'Noise Band'}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">
+                  {transformParams.spectralEdit.brush.generativeMode === 'tone'
+                    ? 'Painted lines become steady sine partials.'
+                    : 'Painted cells get random phase, like filtered noise.'}
+                </p>
+              </div>
+            )}
+
             <LabeledSlider
               label="Brush Size"
               value={transformParams.spectralEdit.brush.radius}
@@ -233,7 +685,7 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({
               }
             />
             <LabeledSlider
-              label={isGenerativeMode ? 'Tone Loudness' : 'Brush Gain'}
+              label={isGenerativeMode ? 'Loudness' : 'Brush Gain'}
               value={transformParams.spectralEdit.brush.gainDb}
               min={isGenerativeMode ? -60 : -60}
               max={isGenerativeMode ? 0 : 12}
@@ -247,6 +699,84 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({
               }
             />
 
+            <LabeledSwitch
+              id="harmonicBrush"
+              label="Harmonic Brush"
+              checked={transformParams.spectralEdit.brush.harmonic}
+              onChange={(checked) =>
+                handleTransformSubParamChange('spectralEdit', 'brush', {
+                  ...transformParams.spectralEdit.brush,
+                  harmonic: checked,
+                })
+              }
+            />
+            {transformParams.spectralEdit.brush.harmonic && (
+              <>
+                <LabeledSlider
+                  label="Harmonics"
+                  value={transformParams.spectralEdit.brush.harmonicCount}
+                  min={2}
+                  max={32}
+                  step={1}
+                  unit=""
+                  description="Partials painted, the fundamental included. Those above Nyquist are skipped."
+                  onChange={(v) =>
+                    handleTransformSubParamChange('spectralEdit', 'brush', {
+                      ...transformParams.spectralEdit.brush,
+                      harmonicCount: v,
+                    })
+                  }
+                />
+                <LabeledSlider
+                  label="Harmonic Rolloff"
+                  value={transformParams.spectralEdit.brush.harmonicRolloffDb}
+                  min={0}
+                  max={12}
+                  step={0.5}
+                  precision={1}
+                  unit=" dB"
+                  description="How much weaker each partial's edit is than the one below it."
+                  onChange={(v) =>
+                    handleTransformSubParamChange('spectralEdit', 'brush', {
+                      ...transformParams.spectralEdit.brush,
+                      harmonicRolloffDb: v,
+                    })
+                  }
+                />
+                <LabeledSlider
+                  label="Inharmonicity"
+                  value={transformParams.spectralEdit.brush.inharmonicity}
+                  min={0}
+                  max={0.01}
+                  step={0.0001}
+                  precision={4}
+                  unit=""
+                  description="Stretches the upper partials as on a stiff string; piano strings are around 0.0004."
+                  onChange={(v) =>
+                    handleTransformSubParamChange('spectralEdit', 'brush', {
+                      ...transformParams.spectralEdit.brush,
+                      inharmonicity: v,
+                    })
+                  }
+                />
+              </>
+            )}
+
+            {channelCount > 1 && (
+              <LabeledSwitch
+                id="linkChannels"
+                label="Link Channel Masks"
+                checked={transformParams.spectralEdit.linkChannels}
+                onChange={(checked) =>
+                  handleTransformSubParamChange(
+                    'spectralEdit',
+                    'linkChannels',
+                    checked,
+                  )
+                }
+              />
+            )}
+
             <button
               onClick={onMaskReset}
               className="w-full px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 border border-slate-200 rounded-md hover:bg-slate-200"
@@ -259,63 +789,225 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({
             </p>
           </ParameterControlGroup>
 
+          <ParameterControlGroup title="Spectral Glitch (Pre-Inversion)">
+            <LabeledSwitch
+              id="spectralGlitchMode"
+              label="Enable Spectral Glitches"
+              checked={transformParams.spectralGlitch.enabled}
+              onChange={(checked) =>
+                handleTransformSubParamChange(
+                  'spectralGlitch',
+                  'enabled',
+                  checked,
+                )
+              }
+            />
+            {transformParams.spectralGlitch.enabled && (
+              <div className="space-y-4">
+                {SPECTRAL_GLITCH_EFFECTS.map(
+                  ({ label, chanceKey, description, intensity }) => (
+                    <div key={chanceKey} className="space-y-2">
+                      <LabeledSlider
+                        label={`${label} Chance`}
+                        value={spectralGlitch[chanceKey] * 100}
+                        min={0}
+                        max={100}
+                        step={1}
+                        unit="%"
+                        description={description}
+                        onChange={(v) =>
+                          handleSpectralGlitchChange({ [chanceKey]: v / 100 })
+                        }
+                      />
+                      {spectralGlitch[chanceKey] > 0 && (
+                        <div className="pl-3 border-l-2 border-slate-200">
+                          <LabeledSlider
+                            label={intensity.label}
+                            value={spectralGlitch[intensity.key]}
+                            min={intensity.min}
+                            max={intensity.max}
+                            step={intensity.step}
+                            unit={intensity.unit}
+                            precision={intensity.precision}
+                            onChange={(v) =>
+                              handleSpectralGlitchChange({
+                                [intensity.key]: v,
+                              })
+                            }
+                          />
+                        </div>
+                      )}
+                    </div>
+                  ),
+                )}
+              </div>
+            )}
+          </ParameterControlGroup>
+
           <ParameterControlGroup title="Audio Glitch (Post-Processing)">
-            <div className="flex items-center justify-between bg-slate-50 p-3 rounded-md border">
-              <label
-                htmlFor="glitchMode"
-                className="text-sm font-medium text-slate-700"
-              >
-                Enable Glitches
-              </label>
-              <button
-                role="switch"
-                aria-checked={transformParams.audioGlitch.enabled}
-                onClick={() =>
-                  handleTransformSubParamChange(
-                    'audioGlitch',
-                    'enabled',
-                    !transformParams.audioGlitch.enabled,
-                  )
-                }
-                className={`${transformParams.audioGlitch.enabled ? 'bg-blue-600' : 'bg-slate-300'} relative inline-flex h-6 w-11 items-center rounded-full transition-colors`}
-              >
-                <span
-                  className={`${transformParams.audioGlitch.enabled ? 'translate-x-6' : 'translate-x-1'} inline-block h-4 w-4 transform rounded-full bg-white transition-transform`}
-                />
-              </button>
-            </div>
+            <LabeledSwitch
+              id="glitchMode"
+              label="Enable Glitches"
+              checked={transformParams.audioGlitch.enabled}
+              onChange={(checked) =>
+                handleTransformSubParamChange('audioGlitch', 'enabled', checked)
+              }
+            />
             {transformParams.audioGlitch.enabled && (
               <div className="space-y-4">
                 <LabeledSlider
-                  label="Stutter Chance"
-                  value={transformParams.audioGlitch.params.stutterChance * 100}
-                  min={0}
-                  max={100}
-                  step={1}
-                  unit="%"
-                  onChange={(v) =>
-                    handleTransformSubParamChange('audioGlitch', 'params', {
-                      ...transformParams.audioGlitch.params,
-                      stutterChance: v / 100,
-                    })
-                  }
+                  label="Chunk Size"
+                  value={glitch.chunkSize}
+                  min={64}
+                  max={8192}
+                  step={64}
+                  unit=" samples"
+                  description="Glitches are rolled for, and start on, each chunk."
+                  onChange={(v) => handleGlitchChange({ chunkSize: v })}
                 />
-                <LabeledSlider
-                  label="Drop Chance"
-                  value={transformParams.audioGlitch.params.dropChance * 100}
+                {GLITCH_EFFECTS.map(({ type, chanceKey, description }) => (
+                  <div key={type} className="space-y-2">
+                    <LabeledSlider
+                      label={`${GLITCH_LABELS[type]} Chance`}
+                      value={glitch[chanceKey] * 100}
+                      min={0}
+                      max={100}
+                      step={1}
+                      unit="%"
+                      description={description}
+                      onChange={(v) =>
+                        handleGlitchChange({ [chanceKey]: v / 100 })
+                      }
+                    />
+                    {glitch[chanceKey] > 0 && (
+                      <div className="pl-3 border-l-2 border-slate-200 space-y-2">
+                        {type === 'stutter' && (
+                          <LabeledSlider
+                            label="Stutter Length"
+                            value={glitch.stutterDuration}
+                            min={5}
+                            max={500}
+                            step={5}
+                            unit=" ms"
+                            onChange={(v) =>
+                              handleGlitchChange({ stutterDuration: v })
+                            }
+                          />
+                        )}
+                        {type === 'clip' && (
+                          <LabeledSlider
+                            label="Clip Threshold"
+                            value={glitch.clipThreshold}
+                            min={0.01}
+                            max={1}
+                            step={0.01}
+                            unit=""
+                            precision={2}
+                            onChange={(v) =>
+                              handleGlitchChange({ clipThreshold: v })
+                            }
+                          />
+                        )}
+                        {type === 'jitter' && (
+                          <LabeledSlider
+                            label="Max Shift"
+                            value={glitch.jitterAmount}
+                            min={1}
+                            max={100}
+                            step={1}
+                            unit=" ms"
+                            onChange={(v) =>
+                              handleGlitchChange({ jitterAmount: v })
+                            }
+                          />
+                        )}
+                        {type === 'bitcrush' && (
+                          <>
+                            <LabeledSlider
+                              label="Bit Depth"
+                              value={glitch.bitDepth}
+                              min={1}
+                              max={16}
+                              step={1}
+                              unit=" bits"
+                              onChange={(v) =>
+                                handleGlitchChange({ bitDepth: v })
+                              }
+                            />
+                            <LabeledSlider
+                              label="Rate Reduction"
+                              value={glitch.downsampleFactor}
+                              min={1}
+                              max={32}
+                              step={1}
+                              unit="x"
+                              onChange={(v) =>
+                                handleGlitchChange({ downsampleFactor: v })
+                              }
+                            />
+                          </>
+                        )}
+                        {type === 'tapeStop' && (
+                          <LabeledSlider
+                            label="Stop Time"
+                            value={glitch.tapeStopDuration}
+                            min={20}
+                            max={2000}
+                            step={10}
+                            unit=" ms"
+                            onChange={(v) =>
+                              handleGlitchChange({ tapeStopDuration: v })
+                            }
+                          />
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </ParameterControlGroup>
+
+          <ParameterControlGroup title="Randomness">
+            <div>
+              <label htmlFor="seed" className="block text-sm font-medium">
+                Seed
+              </label>
+              <div className="mt-1 flex gap-2">
+                <input
+                  id="seed"
+                  type="number"
                   min={0}
-                  max={100}
+                  max={0xffffffff}
                   step={1}
-                  unit="%"
-                  onChange={(v) =>
-                    handleTransformSubParamChange('audioGlitch', 'params', {
-                      ...transformParams.audioGlitch.params,
-                      dropChance: v / 100,
+                  value={transformParams.seed}
+                  onChange={(e) => {
+                    const seed = parseInt(e.target.value, 10);
+                    if (Number.isFinite(seed))
+                      onTransformChange({
+                        ...transformParams,
+                        seed: seed >>> 0,
+                      });
+                  }}
+                  className="block w-full pl-3 py-2 text-base border-slate-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm rounded-md font-mono"
+                />
+                <button
+                  onClick={() =>
+                    onTransformChange({
+                      ...transformParams,
+                      seed: randomSeed(),
                     })
                   }
-                />
+                  className="px-3 py-2 text-sm font-medium rounded-md border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 whitespace-nowrap"
+                >
+                  New Seed
+                </button>
               </div>
-            )}
+              <p className="text-xs text-slate-500 mt-1">
+                Glitches and generated noise are drawn from this seed, so the
+                same settings always render identical audio.
+              </p>
+            </div>
           </ParameterControlGroup>
         </fieldset>
       </div>
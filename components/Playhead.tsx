@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+
+import { TimeRange } from '../services/waveform';
+
+interface PlayheadProps {
+  getTime: () => number | null; // Playback position in seconds, null to hide
+  range: TimeRange; // Seconds spanned by the plot area
+  // Element inside the (positioned) parent that marks the plot area; the
+  // whole parent when omitted.
+  plotSelector?: string;
+}
+
+// A vertical line over the parent that follows playback. It is moved straight
+// on the DOM every animation frame, so the plot underneath never re-renders.
+const Playhead: React.FC<PlayheadProps> = ({
+  getTime,
+  range,
+  plotSelector,
+}) => {
+  const lineRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    let handle = 0;
+    const update = () => {
+      handle = requestAnimationFrame(update);
+      const line = lineRef.current;
+      const parent = line?.parentElement;
+      if (!line || !parent) return;
+      const time = getTime();
+      const span = range.end - range.start;
+      if (
+        time === null ||
+        span <= 0 ||
+        time < range.start ||
+        time > range.end
+      ) {
+        line.style.display = 'none';
+        return;
+      }
+      const parentRect = parent.getBoundingClientRect();
+      const plot = plotSelector ? parent.querySelector(plotSelector) : null;
+      const plotRect = plot?.getBoundingClientRect() ?? parentRect;
+      const x =
+        plotRect.left -
+        parentRect.left +
+        ((time - range.start) / span) * plotRect.width;
+      line.style.display = '';
+      line.style.left = `${x}px`;
+      line.style.top = `${plotRect.top - parentRect.top}px`;
+      line.style.height = `${plotRect.height}px`;
+    };
+    update();
+    return () => cancelAnimationFrame(handle);
+  }, [getTime, range, plotSelector]);
+
+  return (
+    <div
+      ref={lineRef}
+      className="absolute w-0.5 -ml-px bg-emerald-500 pointer-events-none"
+      style={{ display: 'none' }}
+    />
+  );
+};
+
+export default Playhead;
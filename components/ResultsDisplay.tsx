@@ -1,33 +1,155 @@
-import React from 'react';
-import { StftParams, TransformParams } from '../types';
+import React, { useState } from 'react';
+import { ChannelMetrics, StftParams, TransformParams } from '../types';
+import { OverlapAnalysis } from '../services/overlapAnalysis';
+import { getChannelViewLabel } from '../services/channels';
+import { METRIC_INFO, MetricKey } from '../services/metrics';
 
 interface ResultsDisplayProps {
   error: number;
+  channelMetrics: ChannelMetrics[];
+  channelCount: number;
   params: StftParams;
+  overlapAnalysis: OverlapAnalysis;
   snr: number | null;
   transformParams: TransformParams;
   isResynthesizing: boolean;
+  progress: number | null;
 }
 
+const formatMetric = (key: MetricKey, value: number) => {
+  if (!isFinite(value)) return value > 0 ? 'Perfect' : '-Inf';
+  const { unit } = METRIC_INFO[key];
+  switch (key) {
+    case 'maxError':
+    case 'spectralConvergence':
+      return value.toExponential(2);
+    case 'correlation':
+      return value.toFixed(6);
+    case 'peakDiffDb':
+    case 'rmsDiffDb':
+      return `${value >= 0 ? '+' : ''}${value.toFixed(3)} ${unit}`;
+    default:
+      return `${value.toFixed(2)} ${unit}`;
+  }
+};
+
+// Column the metrics table is sorted by: the metric name, a channel's value,
+// or null for the default order.
+type MetricSort = { column: 'metric' | number; ascending: boolean } | null;
+
+const MetricsTable: React.FC<{
+  channelMetrics: ChannelMetrics[];
+  channelCount: number;
+}> = ({ channelMetrics, channelCount }) => {
+  const [sort, setSort] = useState<MetricSort>(null);
+
+  const keys = Object.keys(METRIC_INFO) as MetricKey[];
+  if (sort) {
+    const { column, ascending } = sort;
+    keys.sort((a, b) => {
+      const order =
+        column === 'metric'
+          ? METRIC_INFO[a].label.localeCompare(METRIC_INFO[b].label)
+          : channelMetrics[column][a] - channelMetrics[column][b] || 0;
+      return ascending ? order : -order;
+    });
+  }
+
+  // Cycles a column through ascending, descending and unsorted.
+  const toggleSort = (column: 'metric' | number) =>
+    setSort((s) =>
+      s?.column !== column
+        ? { column, ascending: true }
+        : s.ascending
+          ? { column, ascending: false }
+          : null,
+    );
+  const sortIndicator = (column: 'metric' | number) =>
+    sort?.column === column ? (sort.ascending ? ' \u25b2' : ' \u25bc') : '';
+
+  const headerClasses =
+    'px-2 py-1 font-medium text-slate-600 cursor-pointer select-none hover:text-slate-900';
+
+  return (
+    <table className="mt-3 w-full text-xs font-mono border-collapse">
+      <thead>
+        <tr className="border-b border-slate-300">
+          <th
+            className={`${headerClasses} text-left`}
+            onClick={() => toggleSort('metric')}
+          >
+            Metric{sortIndicator('metric')}
+          </th>
+          {channelMetrics.map((m, c) => (
+            <th
+              key={m.view}
+              className={`${headerClasses} text-right`}
+              onClick={() => toggleSort(c)}
+            >
+              {channelCount > 1
+                ? getChannelViewLabel(m.view, channelCount)
+                : 'Value'}
+              {sortIndicator(c)}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {keys.map((key) => {
+          const info = METRIC_INFO[key];
+          return (
+            <tr key={key} className="border-b border-slate-200 last:border-0">
+              <td className="px-2 py-1 text-slate-600">
+                <span
+                  className="underline decoration-dotted cursor-help"
+                  title={`${info.description} ${info.higherIsBetter ? 'Higher' : 'Closer to zero'} is better.`}
+                >
+                  {info.label}
+                </span>
+              </td>
+              {channelMetrics.map((m) => (
+                <td
+                  key={m.view}
+                  className="px-2 py-1 text-right font-bold text-slate-800"
+                >
+                  {formatMetric(key, m[key])}
+                </td>
+              ))}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
 const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   error,
+  channelMetrics,
+  channelCount,
   params,
+  overlapAnalysis,
   snr,
   transformParams,
   isResynthesizing,
+  progress,
 }) => {
   const isLossless =
     !transformParams.spectralEdit.enabled &&
+    !transformParams.spectralGlitch.enabled &&
     !transformParams.audioGlitch.enabled;
-  const isSuccess = isLossless && error < 1e-5;
-  const { window, hopLength, nfft } = params;
+  const { isCola, isNola, colaRippleDb, expectedError } = overlapAnalysis;
+  const isSuccess = isLossless && isNola && error < 1e-5;
+  const overlapPercent = (1 - params.hopLength / params.nfft) * 100;
+  const framing = `${params.window} window, n_fft ${params.nfft}, hop ${params.hopLength} (${overlapPercent.toFixed(1)}% overlap)`;
 
   let title: string;
   let message: string;
-  let icon: JSX.Element;
+  let icon: React.JSX.Element;
 
   const activeTransforms = [
     transformParams.spectralEdit.enabled && 'Spectral Edits',
+    transformParams.spectralGlitch.enabled && 'Spectral Glitch',
     transformParams.audioGlitch.enabled && 'Audio Glitch',
   ]
     .filter(Boolean)
@@ -36,8 +158,9 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   if (isLossless) {
     if (isSuccess) {
       title = 'Reconstruction Successful';
-      message =
-        'The chosen parameters satisfy COLA conditions, demonstrating a high-fidelity reconstruction.';
+      message = isCola
+        ? `The ${framing} satisfies COLA and NOLA, so overlap-add reconstructs the signal exactly.`
+        : `The ${framing} is not COLA (${colaRippleDb.toFixed(2)} dB envelope ripple), but NOLA holds, so window-sum normalization still reconstructs the signal exactly.`;
       icon = (
         <svg
           xmlns="http://www.w3.org/2000/svg"
@@ -55,9 +178,10 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
         </svg>
       );
     } else {
-      title = 'High Reconstruction Error';
-      message =
-        'COLA conditions are met, but error is high. This might be due to numerical precision limits.';
+      title = isNola ? 'High Reconstruction Error' : 'NOLA Condition Violated';
+      message = isNola
+        ? `NOLA holds for the ${framing}, so the expected error is about ${expectedError.toExponential(1)}, but the measured error is higher. Boundary frames or numerical precision limits are the likely cause.`
+        : `With the ${framing}, some samples receive zero total window weight and cannot be recovered. Shorten the hop or choose a window that is nonzero at its ends.`;
       icon = (
         <svg
           xmlns="http://www.w3.org/2000/svg"
@@ -112,6 +236,14 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
               {error.toExponential(2)}
             </span>
           </p>
+          <p className="text-sm text-slate-600 font-mono">
+            Expected:{' '}
+            <span className="font-bold text-slate-800">
+              {isFinite(expectedError)
+                ? expectedError.toExponential(2)
+                : 'Unrecoverable'}
+            </span>
+          </p>
           {snr !== null && (
             <p className="text-sm text-slate-600 font-mono">
               SNR:{' '}
@@ -144,11 +276,20 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                   d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                 ></path>
               </svg>
-              <span>Resynthesizing...</span>
+              <span>
+                Resynthesizing...
+                {progress !== null && ` ${Math.round(progress * 100)}%`}
+              </span>
             </div>
           )}
         </div>
         <p className="text-slate-600 mt-1 text-sm">{message}</p>
+        {channelMetrics.length > 0 && (
+          <MetricsTable
+            channelMetrics={channelMetrics}
+            channelCount={channelCount}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+
+import { SignalGeneratorParams, SignalType } from '../types';
+import { DEFAULT_SIGNAL_GENERATOR_PARAMS } from '../constants';
+import { SIGNAL_LABELS, SIGNAL_SETTINGS } from '../services/signalGenerator';
+
+interface SignalGeneratorPanelProps {
+  onGenerate: (params: SignalGeneratorParams) => void;
+  disabled: boolean;
+}
+
+const SAMPLE_RATES = [8000, 16000, 22050, 32000, 44100, 48000, 96000];
+
+const inputClasses =
+  'mt-1 block w-full pl-3 py-1.5 text-sm border-slate-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md font-mono';
+
+const NumberField: React.FC<{
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}> = ({ id, label, value, min, max, step, onChange }) => (
+  <div>
+    <label htmlFor={id} className="block text-xs font-medium text-slate-600">
+      {label}
+    </label>
+    <input
+      id={id}
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => {
+        const v = parseFloat(e.target.value);
+        if (Number.isFinite(v)) onChange(Math.min(max, Math.max(min, v)));
+      }}
+      className={inputClasses}
+    />
+  </div>
+);
+
+// Builds synthetic test signals that go through the same analysis as an
+// uploaded file.
+const SignalGeneratorPanel: React.FC<SignalGeneratorPanelProps> = ({
+  onGenerate,
+  disabled,
+}) => {
+  const [params, setParams] = useState(DEFAULT_SIGNAL_GENERATOR_PARAMS);
+  const [frequenciesText, setFrequenciesText] = useState(
+    DEFAULT_SIGNAL_GENERATOR_PARAMS.frequencies.join(', '),
+  );
+  const update = (changes: Partial<SignalGeneratorParams>) =>
+    setParams((p) => ({ ...p, ...changes }));
+
+  const settings = SIGNAL_SETTINGS[params.type];
+  const nyquist = params.sampleRate / 2;
+  const isChirp = settings.includes('endFrequency');
+  const isAm = params.type === 'am';
+
+  return (
+    <details className="mt-3 bg-slate-50 rounded-md border">
+      <summary className="px-3 py-2 text-sm font-medium text-slate-700 cursor-pointer select-none">
+        Or generate a test signal
+      </summary>
+      <div className="px-3 pb-3 space-y-3">
+        <div>
+          <label
+            htmlFor="signalType"
+            className="block text-xs font-medium text-slate-600"
+          >
+            Signal
+          </label>
+          <select
+            id="signalType"
+            value={params.type}
+            onChange={(e) => update({ type: e.target.value as SignalType })}
+            className={inputClasses}
+          >
+            {(Object.keys(SIGNAL_LABELS) as SignalType[]).map((type) => (
+              <option key={type} value={type}>
+                {SIGNAL_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <NumberField
+            id="signalDuration"
+            label="Duration (s)"
+            value={params.duration}
+            min={0.05}
+            max={60}
+            step={0.1}
+            onChange={(duration) => update({ duration })}
+          />
+          <div>
+            <label
+              htmlFor="signalRate"
+              className="block text-xs font-medium text-slate-600"
+            >
+              Rate (Hz)
+            </label>
+            <select
+              id="signalRate"
+              value={params.sampleRate}
+              onChange={(e) =>
+                update({ sampleRate: parseInt(e.target.value, 10) })
+              }
+              className={inputClasses}
+            >
+              {SAMPLE_RATES.map((sr) => (
+                <option key={sr} value={sr}>
+                  {sr}
+                </option>
+              ))}
+            </select>
+          </div>
+          <NumberField
+            id="signalLevel"
+            label="Peak (dBFS)"
+            value={params.amplitudeDb}
+            min={-96}
+            max={0}
+            step={1}
+            onChange={(amplitudeDb) => update({ amplitudeDb })}
+          />
+        </div>
+        {settings.includes('frequency') && (
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              id="signalFrequency"
+              label={
+                isChirp
+                  ? 'Start (Hz)'
+                  : params.type === 'impulseTrain'
+                    ? 'Rate (Hz)'
+                    : settings.includes('modulation')
+                      ? 'Carrier (Hz)'
+                      : 'Frequency (Hz)'
+              }
+              value={params.frequency}
+              min={1}
+              max={nyquist}
+              step={1}
+              onChange={(frequency) => update({ frequency })}
+            />
+            {isChirp && (
+              <NumberField
+                id="signalEndFrequency"
+                label="End (Hz)"
+                value={params.endFrequency}
+                min={1}
+                max={nyquist}
+                step={1}
+                onChange={(endFrequency) => update({ endFrequency })}
+              />
+            )}
+          </div>
+        )}
+        {settings.includes('frequencies') && (
+          <div>
+            <label
+              htmlFor="signalFrequencies"
+              className="block text-xs font-medium text-slate-600"
+            >
+              Frequencies (Hz, comma-separated)
+            </label>
+            <input
+              id="signalFrequencies"
+              type="text"
+              value={frequenciesText}
+              onChange={(e) => {
+                setFrequenciesText(e.target.value);
+                update({
+                  frequencies: e.target.value
+                    .split(/[,\s]+/)
+                    .map(Number)
+                    .filter((f) => Number.isFinite(f) && f > 0),
+                });
+              }}
+              className={inputClasses}
+            />
+          </div>
+        )}
+        {settings.includes('modulation') && (
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField
+              id="signalModFrequency"
+              label="Mod rate (Hz)"
+              value={params.modFrequency}
+              min={0.01}
+              max={nyquist}
+              step={0.5}
+              onChange={(modFrequency) => update({ modFrequency })}
+            />
+            {isAm ? (
+              <NumberField
+                id="signalModDepth"
+                label="Depth (0-1)"
+                value={params.modDepth}
+                min={0}
+                max={1}
+                step={0.05}
+                onChange={(modDepth) => update({ modDepth })}
+              />
+            ) : (
+              <NumberField
+                id="signalModIndex"
+                label="Index (rad)"
+                value={params.modIndex}
+                min={0}
+                max={1000}
+                step={0.5}
+                onChange={(modIndex) => update({ modIndex })}
+              />
+            )}
+          </div>
+        )}
+        <button
+          onClick={() => onGenerate(params)}
+          disabled={
+            disabled ||
+            (settings.includes('frequencies') &&
+              params.frequencies.length === 0)
+          }
+          className="w-full px-3 py-2 text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+        >
+          Generate Signal
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default SignalGeneratorPanel;
@@ -1,87 +1,551 @@
-import React from 'react';
+import React, {
+  MouseEvent,
+  PointerEvent,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceLine,
   ResponsiveContainer,
 } from 'recharts';
-import { SignalPoint } from '../types';
+
+import {
+  TimeRange,
+  clampRange,
+  decimateMinMax,
+  zoomRange,
+} from '../services/waveform';
+
+import Playhead from './Playhead';
 
 interface SignalPlotProps {
-  originalData: SignalPoint[];
-  reconstructedData: SignalPoint[];
+  original: Float32Array;
+  reconstructed: Float32Array; // Empty until the first resynthesis
+  sampleRate: number;
+  range: TimeRange; // The detail view, shared with the spectrogram
+  onRangeChange: (range: TimeRange) => void;
+  markerTime: number | null;
+  loopRegion: TimeRange | null; // Shaded on the overview
+  playheadTime: () => number | null; // Playback position, polled every frame
+  onSeek: (time: number) => void;
 }
 
-const SignalPlot: React.FC<SignalPlotProps> = ({
-  originalData,
-  reconstructedData,
+// Points per trace in the detail view and the overview.
+const DETAIL_BUCKETS = 800;
+const OVERVIEW_WIDTH = 600;
+const OVERVIEW_HEIGHT = 48;
+// Narrowest zoom, in samples.
+const MIN_VIEW_SAMPLES = 32;
+const ZOOM_STEP = 1.5;
+
+const COLORS = {
+  original: '#3b82f6',
+  reconstructed: '#ef4444',
+  residual: '#16a34a',
+};
+
+const envelopePath = (signal: Float32Array, sampleRate: number) => {
+  const duration = signal.length / sampleRate;
+  const { buckets } = decimateMinMax(
+    signal,
+    sampleRate,
+    { start: 0, end: duration },
+    OVERVIEW_WIDTH,
+  );
+  if (buckets.length === 0) return '';
+  const x = (t: number) => ((t / duration) * OVERVIEW_WIDTH).toFixed(1);
+  const y = (v: number) =>
+    (
+      OVERVIEW_HEIGHT / 2 -
+      Math.max(-1, Math.min(1, v)) * (OVERVIEW_HEIGHT / 2)
+    ).toFixed(1);
+  const upper = buckets.map((b) => `${x(b.time)},${y(b.max)}`);
+  const lower = buckets.map((b) => `${x(b.time)},${y(b.min)}`).reverse();
+  return `M${upper.join('L')}L${lower.join('L')}Z`;
+};
+
+// The whole file as min/max envelopes, with the detail range drawn over it.
+// Drag the range to pan, drag elsewhere to select a new range, or click to
+// center the current range there.
+const WaveformOverview: React.FC<{
+  original: Float32Array;
+  reconstructed: Float32Array;
+  sampleRate: number;
+  range: TimeRange;
+  onRangeChange: (range: TimeRange) => void;
+  markerTime: number | null;
+  loopRegion: TimeRange | null;
+  playheadTime: () => number | null;
+}> = ({
+  original,
+  reconstructed,
+  sampleRate,
+  range,
+  onRangeChange,
+  markerTime,
+  loopRegion,
+  playheadTime,
 }) => {
-  // Combine data for plotting on the same chart
-  const combinedData = originalData.map((point, index) => ({
-    time: point.time,
-    original: point.amplitude,
-    reconstructed: reconstructedData[index]
-      ? reconstructedData[index].amplitude
-      : null,
-  }));
-
-  // Zoom in to the first 50ms to see the waveform details, similar to the python script
-  const zoomedData = combinedData.filter((p) => p.time <= 0.05);
+  const duration = original.length / sampleRate;
+  const minWidth = Math.min(duration, MIN_VIEW_SAMPLES / sampleRate);
+  const fileRange = useMemo(() => ({ start: 0, end: duration }), [duration]);
+  const dragRef = useRef<
+    | { mode: 'move'; offset: number }
+    | { mode: 'select'; anchor: number; moved: boolean }
+    | null
+  >(null);
+
+  const originalPath = useMemo(
+    () => envelopePath(original, sampleRate),
+    [original, sampleRate],
+  );
+  const reconstructedPath = useMemo(
+    () => envelopePath(reconstructed, sampleRate),
+    [reconstructed, sampleRate],
+  );
+
+  const toTime = (e: PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return (
+      Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration
+    );
+  };
+  const toX = (t: number) => (t / Math.max(duration, 1e-9)) * OVERVIEW_WIDTH;
+
+  const handlePointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const t = toTime(e);
+    dragRef.current =
+      t >= range.start && t <= range.end
+        ? { mode: 'move', offset: t - range.start }
+        : { mode: 'select', anchor: t, moved: false };
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const t = toTime(e);
+    if (drag.mode === 'move') {
+      const width = range.end - range.start;
+      onRangeChange(
+        clampRange(
+          { start: t - drag.offset, end: t - drag.offset + width },
+          duration,
+        ),
+      );
+    } else {
+      drag.moved = true;
+      onRangeChange(
+        clampRange(
+          { start: Math.min(drag.anchor, t), end: Math.max(drag.anchor, t) },
+          duration,
+          minWidth,
+        ),
+      );
+    }
+  };
+
+  const handlePointerUp = (e: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId))
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    if (drag?.mode === 'select' && !drag.moved) {
+      const half = (range.end - range.start) / 2;
+      onRangeChange(
+        clampRange(
+          { start: drag.anchor - half, end: drag.anchor + half },
+          duration,
+        ),
+      );
+    }
+  };
 
   return (
-    <div className="w-full h-80 bg-slate-50 p-2 rounded-lg border">
-      <ResponsiveContainer>
-        <LineChart
-          data={zoomedData}
-          margin={{
-            top: 5,
-            right: 30,
-            left: 0,
-            bottom: 5,
-          }}
-        >
-          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-          <XAxis
-            dataKey="time"
-            type="number"
-            domain={[0, 0.05]}
-            tickFormatter={(tick) => tick.toFixed(3)}
-            label={{ value: 'Time (s)', position: 'insideBottom', offset: -5 }}
-            stroke="#64748b"
-          />
-          <YAxis
-            domain={[-1.6, 1.6]}
-            label={{ value: 'Amplitude', angle: -90, position: 'insideLeft' }}
-            stroke="#64748b"
+    <div className="relative">
+      <svg
+        viewBox={`0 0 ${OVERVIEW_WIDTH} ${OVERVIEW_HEIGHT}`}
+        className="w-full h-12 bg-white rounded border cursor-pointer select-none touch-none"
+        preserveAspectRatio="none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        aria-label="Whole-file overview"
+      >
+        <path d={originalPath} fill={COLORS.original} fillOpacity={0.5} />
+        <path
+          d={reconstructedPath}
+          fill={COLORS.reconstructed}
+          fillOpacity={0.35}
+        />
+        {loopRegion && (
+          <rect
+            x={toX(loopRegion.start)}
+            y={0}
+            width={Math.max(1, toX(loopRegion.end) - toX(loopRegion.start))}
+            height={OVERVIEW_HEIGHT}
+            fill="#10b981"
+            fillOpacity={0.2}
           />
-          <Tooltip
-            formatter={(value: number) => value.toFixed(4)}
-            labelFormatter={(label: number) => `Time: ${label.toFixed(4)}s`}
+        )}
+        <rect
+          x={toX(range.start)}
+          y={0}
+          width={Math.max(1, toX(range.end) - toX(range.start))}
+          height={OVERVIEW_HEIGHT}
+          fill="#2563eb"
+          fillOpacity={0.12}
+          stroke="#2563eb"
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+        {markerTime !== null && (
+          <line
+            x1={toX(markerTime)}
+            x2={toX(markerTime)}
+            y1={0}
+            y2={OVERVIEW_HEIGHT}
+            stroke="#0f172a"
+            strokeDasharray="3 2"
+            vectorEffect="non-scaling-stroke"
           />
-          <Legend verticalAlign="top" height={36} />
-          <Line
-            type="monotone"
-            dataKey="original"
-            name="Original Signal"
-            stroke="#3b82f6"
-            dot={false}
-            strokeWidth={2}
-          />
-          <Line
-            type="monotone"
-            dataKey="reconstructed"
-            name="Reconstructed Signal"
-            stroke="#ef4444"
-            strokeDasharray="3 3"
-            dot={false}
-            strokeWidth={2}
+        )}
+      </svg>
+      <Playhead getTime={playheadTime} range={fileRange} />
+    </div>
+  );
+};
+
+// Symmetric axis limit covering every bucket, with a little headroom.
+const peakOf = (...traces: { min: number; max: number }[][]) => {
+  let peak = 0;
+  for (const trace of traces)
+    for (const { min, max } of trace)
+      peak = Math.max(peak, Math.abs(min), Math.abs(max));
+  return peak > 0 ? peak * 1.1 : 1;
+};
+
+const SignalPlot: React.FC<SignalPlotProps> = ({
+  original,
+  reconstructed,
+  sampleRate,
+  range,
+  onRangeChange,
+  markerTime,
+  loopRegion,
+  playheadTime,
+  onSeek,
+}) => {
+  const [showResidual, setShowResidual] = useState(false);
+  const chartRef = useRef<HTMLDivElement | null>(null);
+  const duration = original.length / sampleRate;
+  const minWidth = Math.min(duration, MIN_VIEW_SAMPLES / sampleRate);
+  const hasReconstruction = reconstructed.length === original.length;
+
+  const residual = useMemo(() => {
+    if (!showResidual || !hasReconstruction) return null;
+    const diff = new Float32Array(original.length);
+    for (let i = 0; i < diff.length; i++)
+      diff[i] = reconstructed[i] - original[i];
+    return diff;
+  }, [showResidual, hasReconstruction, original, reconstructed]);
+
+  const { data, isExact, amplitudePeak, residualPeak } = useMemo(() => {
+    const orig = decimateMinMax(original, sampleRate, range, DETAIL_BUCKETS);
+    const recon = hasReconstruction
+      ? decimateMinMax(reconstructed, sampleRate, range, DETAIL_BUCKETS).buckets
+      : [];
+    const res = residual
+      ? decimateMinMax(residual, sampleRate, range, DETAIL_BUCKETS).buckets
+      : [];
+    // Exact views plot sample values; decimated views plot min/max bands.
+    const value = (b?: { min: number; max: number }) =>
+      b === undefined
+        ? undefined
+        : orig.isExact
+          ? b.min
+          : ([b.min, b.max] as [number, number]);
+    return {
+      data: orig.buckets.map((b, i) => ({
+        time: b.time,
+        original: value(b),
+        reconstructed: value(recon[i]),
+        residual: value(res[i]),
+      })),
+      isExact: orig.isExact,
+      amplitudePeak: peakOf(orig.buckets, recon),
+      residualPeak: peakOf(res),
+    };
+  }, [original, reconstructed, residual, hasReconstruction, sampleRate, range]);
+
+  // Wheel zooms about the cursor; shift+wheel (or a horizontal swipe) pans.
+  // React's wheel listener is passive, so this one is attached by hand.
+  useEffect(() => {
+    const element = chartRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const plot = element.querySelector('.recharts-cartesian-grid') ?? element;
+      const rect = plot.getBoundingClientRect();
+      const fraction = Math.max(
+        0,
+        Math.min(1, (e.clientX - rect.left) / rect.width),
+      );
+      const width = range.end - range.start;
+      const isPan = e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY);
+      if (isPan) {
+        const pan = e.shiftKey ? e.deltaY || e.deltaX : e.deltaX;
+        const shift = (pan / rect.width) * width;
+        onRangeChange(
+          clampRange(
+            { start: range.start + shift, end: range.end + shift },
+            duration,
+          ),
+        );
+      } else if (e.deltaY !== 0) {
+        onRangeChange(
+          zoomRange(
+            range,
+            e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP,
+            range.start + fraction * width,
+            duration,
+            minWidth,
+          ),
+        );
+      }
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [range, duration, minWidth, onRangeChange]);
+
+  // A click on the plot moves playback (and the focus) there.
+  const handleChartClick = (e: MouseEvent<HTMLDivElement>) => {
+    const plot = e.currentTarget.querySelector('.recharts-cartesian-grid');
+    if (!plot) return;
+    const rect = plot.getBoundingClientRect();
+    if (e.clientX < rect.left || e.clientX > rect.right) return;
+    onSeek(
+      range.start +
+        ((e.clientX - rect.left) / rect.width) * (range.end - range.start),
+    );
+  };
+
+  const zoomBy = (factor: number) =>
+    onRangeChange(
+      zoomRange(
+        range,
+        factor,
+        markerTime !== null &&
+          markerTime >= range.start &&
+          markerTime <= range.end
+          ? markerTime
+          : (range.start + range.end) / 2,
+        duration,
+        minWidth,
+      ),
+    );
+
+  // Enough decimals to tell neighbouring ticks apart at this zoom.
+  const width = range.end - range.start;
+  const decimals = Math.min(6, Math.max(0, Math.ceil(-Math.log10(width)) + 2));
+  const formatTime = (t: number) => t.toFixed(decimals);
+
+  const buttonClasses =
+    'px-2 py-1 text-xs font-medium rounded border border-slate-300 bg-white text-slate-700 hover:bg-slate-100';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+        <button className={buttonClasses} onClick={() => zoomBy(1 / ZOOM_STEP)}>
+          Zoom In
+        </button>
+        <button className={buttonClasses} onClick={() => zoomBy(ZOOM_STEP)}>
+          Zoom Out
+        </button>
+        <button
+          className={buttonClasses}
+          onClick={() => onRangeChange({ start: 0, end: duration })}
+        >
+          Fit
+        </button>
+        <span className="font-mono">
+          {formatTime(range.start)}–{formatTime(range.end)} s
+        </span>
+        <label className="flex items-center gap-1 ml-auto">
+          <input
+            type="checkbox"
+            checked={showResidual}
+            disabled={!hasReconstruction}
+            onChange={(e) => setShowResidual(e.target.checked)}
           />
-        </LineChart>
-      </ResponsiveContainer>
+          Show residual
+        </label>
+      </div>
+      <div
+        ref={chartRef}
+        className="relative w-full h-80 bg-slate-50 p-2 rounded-lg border cursor-text"
+        onClick={handleChartClick}
+      >
+        <ResponsiveContainer>
+          <ComposedChart
+            data={data}
+            margin={{ top: 5, right: residual ? 10 : 30, left: 0, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={[range.start, range.end]}
+              allowDataOverflow
+              tickFormatter={formatTime}
+              label={{
+                value: 'Time (s)',
+                position: 'insideBottom',
+                offset: -5,
+              }}
+              stroke="#64748b"
+            />
+            <YAxis
+              yAxisId="amplitude"
+              domain={[-amplitudePeak, amplitudePeak]}
+              allowDataOverflow
+              tickFormatter={(v: number) => v.toFixed(2)}
+              label={{ value: 'Amplitude', angle: -90, position: 'insideLeft' }}
+              stroke="#64748b"
+            />
+            {residual && (
+              <YAxis
+                yAxisId="residual"
+                orientation="right"
+                domain={[-residualPeak, residualPeak]}
+                allowDataOverflow
+                tickFormatter={(v: number) => v.toExponential(0)}
+                stroke={COLORS.residual}
+              />
+            )}
+            <Tooltip
+              formatter={(value) =>
+                Array.isArray(value)
+                  ? value.map((v) => Number(v).toFixed(4)).join(' to ')
+                  : Number(value).toFixed(4)
+              }
+              labelFormatter={(label) => `Time: ${Number(label).toFixed(4)}s`}
+            />
+            <Legend verticalAlign="top" height={36} />
+            {isExact ? (
+              <>
+                <Line
+                  yAxisId="amplitude"
+                  type="linear"
+                  dataKey="original"
+                  name="Original Signal"
+                  stroke={COLORS.original}
+                  dot={false}
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+                {hasReconstruction && (
+                  <Line
+                    yAxisId="amplitude"
+                    type="linear"
+                    dataKey="reconstructed"
+                    name="Reconstructed Signal"
+                    stroke={COLORS.reconstructed}
+                    strokeDasharray="3 3"
+                    dot={false}
+                    strokeWidth={2}
+                    isAnimationActive={false}
+                  />
+                )}
+                {residual && (
+                  <Line
+                    yAxisId="residual"
+                    type="linear"
+                    dataKey="residual"
+                    name="Residual (right axis)"
+                    stroke={COLORS.residual}
+                    dot={false}
+                    strokeWidth={1}
+                    isAnimationActive={false}
+                  />
+                )}
+              </>
+            ) : (
+              <>
+                <Area
+                  yAxisId="amplitude"
+                  type="linear"
+                  dataKey="original"
+                  name="Original Signal"
+                  stroke={COLORS.original}
+                  fill={COLORS.original}
+                  fillOpacity={0.35}
+                  isAnimationActive={false}
+                />
+                {hasReconstruction && (
+                  <Area
+                    yAxisId="amplitude"
+                    type="linear"
+                    dataKey="reconstructed"
+                    name="Reconstructed Signal"
+                    stroke={COLORS.reconstructed}
+                    fill={COLORS.reconstructed}
+                    fillOpacity={0.25}
+                    isAnimationActive={false}
+                  />
+                )}
+                {residual && (
+                  <Area
+                    yAxisId="residual"
+                    type="linear"
+                    dataKey="residual"
+                    name="Residual (right axis)"
+                    stroke={COLORS.residual}
+                    fill={COLORS.residual}
+                    fillOpacity={0.25}
+                    isAnimationActive={false}
+                  />
+                )}
+              </>
+            )}
+            {markerTime !== null && (
+              <ReferenceLine
+                yAxisId="amplitude"
+                x={markerTime}
+                stroke="#0f172a"
+                strokeDasharray="3 2"
+              />
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+        <Playhead
+          getTime={playheadTime}
+          range={range}
+          plotSelector=".recharts-cartesian-grid"
+        />
+      </div>
+      <WaveformOverview
+        original={original}
+        reconstructed={hasReconstruction ? reconstructed : new Float32Array(0)}
+        sampleRate={sampleRate}
+        range={range}
+        onRangeChange={onRangeChange}
+        markerTime={markerTime}
+        loopRegion={loopRegion}
+        playheadTime={playheadTime}
+      />
     </div>
   );
 };
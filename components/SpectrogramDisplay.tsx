@@ -3,47 +3,175 @@ import React, {
   useEffect,
   useState,
   useCallback,
+  useMemo,
   PointerEvent,
 } from 'react';
-import { SpectrogramData, BrushParams } from '../types';
-import { SpectralMask } from '../services/signalService';
+
+import {
+  SpectrogramData,
+  BrushParams,
+  ChannelView,
+  Colormap,
+  GenerativeMode,
+  FrequencyScale,
+  SelectionTool,
+  SpectralPoint,
+  SpectralSelection,
+  WandConnectivity,
+  SpectrogramAggregation,
+  SpectrogramLayer,
+  SpectrogramViewport,
+} from '../types';
+import {
+  ERROR_DB_CEIL,
+  ERROR_DB_FLOOR,
+  SPECTROGRAM_DB_FLOOR,
+  SpectralMask,
+  estimateDbRange,
+} from '../services/signalService';
+import {
+  COLORMAP_LABELS,
+  colormapGradient,
+  getColormapLut,
+} from '../services/colormaps';
+import {
+  FREQUENCY_SCALE_LABELS,
+  createFrequencyAxis,
+  formatNote,
+  frequencyTicks,
+} from '../services/frequencyScale';
+import { deriveChannelCell, getChannelViewLabel } from '../services/channels';
+import {
+  SELECTION_TOOL_LABELS,
+  SelectionClipboard,
+  SelectionWeights,
+  applySelectionGain,
+  copySelectionContent,
+  applyBrushToSelection,
+  copySelectionMask,
+  dragSelectionPolygon,
+  pasteSelection,
+  selectionWeights,
+  silenceSelection,
+} from '../services/selection';
+import { brushPartials } from '../services/harmonicBrush';
+import { JobCancelledError } from '../services/stftWorkerClient';
+import { GENERATIVE_MODE_CODES } from '../constants';
+import { niceStep } from '../utils';
+
+import Playhead from './Playhead';
 
 interface SpectrogramDisplayProps {
   spectrogramData: SpectrogramData;
-  viewType: 'intensity' | 'difference';
-  diffData: number[][];
+  viewType: SpectrogramLayer;
+  diffData: SpectrogramData;
+  errorData: SpectrogramData;
+  // `viewType` recomputed for (part of) the viewport; drawn in place of the
+  // overview wherever it has cells.
+  detailData: SpectrogramData | null;
   mask: SpectralMask | null;
   onMaskChange: (newMask: SpectralMask) => void;
+  onStrokeStart: () => void;
+  onStrokeEnd: (label: string) => void;
+  onMaskEdit: (newMask: SpectralMask, label: string) => void;
+  // Cells the magic wand selects from `seed`, as a frame-major 0/1 map.
+  onMagicWand: (
+    seed: SpectralPoint,
+    toleranceDb: number,
+    connectivity: WandConnectivity,
+  ) => Promise<Uint8Array>;
   isEditMode: boolean;
   brushParams: BrushParams;
   fullDimensions: { frames: number; bins: number };
+  channelViews: ChannelView[];
+  channelView: ChannelView;
+  onChannelViewChange: (view: ChannelView) => void;
+  channelCount: number;
+  markerFrame: number | null;
+  onFrameSelect: (frame: number) => void;
+  viewport: SpectrogramViewport;
+  onViewportChange: (viewport: SpectrogramViewport) => void;
+  aggregation: SpectrogramAggregation;
+  onAggregationChange: (aggregation: SpectrogramAggregation) => void;
+  sampleRate: number;
+  frameToTime: (frame: number) => number; // Seconds at the frame's centre
+  playheadTime: () => number | null; // Playback position, polled every frame
+  channelStfts: number[][][][] | null; // Full-resolution original, per channel
 }
 
-const colors = {
-  intensity: (v: number) => {
-    if (v > 0.9) return [253, 224, 71];
-    if (v > 0.75) return [163, 230, 53];
-    if (v > 0.6) return [34, 197, 94];
-    if (v > 0.45) return [20, 184, 166];
-    if (v > 0.3) return [37, 99, 235];
-    if (v > 0.15) return [67, 56, 202];
-    return [15, 23, 42];
-  },
-  difference: (v: number) => {
-    const a = Math.abs(v);
-    if (a < 0.05) return [226, 232, 240];
-    if (v > 0) {
-      // Added (red)
-      if (a > 0.8) return [185, 28, 28];
-      if (a > 0.5) return [220, 38, 38];
-      return [239, 68, 68];
-    } else {
-      // Removed (blue)
-      if (a > 0.8) return [29, 78, 216];
-      if (a > 0.5) return [59, 130, 246];
-      return [96, 165, 250];
-    }
-  },
+const ZOOM_STEP = 1.5;
+const MIN_VIEW_FRAMES = 8;
+const MIN_VIEW_BINS = 8;
+
+// Fits a window of `span` cells starting at `start` into [0, total), no
+// narrower than `minSpan`.
+const clampWindow = (
+  start: number,
+  span: number,
+  total: number,
+  minSpan: number,
+): [number, number] => {
+  const width = Math.min(total, Math.max(minSpan, Math.round(span)));
+  const from = Math.max(0, Math.min(total - width, Math.round(start)));
+  return [from, from + width];
+};
+
+// Scales the viewport about an anchor cell; factors < 1 zoom in.
+const zoomViewport = (
+  viewport: SpectrogramViewport,
+  dimensions: { frames: number; bins: number },
+  frameFactor: number,
+  binFactor: number,
+  anchor: { frame: number; bin: number },
+): SpectrogramViewport => {
+  const [frameStart, frameEnd] = clampWindow(
+    anchor.frame - (anchor.frame - viewport.frameStart) * frameFactor,
+    (viewport.frameEnd - viewport.frameStart) * frameFactor,
+    dimensions.frames,
+    MIN_VIEW_FRAMES,
+  );
+  const [binStart, binEnd] = clampWindow(
+    anchor.bin - (anchor.bin - viewport.binStart) * binFactor,
+    (viewport.binEnd - viewport.binStart) * binFactor,
+    dimensions.bins,
+    MIN_VIEW_BINS,
+  );
+  return { frameStart, frameEnd, binStart, binEnd };
+};
+
+// The display value covering an STFT cell, or undefined outside the data.
+const sampleAt = (
+  { data, viewport, cellSize }: SpectrogramData,
+  frame: number,
+  bin: number,
+): number | undefined => {
+  if (
+    frame < viewport.frameStart ||
+    frame >= viewport.frameEnd ||
+    bin < viewport.binStart ||
+    bin >= viewport.binEnd
+  )
+    return undefined;
+  return data[Math.floor((viewport.binEnd - 1 - bin) / cellSize.bins)]?.[
+    Math.floor((frame - viewport.frameStart) / cellSize.frames)
+  ];
+};
+
+// Diverging palette for the difference map: blue removed, red added.
+const differenceColor = (v: number) => {
+  const a = Math.abs(v);
+  if (a < 0.05) return [226, 232, 240];
+  if (v > 0) {
+    // Added (red)
+    if (a > 0.8) return [185, 28, 28];
+    if (a > 0.5) return [220, 38, 38];
+    return [239, 68, 68];
+  } else {
+    // Removed (blue)
+    if (a > 0.8) return [29, 78, 216];
+    if (a > 0.5) return [59, 130, 246];
+    return [96, 165, 250];
+  }
 };
 
 const DifferenceLegend: React.FC = () => (
@@ -64,15 +192,104 @@ const DifferenceLegend: React.FC = () => (
   </div>
 );
 
+// Gradient of the active colormap, labelled in dB at five even steps.
+const ColorBar: React.FC<{
+  colormap: Colormap;
+  floorDb: number;
+  ceilDb: number;
+  title: string;
+}> = ({ colormap, floorDb, ceilDb, title }) => (
+  <div className="flex items-center gap-2">
+    <span>{title}:</span>
+    <div className="w-48">
+      <div
+        className="h-3 rounded-sm"
+        style={{ background: colormapGradient(colormap) }}
+      ></div>
+      <div className="relative h-4">
+        {[0, 0.25, 0.5, 0.75, 1].map((t) => (
+          <span
+            key={t}
+            className={`absolute top-0 whitespace-nowrap ${t === 0 ? '' : t === 1 ? '-translate-x-full' : '-translate-x-1/2'}`}
+            style={{ left: `${t * 100}%` }}
+          >
+            {Math.round(floorDb + t * (ceilDb - floorDb))}
+          </span>
+        ))}
+      </div>
+    </div>
+    <span>dB</span>
+  </div>
+);
+
+// Everything known about one STFT cell; null where there is nothing loaded.
+interface CellInfo {
+  frame: number;
+  bin: number;
+  time: number; // Seconds
+  hz: number; // Bin centre
+  levelDb: number | null; // Original, before the mask
+  gainDb: number | null;
+  generativeDb: number | null; // null when the cell generates nothing
+  generativeMode: GenerativeMode | null;
+}
+
+const CellReadout: React.FC<{ cell: CellInfo }> = ({ cell }) => {
+  const note = formatNote(cell.hz);
+  return (
+    <>
+      <span>{cell.time.toFixed(4)} s</span>
+      <span>
+        {cell.hz.toFixed(1)} Hz{note && ` (${note})`}
+      </span>
+      {cell.levelDb !== null && <span>{cell.levelDb.toFixed(1)} dB</span>}
+      {cell.gainDb !== null && (
+        <span>
+          Gain {cell.gainDb > 0 ? '+' : ''}
+          {cell.gainDb.toFixed(1)} dB
+        </span>
+      )}
+      {cell.generativeDb !== null && (
+        <span>
+          Generate {cell.generativeMode} {cell.generativeDb.toFixed(1)} dB
+        </span>
+      )}
+      <span className="opacity-75">
+        Frame {cell.frame} · Bin {cell.bin}
+      </span>
+    </>
+  );
+};
+
 const SpectrogramDisplay: React.FC<SpectrogramDisplayProps> = ({
   spectrogramData,
   viewType,
   diffData,
+  errorData,
+  detailData,
   mask,
   onMaskChange,
+  onStrokeStart,
+  onStrokeEnd,
+  onMaskEdit,
+  onMagicWand,
   isEditMode,
   brushParams,
   fullDimensions,
+  channelViews,
+  channelView,
+  onChannelViewChange,
+  channelCount,
+  markerFrame,
+  onFrameSelect,
+  viewport,
+  onViewportChange,
+  aggregation,
+  onAggregationChange,
+  sampleRate,
+  frameToTime,
+  playheadTime,
+  channelStfts,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const [backing, setBacking] = useState<{
@@ -80,11 +297,135 @@ const SpectrogramDisplay: React.FC<SpectrogramDisplayProps> = ({
     img: ImageData;
   } | null>(null);
   const [isPainting, setIsPainting] = useState(false);
-  const [mousePos, setMousePos] = useState<{ x: number; y: number } | null>(
-    null,
-  );
+  // Pointer position in CSS pixels of the canvas, and the cell under it.
+  const [mousePos, setMousePos] = useState<{
+    x: number;
+    y: number;
+    frame: number;
+    bin: number;
+  } | null>(null);
+  // Cell pinned by a click, shown until cleared or another file is loaded.
+  const [pinnedCell, setPinnedCell] = useState<{
+    frame: number;
+    bin: number;
+  } | null>(null);
   const lastPointerPosRef = useRef<{ frame: number; bin: number } | null>(null);
-  const { data: displayData, freqLabels } = spectrogramData;
+  // The mask being painted by the current stroke. It is cloned once on
+  // pointer down and then edited in place, so redraws are driven by a counter.
+  const strokeRef = useRef<{ mask: SpectralMask; label: string } | null>(null);
+  const [strokeRevision, setStrokeRevision] = useState(0);
+  // A pan or zoom-box drag; a pan that never moves is a click.
+  const viewDragRef = useRef<
+    | {
+        mode: 'pan';
+        x: number;
+        y: number;
+        from: SpectrogramViewport;
+        button: number;
+        moved: boolean;
+      }
+    | { mode: 'zoomBox' }
+    | null
+  >(null);
+  // Corners of the zoom box being dragged, in CSS pixels of the canvas.
+  const [zoomBox, setZoomBox] = useState<{
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+  } | null>(null);
+  // What a left-drag does in edit mode: paint, or select a region.
+  const [editTool, setEditTool] = useState<'brush' | SelectionTool>('brush');
+  const [selection, setSelection] = useState<SpectralSelection | null>(null);
+  // The selection being dragged out: where it started, and the lasso's path.
+  const selectionDragRef = useRef<{
+    anchor: SpectralPoint;
+    path: SpectralPoint[];
+    moved: boolean;
+  } | null>(null);
+  const [clipboard, setClipboard] = useState<SelectionClipboard | null>(null);
+  const [selectionGainDb, setSelectionGainDb] = useState(-12);
+  // How far (dB) a cell's level may be from the clicked cell's for the magic
+  // wand to spread into it, and whether it spreads diagonally.
+  const [wandToleranceDb, setWandToleranceDb] = useState(6);
+  const [wandConnectivity, setWandConnectivity] = useState<WandConnectivity>(4);
+  const [frequencyScale, setFrequencyScale] =
+    useState<FrequencyScale>('linear');
+  const [colormap, setColormap] = useState<Colormap>('viridis');
+  // Level range the colormap spans on the intensity views. Auto follows the
+  // loaded file; editing either end switches to the manual range.
+  const [isAutoRange, setIsAutoRange] = useState(true);
+  const [manualRange, setManualRange] = useState({
+    floorDb: -90,
+    ceilDb: 0,
+  });
+  const autoRange = useMemo(
+    () => estimateDbRange(spectrogramData),
+    [spectrogramData],
+  );
+  const { floorDb, ceilDb } = isAutoRange ? autoRange : manualRange;
+  const { data: displayData } = spectrogramData;
+  const { frameStart, frameEnd, binStart, binEnd } = viewport;
+  const frameSpan = frameEnd - frameStart;
+  const binSpan = binEnd - binStart;
+
+  // Bin b is drawn from b - 0.5 to b + 0.5 bins' worth of Hz, so on a linear
+  // axis every visible bin gets the same height.
+  const binHz =
+    fullDimensions.bins > 1 ? sampleRate / 2 / (fullDimensions.bins - 1) : 1;
+  const axis = useMemo(
+    () =>
+      createFrequencyAxis(
+        frequencyScale,
+        (binStart - 0.5) * binHz,
+        (binEnd - 0.5) * binHz,
+      ),
+    [frequencyScale, binStart, binEnd, binHz],
+  );
+  // Position 0 is the bottom of the canvas, 1 the top.
+  const positionToBin = useCallback(
+    (position: number) =>
+      Math.max(
+        binStart,
+        Math.min(binEnd - 1, Math.round(axis.toHz(position) / binHz)),
+      ),
+    [axis, binStart, binEnd, binHz],
+  );
+  // Bins the brush reaches below and above `bin`. Its on-screen radius is what
+  // `brushParams.radius` bins would measure on a linear axis over this view.
+  const brushFootprint = useCallback(
+    (bin: number) => {
+      if (frequencyScale === 'linear') return brushParams.radius;
+      const position = axis.toPosition(bin * binHz);
+      const reach = brushParams.radius / binSpan;
+      return {
+        below: Math.max(0, bin - axis.toHz(position - reach) / binHz),
+        above: Math.max(0, axis.toHz(position + reach) / binHz - bin),
+      };
+    },
+    [frequencyScale, axis, binHz, binSpan, brushParams.radius],
+  );
+
+  // One dab of the brush at `bin` and, for a harmonic brush, its partials.
+  const paintDab = useCallback(
+    (target: SpectralMask, frame: number, bin: number, isErase: boolean) => {
+      for (const partial of brushPartials(
+        bin,
+        brushParams,
+        fullDimensions.bins,
+      ))
+        target.applyBrush(
+          frame,
+          partial.bin,
+          brushFootprint(partial.bin),
+          partial.gainDb,
+          isErase,
+          brushParams.brushMode,
+          brushParams.generativeMode,
+        );
+    },
+    [brushParams, brushFootprint, fullDimensions.bins],
+  );
 
   const canvasToSpectral = useCallback(
     (
@@ -92,7 +433,6 @@ const SpectrogramDisplay: React.FC<SpectrogramDisplayProps> = ({
       canvas: HTMLCanvasElement,
     ): { frame: number; bin: number } => {
       const rect = canvas.getBoundingClientRect();
-      const { frames, bins } = fullDimensions;
 
       const xCss = ev.clientX - rect.left;
       const yCss = ev.clientY - rect.top;
@@ -102,17 +442,56 @@ const SpectrogramDisplay: React.FC<SpectrogramDisplayProps> = ({
       const x = Math.max(0, Math.min(wCss, xCss));
       const y = Math.max(0, Math.min(hCss, yCss));
 
-      const frame = Math.max(
+      const frame = Math.min(
+        frameEnd - 1,
+        frameStart + Math.floor((x / wCss) * frameSpan),
+      );
+      const bin = positionToBin(1 - y / hCss);
+      return { frame, bin };
+    },
+    [frameStart, frameEnd, frameSpan, positionToBin],
+  );
+
+  // Like canvasToSpectral, but unrounded: cell (f, b) spans f to f + 1 and
+  // b to b + 1.
+  const canvasToPoint = useCallback(
+    (
+      ev: { clientX: number; clientY: number },
+      canvas: HTMLCanvasElement,
+    ): SpectralPoint => {
+      const rect = canvas.getBoundingClientRect();
+      const fx = Math.max(
         0,
-        Math.min(frames - 1, Math.round((x / wCss) * (frames - 1))),
+        Math.min(1, (ev.clientX - rect.left) / rect.width),
       );
-      const bin = Math.max(
+      const fy = Math.max(
         0,
-        Math.min(bins - 1, Math.round((1 - y / hCss) * (bins - 1))),
+        Math.min(1, (ev.clientY - rect.top) / rect.height),
       );
-      return { frame, bin };
+      return {
+        frame: frameStart + fx * frameSpan,
+        bin: Math.max(
+          binStart,
+          Math.min(binEnd, axis.toHz(1 - fy) / binHz + 0.5),
+        ),
+      };
+    },
+    [frameStart, frameSpan, binStart, binEnd, axis, binHz],
+  );
+
+  // Where a brush dab lands. A harmonic brush multiplies the painted bin, so
+  // its fundamental is kept fractional; rounding it would throw the upper
+  // partials off by up to half a bin times their number.
+  const canvasToDab = useCallback(
+    (
+      ev: { clientX: number; clientY: number },
+      canvas: HTMLCanvasElement,
+    ): { frame: number; bin: number } => {
+      const cell = canvasToSpectral(ev, canvas);
+      if (!brushParams.harmonic) return cell;
+      return { frame: cell.frame, bin: canvasToPoint(ev, canvas).bin - 0.5 };
     },
-    [fullDimensions],
+    [brushParams.harmonic, canvasToSpectral, canvasToPoint],
   );
 
   const rasterizeLine = useCallback(
@@ -120,6 +499,7 @@ const SpectrogramDisplay: React.FC<SpectrogramDisplayProps> = ({
       p0: { frame: number; bin: number },
       p1: { frame: number; bin: number },
       apply: (frame: number, bin: number) => void,
+      exactBins = false, // Keep fractional bins rather than rounding
     ) => {
       const df = p1.frame - p0.frame;
       const db = p1.bin - p0.bin;
@@ -131,8 +511,8 @@ const SpectrogramDisplay: React.FC<SpectrogramDisplayProps> = ({
       for (let i = 0; i <= steps; i++) {
         const t = i / steps;
         const frame = Math.round(p0.frame + df * t);
-        const bin = Math.round(p0.bin + db * t);
-        apply(frame, bin);
+        const bin = p0.bin + db * t;
+        apply(frame, exactBins ? bin : Math.round(bin));
       }
     },
     [],
@@ -163,30 +543,49 @@ const SpectrogramDisplay: React.FC<SpectrogramDisplayProps> = ({
     const { ctx, img } = backing;
     const W = img.width;
     const H = img.height;
-    const { frames: totalFrames, bins: totalBins } = fullDimensions;
 
-    const DB_FLOOR = -90;
-    const DB_CEIL = 0;
-    const DB_SPAN = DB_CEIL - DB_FLOOR;
+    const dbSpan = ceilDb - floorDb;
+    const lut = getColormapLut(colormap);
 
-    const sourceData = viewType === 'difference' ? diffData : displayData;
-    const getColor = colors[viewType];
-    const displayDataHeight = sourceData.length;
-    const displayDataWidth = displayData.length > 0 ? sourceData[0].length : 0;
+    const sourceData =
+      viewType === 'difference'
+        ? diffData
+        : viewType === 'error'
+          ? errorData
+          : spectrogramData;
+    const outside = viewType === 'intensity' ? SPECTROGRAM_DB_FLOOR : 0;
+    const columnFrames = Array.from(
+      { length: W },
+      (_, x) => frameStart + Math.floor((x / W) * frameSpan),
+    );
+    // Magic-wand selections have no outline; their cells are lightened.
+    const wandCells = selection?.cells ?? null;
+    const isWandSelected = (frame: number, bin: number) =>
+      !!wandCells &&
+      frame < mask.F &&
+      bin >= 0 &&
+      bin < mask.B &&
+      (wandCells[mask.idx(frame, bin)] === 1) !== selection?.inverted;
 
     for (let y = 0; y < H; y++) {
+      const fullBin = positionToBin(1 - (y + 0.5) / H);
       for (let x = 0; x < W; x++) {
-        const displayX = Math.floor((x / W) * displayDataWidth);
-        const displayY = Math.floor((y / H) * displayDataHeight);
+        const fullFrame = columnFrames[x];
 
-        const fullFrame = Math.floor((x / W) * totalFrames);
-        const fullBin = Math.floor(((H - 1 - y) / H) * totalBins);
+        const value =
+          (detailData ? sampleAt(detailData, fullFrame, fullBin) : undefined) ??
+          sampleAt(sourceData, fullFrame, fullBin) ??
+          outside;
+        const index = (y * W + x) * 4;
 
-        const value = sourceData[displayY]?.[displayX] ?? 0;
-        let displayValue = value;
+        if (viewType === 'difference') {
+          img.data.set([...differenceColor(value), 255], index);
+          continue;
+        }
 
+        let position = value;
         if (viewType === 'intensity') {
-          let finalDb = DB_FLOOR + value * DB_SPAN;
+          let finalDb = value;
 
           const maskIdx = mask.idx(fullFrame, fullBin);
           const gainDb = mask.gainDbLayer[maskIdx];
@@ -197,21 +596,123 @@ const SpectrogramDisplay: React.FC<SpectrogramDisplayProps> = ({
             finalDb = Math.max(finalDb, genDb);
           }
 
-          const clampedDb = Math.max(DB_FLOOR, Math.min(DB_CEIL, finalDb));
-          displayValue = (clampedDb - DB_FLOOR) / DB_SPAN;
+          const pastedRe = mask.pastedLayer[maskIdx * 2];
+          const pastedIm = mask.pastedLayer[maskIdx * 2 + 1];
+          if (pastedRe !== 0 || pastedIm !== 0) {
+            finalDb =
+              10 *
+              Math.log10(10 ** (finalDb / 10) + pastedRe ** 2 + pastedIm ** 2);
+          }
+
+          position = (finalDb - floorDb) / dbSpan;
         }
 
-        const [r, g, b] = getColor(displayValue);
-        const index = (y * W + x) * 4;
-        img.data.set([r, g, b, 255], index);
+        const l = Math.round(Math.max(0, Math.min(1, position)) * 255) * 3;
+        const tint = isWandSelected(fullFrame, fullBin) ? 0.18 : 0;
+        img.data[index] = lut[l] + (255 - lut[l]) * tint;
+        img.data[index + 1] = lut[l + 1] + (255 - lut[l + 1]) * tint;
+        img.data[index + 2] = lut[l + 2] + (255 - lut[l + 2]) * tint;
+        img.data[index + 3] = 255;
       }
     }
     ctx.putImageData(img, 0, 0);
 
-    if (isEditMode && mousePos && canvasRef.current) {
-      const dpr = window.devicePixelRatio || 1;
+    const dpr = window.devicePixelRatio || 1;
+    if (
+      markerFrame !== null &&
+      markerFrame >= frameStart &&
+      markerFrame < frameEnd
+    ) {
+      const x =
+        Math.round(((markerFrame - frameStart + 0.5) / frameSpan) * W) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, H);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+      ctx.lineWidth = dpr;
+      ctx.setLineDash([4, 3]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    if (zoomBox) {
+      const x = Math.min(zoomBox.x0, zoomBox.x1) * dpr;
+      const y = Math.min(zoomBox.y0, zoomBox.y1) * dpr;
+      const w = Math.abs(zoomBox.x1 - zoomBox.x0) * dpr;
+      const h = Math.abs(zoomBox.y1 - zoomBox.y0) * dpr;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+      ctx.fillRect(x, y, w, h);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+      ctx.lineWidth = dpr;
+      ctx.strokeRect(x, y, w, h);
+    }
+
+    if (selection && selection.polygon.length > 1) {
+      const toCanvas = ({ frame, bin }: SpectralPoint) => [
+        ((frame - frameStart) / frameSpan) * W,
+        (1 - axis.toPosition((bin - 0.5) * binHz)) * H,
+      ];
+      const outline = new Path2D();
+      selection.polygon.forEach((point, i) => {
+        const [x, y] = toCanvas(point);
+        if (i === 0) outline.moveTo(x, y);
+        else outline.lineTo(x, y);
+      });
+      outline.closePath();
+      // An inverted selection shades everything but the polygon.
+      const shade = new Path2D();
+      if (selection.inverted) shade.rect(0, 0, W, H);
+      shade.addPath(outline);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.18)';
+      ctx.fill(shade, 'evenodd');
+      ctx.lineWidth = dpr;
+      ctx.setLineDash([5 * dpr, 4 * dpr]);
+      ctx.strokeStyle = 'rgba(15, 23, 42, 0.9)';
+      ctx.stroke(outline);
+      ctx.lineDashOffset = 5 * dpr;
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.95)';
+      ctx.stroke(outline);
+      ctx.setLineDash([]);
+      ctx.lineDashOffset = 0;
+    }
+
+    if (
+      pinnedCell &&
+      pinnedCell.frame >= frameStart &&
+      pinnedCell.frame < frameEnd &&
+      pinnedCell.bin >= binStart &&
+      pinnedCell.bin < binEnd
+    ) {
+      const x = ((pinnedCell.frame - frameStart + 0.5) / frameSpan) * W;
+      const y = (1 - axis.toPosition(pinnedCell.bin * binHz)) * H;
+      ctx.beginPath();
+      ctx.arc(x, y, 5 * dpr, 0, 2 * Math.PI);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.95)';
+      ctx.lineWidth = 2 * dpr;
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(x, y, 5 * dpr, 0, 2 * Math.PI);
+      ctx.strokeStyle = 'rgba(15, 23, 42, 0.9)';
+      ctx.lineWidth = dpr;
+      ctx.stroke();
+    }
+
+    if (mousePos && !isPainting) {
+      const x = Math.round(mousePos.x * dpr) + 0.5;
+      const y = Math.round(mousePos.y * dpr) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, H);
+      ctx.moveTo(0, y);
+      ctx.lineTo(W, y);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+      ctx.lineWidth = dpr;
+      ctx.stroke();
+    }
+
+    if (isEditMode && editTool === 'brush' && mousePos && canvasRef.current) {
       const brushRadiusCanvas =
-        (brushParams.radius / totalBins) * canvasRef.current.clientHeight;
+        (brushParams.radius / binSpan) * canvasRef.current.clientHeight;
       ctx.beginPath();
       ctx.arc(
         mousePos.x * dpr,
@@ -223,111 +724,822 @@ const SpectrogramDisplay: React.FC<SpectrogramDisplayProps> = ({
       ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
       ctx.lineWidth = 1.5 * dpr;
       ctx.stroke();
+
+      // Ghosts of the partials a harmonic brush would paint along with it.
+      if (brushParams.harmonic) {
+        const fundamental =
+          axis.toHz(1 - mousePos.y / canvasRef.current.clientHeight) / binHz;
+        const partials = brushPartials(
+          fundamental,
+          brushParams,
+          fullDimensions.bins,
+        ).slice(1);
+        ctx.setLineDash([6 * dpr, 4 * dpr]);
+        for (const partial of partials) {
+          const y = (1 - axis.toPosition(partial.bin * binHz)) * H;
+          if (y < 0 || y > H) continue;
+          ctx.beginPath();
+          ctx.moveTo(0, y);
+          ctx.lineTo(W, y);
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+          ctx.lineWidth = dpr;
+          ctx.stroke();
+          ctx.beginPath();
+          ctx.arc(mousePos.x * dpr, y, brushRadiusCanvas * dpr, 0, 2 * Math.PI);
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+          ctx.stroke();
+        }
+        ctx.setLineDash([]);
+      }
     }
   }, [
     backing,
     displayData,
+    spectrogramData,
     diffData,
+    errorData,
+    detailData,
     viewType,
+    colormap,
+    floorDb,
+    ceilDb,
     mask,
+    markerFrame,
+    frameStart,
+    frameEnd,
+    frameSpan,
+    binStart,
+    binEnd,
+    binSpan,
+    binHz,
+    axis,
+    positionToBin,
+    zoomBox,
+    selection,
+    pinnedCell,
+    strokeRevision,
     isEditMode,
+    editTool,
+    isPainting,
     mousePos,
-    brushParams.radius,
+    brushParams,
+    fullDimensions.bins,
+  ]);
+
+  // A new file invalidates the pinned cell, the selection and the clipboard.
+  useEffect(() => {
+    setPinnedCell(null);
+    setSelection(null);
+    setClipboard(null);
+  }, [fullDimensions]);
+
+  // Wheel zooms time about the cursor, shift+wheel zooms frequency, and a
+  // horizontal swipe pans. React's wheel listener is passive, so this one is
+  // attached by hand.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return;
+      const fx = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+      const fy = Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height));
+      const anchor = {
+        frame: frameStart + fx * frameSpan,
+        bin: axis.toHz(1 - fy) / binHz + 0.5,
+      };
+
+      if (e.shiftKey) {
+        // Some browsers turn shift+wheel into a horizontal scroll.
+        const delta = e.deltaY || e.deltaX;
+        if (delta === 0) return;
+        onViewportChange(
+          zoomViewport(
+            viewport,
+            fullDimensions,
+            1,
+            delta > 0 ? ZOOM_STEP : 1 / ZOOM_STEP,
+            anchor,
+          ),
+        );
+      } else if (Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        const [panStart, panEnd] = clampWindow(
+          frameStart + (e.deltaX / rect.width) * frameSpan,
+          frameSpan,
+          fullDimensions.frames,
+          1,
+        );
+        onViewportChange({
+          ...viewport,
+          frameStart: panStart,
+          frameEnd: panEnd,
+        });
+      } else if (e.deltaY !== 0) {
+        onViewportChange(
+          zoomViewport(
+            viewport,
+            fullDimensions,
+            e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP,
+            1,
+            anchor,
+          ),
+        );
+      }
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [
+    viewport,
     fullDimensions,
+    frameStart,
+    frameSpan,
+    axis,
+    binHz,
+    onViewportChange,
+    displayData.length,
   ]);
 
   const handlePointerDown = useCallback(
     (e: PointerEvent<HTMLCanvasElement>) => {
+      // Outside edit mode, and always on the error heatmap, a click picks a
+      // time, a drag pans and a shift+drag zooms to a box. While painting,
+      // the middle button pans.
+      const isNavigation =
+        e.button === 1 ||
+        (e.button === 0 && (!isEditMode || viewType === 'error'));
+      if (isNavigation) {
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        if (e.button === 0 && e.shiftKey) {
+          const { offsetX, offsetY } = e.nativeEvent;
+          viewDragRef.current = { mode: 'zoomBox' };
+          setZoomBox({ x0: offsetX, y0: offsetY, x1: offsetX, y1: offsetY });
+        } else {
+          viewDragRef.current = {
+            mode: 'pan',
+            x: e.clientX,
+            y: e.clientY,
+            from: viewport,
+            button: e.button,
+            moved: false,
+          };
+        }
+        return;
+      }
       if (!isEditMode || e.button !== 0 || !mask) return;
       e.currentTarget.setPointerCapture(e.pointerId);
+      if (editTool === 'magicWand') {
+        const seed = canvasToSpectral(e, e.currentTarget);
+        if (seed.frame >= mask.F || seed.bin < 0 || seed.bin >= mask.B) return;
+        const size = mask.F * mask.B;
+        onMagicWand(seed, wandToleranceDb, wandConnectivity)
+          .then((cells) => {
+            // Another file may have been loaded while the fill ran.
+            if (cells.length !== size) return;
+            setSelection((current) => ({
+              tool: 'magicWand',
+              polygon: [],
+              cells,
+              inverted: false,
+              feather: current?.feather ?? 0,
+            }));
+          })
+          .catch((err) => {
+            if (err instanceof JobCancelledError) return;
+            console.error('Magic wand selection failed:', err);
+          });
+        return;
+      }
+      if (editTool !== 'brush') {
+        const anchor = canvasToPoint(e, e.currentTarget);
+        selectionDragRef.current = { anchor, path: [anchor], moved: false };
+        return;
+      }
       setIsPainting(true);
 
-      const pos = canvasToSpectral(e, e.currentTarget);
+      const pos = canvasToDab(e, e.currentTarget);
       lastPointerPosRef.current = pos;
 
       const newMask = mask.clone();
-      newMask.applyBrush(
-        pos.frame,
-        pos.bin,
-        brushParams.radius,
-        brushParams.gainDb,
-        e.altKey,
-        brushParams.brushMode,
-      );
+      const action = e.altKey ? 'Erase' : 'Paint';
+      const layer =
+        brushParams.brushMode === 'generative' ? 'generative' : 'gain';
+      const label = `${action} ${layer}${brushParams.harmonic ? ' harmonics' : ''}`;
+      strokeRef.current = { mask: newMask, label };
+      onStrokeStart();
+      paintDab(newMask, pos.frame, pos.bin, e.altKey);
       onMaskChange(newMask);
-      setMousePos({ x: e.nativeEvent.offsetX, y: e.nativeEvent.offsetY });
+      setMousePos({
+        x: e.nativeEvent.offsetX,
+        y: e.nativeEvent.offsetY,
+        ...canvasToSpectral(e, e.currentTarget),
+      });
     },
-    [isEditMode, mask, brushParams, onMaskChange, canvasToSpectral],
+    [
+      isEditMode,
+      editTool,
+      viewType,
+      viewport,
+      mask,
+      brushParams,
+      wandToleranceDb,
+      wandConnectivity,
+      onMagicWand,
+      paintDab,
+      onMaskChange,
+      onStrokeStart,
+      canvasToSpectral,
+      canvasToPoint,
+      canvasToDab,
+    ],
   );
 
   const handlePointerMove = useCallback(
     (e: PointerEvent<HTMLCanvasElement>) => {
-      const currentMousePos = {
+      setMousePos({
         x: e.nativeEvent.offsetX,
         y: e.nativeEvent.offsetY,
-      };
-      setMousePos(currentMousePos);
+        ...canvasToSpectral(e, e.currentTarget),
+      });
+
+      const viewDrag = viewDragRef.current;
+      if (viewDrag?.mode === 'zoomBox') {
+        const rect = e.currentTarget.getBoundingClientRect();
+        setZoomBox(
+          (box) =>
+            box && {
+              ...box,
+              x1: Math.max(0, Math.min(rect.width, e.clientX - rect.left)),
+              y1: Math.max(0, Math.min(rect.height, e.clientY - rect.top)),
+            },
+        );
+        return;
+      }
+      if (viewDrag?.mode === 'pan') {
+        const dx = e.clientX - viewDrag.x;
+        const dy = e.clientY - viewDrag.y;
+        if (Math.abs(dx) + Math.abs(dy) > 3) viewDrag.moved = true;
+        if (!viewDrag.moved) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const { from } = viewDrag;
+        const fromFrames = from.frameEnd - from.frameStart;
+        const fromBins = from.binEnd - from.binStart;
+        const [panFrameStart, panFrameEnd] = clampWindow(
+          from.frameStart - (dx / rect.width) * fromFrames,
+          fromFrames,
+          fullDimensions.frames,
+          1,
+        );
+        const [panBinStart, panBinEnd] = clampWindow(
+          from.binStart + (dy / rect.height) * fromBins,
+          fromBins,
+          fullDimensions.bins,
+          1,
+        );
+        onViewportChange({
+          frameStart: panFrameStart,
+          frameEnd: panFrameEnd,
+          binStart: panBinStart,
+          binEnd: panBinEnd,
+        });
+        return;
+      }
 
-      if (!isPainting || !isEditMode || !mask) return;
+      const selectionDrag = selectionDragRef.current;
+      if (selectionDrag && editTool !== 'brush' && editTool !== 'magicWand') {
+        const point = canvasToPoint(e, e.currentTarget);
+        const { anchor, path } = selectionDrag;
+        selectionDrag.moved = true;
+        if (editTool === 'lasso') path.push(point);
+        setSelection({
+          tool: editTool,
+          polygon:
+            editTool === 'lasso'
+              ? [...path]
+              : dragSelectionPolygon(editTool, anchor, point, fullDimensions),
+          cells: null,
+          inverted: false,
+          feather: selection?.feather ?? 0,
+        });
+        return;
+      }
 
-      const currentSpectralPos = canvasToSpectral(e, e.currentTarget);
+      const stroke = strokeRef.current;
+      if (!isPainting || !isEditMode || !stroke) return;
+
+      const currentSpectralPos = canvasToDab(e, e.currentTarget);
       const lastSpectralPos = lastPointerPosRef.current;
 
-      const newMask = mask.clone();
+      const newMask = stroke.mask;
       const apply = (frame: number, bin: number) =>
-        newMask.applyBrush(
-          frame,
-          bin,
-          brushParams.radius,
-          brushParams.gainDb,
-          e.altKey,
-          brushParams.brushMode,
-        );
+        paintDab(newMask, frame, bin, e.altKey);
 
       if (lastSpectralPos) {
-        rasterizeLine(lastSpectralPos, currentSpectralPos, apply);
+        rasterizeLine(
+          lastSpectralPos,
+          currentSpectralPos,
+          apply,
+          brushParams.harmonic,
+        );
       } else {
         apply(currentSpectralPos.frame, currentSpectralPos.bin);
       }
 
       lastPointerPosRef.current = currentSpectralPos;
+      setStrokeRevision((r) => r + 1);
       onMaskChange(newMask);
     },
     [
       isPainting,
       isEditMode,
-      mask,
-      brushParams,
+      editTool,
+      selection,
+      brushParams.harmonic,
+      paintDab,
       onMaskChange,
+      onViewportChange,
+      fullDimensions,
       canvasToSpectral,
+      canvasToPoint,
+      canvasToDab,
       rasterizeLine,
     ],
   );
 
   const handlePointerUp = useCallback(
     (e: PointerEvent<HTMLCanvasElement>) => {
+      const viewDrag = viewDragRef.current;
+      if (viewDrag) {
+        viewDragRef.current = null;
+        if (e.currentTarget.hasPointerCapture(e.pointerId))
+          e.currentTarget.releasePointerCapture(e.pointerId);
+        if (viewDrag.mode === 'pan') {
+          if (!viewDrag.moved && viewDrag.button === 0) {
+            const cell = canvasToSpectral(e, e.currentTarget);
+            setPinnedCell(cell);
+            onFrameSelect(cell.frame);
+          }
+          return;
+        }
+        setZoomBox(null);
+        // Anything smaller than a few pixels is a stray click, not a box.
+        if (
+          !zoomBox ||
+          Math.abs(zoomBox.x1 - zoomBox.x0) < 4 ||
+          Math.abs(zoomBox.y1 - zoomBox.y0) < 4
+        )
+          return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const corner = (x: number, y: number) =>
+          canvasToSpectral(
+            { clientX: rect.left + x, clientY: rect.top + y },
+            e.currentTarget,
+          );
+        const a = corner(zoomBox.x0, zoomBox.y0);
+        const b = corner(zoomBox.x1, zoomBox.y1);
+        const boxFrameStart = Math.min(a.frame, b.frame);
+        const boxBinStart = Math.min(a.bin, b.bin);
+        const [zoomFrameStart, zoomFrameEnd] = clampWindow(
+          boxFrameStart,
+          Math.max(a.frame, b.frame) + 1 - boxFrameStart,
+          fullDimensions.frames,
+          MIN_VIEW_FRAMES,
+        );
+        const [zoomBinStart, zoomBinEnd] = clampWindow(
+          boxBinStart,
+          Math.max(a.bin, b.bin) + 1 - boxBinStart,
+          fullDimensions.bins,
+          MIN_VIEW_BINS,
+        );
+        onViewportChange({
+          frameStart: zoomFrameStart,
+          frameEnd: zoomFrameEnd,
+          binStart: zoomBinStart,
+          binEnd: zoomBinEnd,
+        });
+        return;
+      }
+      const selectionDrag = selectionDragRef.current;
+      if (selectionDrag) {
+        selectionDragRef.current = null;
+        if (e.currentTarget.hasPointerCapture(e.pointerId))
+          e.currentTarget.releasePointerCapture(e.pointerId);
+        // A click without a drag deselects.
+        if (!selectionDrag.moved) setSelection(null);
+        return;
+      }
       if (!isPainting) return;
-      e.currentTarget.releasePointerCapture(e.pointerId);
+      if (e.currentTarget.hasPointerCapture(e.pointerId))
+        e.currentTarget.releasePointerCapture(e.pointerId);
       setIsPainting(false);
       lastPointerPosRef.current = null;
+
+      const stroke = strokeRef.current;
+      strokeRef.current = null;
+      if (stroke) onStrokeEnd(stroke.label);
     },
-    [isPainting],
+    [
+      isPainting,
+      zoomBox,
+      fullDimensions,
+      onStrokeEnd,
+      onFrameSelect,
+      onViewportChange,
+      canvasToSpectral,
+    ],
+  );
+
+  // Frame f spans f to f + 1 across the canvas, so its centre is at f + 0.5.
+  const visibleTimes = useMemo(
+    () => ({
+      start: frameToTime(frameStart - 0.5),
+      end: frameToTime(frameEnd - 0.5),
+    }),
+    [frameToTime, frameStart, frameEnd],
   );
 
   if (!displayData || displayData.length === 0) {
     return <div className="text-slate-500">No spectrogram data.</div>;
   }
-  const cursorClass = isEditMode ? 'cursor-crosshair' : 'cursor-default';
+  const cursorClass =
+    isEditMode && viewType !== 'error' ? 'cursor-crosshair' : 'cursor-grab';
+
+  const { frames: totalFrames, bins: totalBins } = fullDimensions;
+  const isZoomed = frameSpan < totalFrames || binSpan < totalBins;
+  const zoomBy = (factor: number) =>
+    onViewportChange(
+      zoomViewport(viewport, fullDimensions, factor, 1, {
+        frame:
+          markerFrame !== null &&
+          markerFrame >= frameStart &&
+          markerFrame < frameEnd
+            ? markerFrame + 0.5
+            : frameStart + frameSpan / 2,
+        bin: binStart,
+      }),
+    );
+
+  const ticks = frequencyTicks(axis);
+
+  const { start: timeStart, end: timeEnd } = visibleTimes;
+  const timeStep =
+    timeEnd > timeStart ? niceStep((timeEnd - timeStart) / 8) : 0;
+  const timeDecimals =
+    timeStep > 0 ? Math.max(0, -Math.floor(Math.log10(timeStep) + 1e-9)) : 0;
+  const timeTicks: number[] = [];
+  if (timeStep > 0)
+    for (let i = Math.ceil(timeStart / timeStep); i * timeStep <= timeEnd; i++)
+      timeTicks.push(i * timeStep);
+
+  const describeCell = ({ frame, bin }: { frame: number; bin: number }) => {
+    const inRange = frame < fullDimensions.frames && bin < fullDimensions.bins;
+    const info: CellInfo = {
+      frame,
+      bin,
+      time: frameToTime(frame),
+      hz: bin * binHz,
+      levelDb: null,
+      gainDb: null,
+      generativeDb: null,
+      generativeMode: null,
+    };
+    if (channelStfts && inRange) {
+      const [re, im] = deriveChannelCell(channelStfts, channelView, bin, frame);
+      info.levelDb = 20 * Math.log10(Math.hypot(re, im) + 1e-12);
+    }
+    if (mask && inRange) {
+      const idx = mask.idx(frame, bin);
+      info.gainDb = mask.gainDbLayer[idx];
+      if (mask.generativeDbLayer[idx] > -900) {
+        info.generativeDb = mask.generativeDbLayer[idx];
+        info.generativeMode =
+          mask.generativeModeLayer[idx] === GENERATIVE_MODE_CODES.tone
+            ? 'tone'
+            : 'noise';
+      }
+    }
+    return info;
+  };
+
+  // Runs one operation on the selected cells as a single undoable edit.
+  const editSelection = (
+    label: string,
+    edit: (next: SpectralMask, weights: SelectionWeights) => void,
+  ) => {
+    if (!mask || !selection) return;
+    const weights = selectionWeights(selection, mask.F, mask.B);
+    if (!weights) return;
+    const next = mask.clone();
+    edit(next, weights);
+    onMaskEdit(next, label);
+  };
+
+  const editSelectionPaste = (clip: SelectionClipboard, frame: number) => {
+    if (!mask) return;
+    const next = mask.clone();
+    pasteSelection(next, clip, frame);
+    onMaskEdit(next, clip.kind === 'mask' ? 'Paste mask' : 'Paste audio');
+  };
+
+  const copySelection = (kind: SelectionClipboard['kind']) => {
+    if (!mask || !selection) return;
+    const weights = selectionWeights(selection, mask.F, mask.B);
+    if (!weights) return;
+    if (kind === 'mask') setClipboard(copySelectionMask(mask, weights));
+    else if (channelStfts)
+      setClipboard(
+        copySelectionContent(channelStfts, channelView, weights, mask.B),
+      );
+  };
+
+  const buttonClasses =
+    'px-2 py-1 text-xs font-medium rounded border border-slate-300 bg-white text-slate-700 hover:bg-slate-100 disabled:opacity-50';
+  const editTools: ('brush' | SelectionTool)[] = [
+    'brush',
+    ...(Object.keys(SELECTION_TOOL_LABELS) as SelectionTool[]),
+  ];
 
   return (
     <div>
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-xs text-slate-600">
+        <button className={buttonClasses} onClick={() => zoomBy(1 / ZOOM_STEP)}>
+          Zoom In
+        </button>
+        <button className={buttonClasses} onClick={() => zoomBy(ZOOM_STEP)}>
+          Zoom Out
+        </button>
+        <button
+          className={buttonClasses}
+          disabled={!isZoomed}
+          onClick={() =>
+            onViewportChange({
+              frameStart: 0,
+              frameEnd: totalFrames,
+              binStart: 0,
+              binEnd: totalBins,
+            })
+          }
+        >
+          Reset
+        </button>
+        <div
+          className="flex items-center space-x-1 bg-slate-100 p-1 rounded-md"
+          role="group"
+          aria-label="Pooling"
+          title="How STFT cells are combined when there are more than the display can show. Max keeps narrow peaks visible."
+        >
+          {(['mean', 'max'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => onAggregationChange(option)}
+              className={`px-2 py-1 text-xs font-medium rounded ${aggregation === option ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}
+            >
+              {option === 'mean' ? 'Mean' : 'Max'}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1">
+          Frequency
+          <select
+            value={frequencyScale}
+            onChange={(e) =>
+              setFrequencyScale(e.target.value as FrequencyScale)
+            }
+            className="py-1 pl-2 pr-7 text-xs border-slate-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {(
+              Object.entries(FREQUENCY_SCALE_LABELS) as [
+                FrequencyScale,
+                string,
+              ][]
+            ).map(([scale, label]) => (
+              <option key={scale} value={scale}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="text-slate-500">
+          Wheel: zoom time · Shift+wheel: zoom frequency ·{' '}
+          {isEditMode && viewType !== 'error'
+            ? 'Middle-drag: pan'
+            : 'Drag: pan · Shift+drag: zoom to box'}
+        </span>
+        {channelViews.length > 1 && (
+          <div
+            className="flex items-center space-x-1 bg-slate-100 p-1 rounded-md ml-auto"
+            role="group"
+            aria-label="Channel view"
+          >
+            {channelViews.map((view) => (
+              <button
+                key={view}
+                onClick={() => onChannelViewChange(view)}
+                className={`px-2 py-1 text-xs font-medium rounded ${channelView === view ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}
+              >
+                {getChannelViewLabel(view, channelCount)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {isEditMode && viewType !== 'error' && (
+        <div className="flex flex-wrap items-center gap-2 mb-2 text-xs text-slate-600">
+          <div
+            className="flex items-center space-x-1 bg-slate-100 p-1 rounded-md"
+            role="group"
+            aria-label="Edit tool"
+          >
+            {editTools.map((tool) => (
+              <button
+                key={tool}
+                onClick={() => setEditTool(tool)}
+                className={`px-2 py-1 text-xs font-medium rounded ${editTool === tool ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}
+              >
+                {tool === 'brush' ? 'Brush' : SELECTION_TOOL_LABELS[tool]}
+              </button>
+            ))}
+          </div>
+          {editTool === 'magicWand' && (
+            <>
+              <label
+                className="flex items-center gap-1"
+                title="Largest level difference from the clicked cell that is still selected"
+              >
+                Tolerance
+                <input
+                  type="number"
+                  step={1}
+                  min={0}
+                  max={60}
+                  value={wandToleranceDb}
+                  onChange={(e) =>
+                    setWandToleranceDb(Math.max(0, Number(e.target.value)))
+                  }
+                  className="w-14 py-1 px-2 text-xs border-slate-300 rounded-md"
+                />
+                dB
+              </label>
+              <div
+                className="flex items-center space-x-1 bg-slate-100 p-1 rounded-md"
+                role="group"
+                aria-label="Wand connectivity"
+                title="Spread to the 4 side neighbours, or diagonally too"
+              >
+                {([4, 8] as WandConnectivity[]).map((n) => (
+                  <button
+                    key={n}
+                    onClick={() => setWandConnectivity(n)}
+                    className={`px-2 py-1 text-xs font-medium rounded ${wandConnectivity === n ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    {n}-way
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+          {selection ? (
+            <>
+              <label className="flex items-center gap-1">
+                Gain
+                <input
+                  type="number"
+                  step={1}
+                  min={-80}
+                  max={24}
+                  value={selectionGainDb}
+                  onChange={(e) => setSelectionGainDb(Number(e.target.value))}
+                  className="w-16 py-1 px-2 text-xs border-slate-300 rounded-md"
+                />
+                dB
+              </label>
+              <button
+                className={buttonClasses}
+                onClick={() =>
+                  editSelection(
+                    `Selection gain ${selectionGainDb > 0 ? '+' : ''}${selectionGainDb} dB`,
+                    (next, weights) =>
+                      applySelectionGain(next, weights, selectionGainDb),
+                  )
+                }
+              >
+                Apply Gain
+              </button>
+              <button
+                className={buttonClasses}
+                title="Apply the brush settings to every selected cell, as a stroke would"
+                onClick={() =>
+                  editSelection(
+                    `Brush selection (${brushParams.brushMode})`,
+                    (next, weights) =>
+                      applyBrushToSelection(next, weights, brushParams),
+                  )
+                }
+              >
+                Apply Brush
+              </button>
+              <button
+                className={buttonClasses}
+                onClick={() =>
+                  editSelection('Silence selection', silenceSelection)
+                }
+              >
+                Silence
+              </button>
+              <button
+                className={buttonClasses}
+                aria-pressed={selection.inverted}
+                onClick={() =>
+                  setSelection({ ...selection, inverted: !selection.inverted })
+                }
+              >
+                {selection.inverted ? 'Uninvert' : 'Invert'}
+              </button>
+              <label
+                className="flex items-center gap-1"
+                title="Width of the soft edge, in STFT cells"
+              >
+                Feather
+                <input
+                  type="number"
+                  step={1}
+                  min={0}
+                  max={64}
+                  value={selection.feather}
+                  onChange={(e) =>
+                    setSelection({
+                      ...selection,
+                      feather: Math.max(0, Number(e.target.value)),
+                    })
+                  }
+                  className="w-14 py-1 px-2 text-xs border-slate-300 rounded-md"
+                />
+              </label>
+              <button
+                className={buttonClasses}
+                onClick={() => copySelection('mask')}
+              >
+                Copy Mask
+              </button>
+              <button
+                className={buttonClasses}
+                disabled={!channelStfts}
+                onClick={() => copySelection('content')}
+                title="Copy the original spectral content under the selection"
+              >
+                Copy Audio
+              </button>
+              <button
+                className={buttonClasses}
+                onClick={() => setSelection(null)}
+              >
+                Deselect
+              </button>
+            </>
+          ) : (
+            editTool !== 'brush' && (
+              <span className="text-slate-500">
+                {editTool === 'magicWand'
+                  ? 'Click to select the connected cells of a similar level.'
+                  : 'Drag to select; click to deselect.'}
+              </span>
+            )
+          )}
+          {clipboard && (
+            <div className="flex items-center gap-2 ml-auto">
+              <span className="text-slate-500">
+                {clipboard.kind === 'mask' ? 'Mask' : 'Audio'} clip,{' '}
+                {clipboard.frames} frames
+              </span>
+              <button
+                className={buttonClasses}
+                disabled={markerFrame === null || !mask}
+                title="Paste with the clip's first frame at the marker. Click the waveform to move the marker."
+                onClick={() =>
+                  markerFrame !== null &&
+                  editSelectionPaste(clipboard, markerFrame)
+                }
+              >
+                Paste at Marker
+              </button>
+            </div>
+          )}
+        </div>
+      )}
       <div className="flex gap-4 h-80">
-        <div className="flex flex-col justify-between text-xs text-slate-500 py-1 text-right">
-          {freqLabels.map(({ label }) => (
-            <div key={label}>{label}</div>
+        <div className="relative w-16 shrink-0 text-xs text-slate-500 text-right">
+          {ticks.map(({ hz, position, label }) => (
+            <div
+              key={hz}
+              className="absolute right-0 -translate-y-1/2 whitespace-nowrap"
+              style={{ top: `${(1 - position) * 100}%` }}
+            >
+              {label}
+            </div>
           ))}
         </div>
-        <div className="flex-1 overflow-hidden border border-slate-200 rounded bg-slate-100">
+        <div className="relative flex-1 overflow-hidden border border-slate-200 rounded bg-slate-100">
           <canvas
             ref={canvasRef}
             className={`w-full h-full object-contain ${cursorClass}`}
@@ -335,14 +1547,130 @@ const SpectrogramDisplay: React.FC<SpectrogramDisplayProps> = ({
             onPointerDown={handlePointerDown}
             onPointerMove={handlePointerMove}
             onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
             onPointerLeave={() => {
               setMousePos(null);
               lastPointerPosRef.current = null;
             }}
           />
+          <Playhead getTime={playheadTime} range={visibleTimes} />
+          {mousePos && (
+            <div className="absolute top-1 right-1 flex flex-col items-end px-2 py-1 rounded bg-slate-900/75 text-white text-xs font-mono pointer-events-none">
+              <CellReadout cell={describeCell(mousePos)} />
+            </div>
+          )}
         </div>
       </div>
-      {viewType === 'difference' && <DifferenceLegend />}
+      <div className="flex gap-4">
+        <div className="w-16 shrink-0" />
+        <div className="relative flex-1 h-5 text-xs text-slate-500">
+          {timeTicks.map((t) => (
+            <div
+              key={t}
+              className="absolute top-0 -translate-x-1/2 flex flex-col items-center"
+              style={{
+                left: `${((t - timeStart) / (timeEnd - timeStart)) * 100}%`,
+              }}
+            >
+              <div className="w-px h-1 bg-slate-400" />
+              <span>{t.toFixed(timeDecimals)} s</span>
+            </div>
+          ))}
+        </div>
+      </div>
+      {pinnedCell && (
+        <div className="flex flex-wrap items-center gap-x-3 mt-2 px-2 py-1 rounded bg-slate-100 text-xs text-slate-700 font-mono">
+          <span className="font-sans font-semibold">Pinned</span>
+          <CellReadout cell={describeCell(pinnedCell)} />
+          <button
+            onClick={() => setPinnedCell(null)}
+            className="ml-auto font-sans text-slate-500 hover:text-slate-800"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+      {viewType === 'difference' ? (
+        <DifferenceLegend />
+      ) : (
+        <div className="flex flex-wrap items-center justify-between gap-4 mt-2 text-xs text-slate-600">
+          <ColorBar
+            colormap={colormap}
+            floorDb={viewType === 'error' ? ERROR_DB_FLOOR : floorDb}
+            ceilDb={viewType === 'error' ? ERROR_DB_CEIL : ceilDb}
+            title={viewType === 'error' ? 'Error Magnitude' : 'Level'}
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1">
+              Colormap
+              <select
+                value={colormap}
+                onChange={(e) => setColormap(e.target.value as Colormap)}
+                className="py-1 pl-2 pr-7 text-xs border-slate-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                {(Object.entries(COLORMAP_LABELS) as [Colormap, string][]).map(
+                  ([name, label]) => (
+                    <option key={name} value={name}>
+                      {label}
+                    </option>
+                  ),
+                )}
+              </select>
+            </label>
+            {viewType === 'intensity' && (
+              <>
+                <label className="flex items-center gap-1">
+                  Floor
+                  <input
+                    type="number"
+                    step={5}
+                    value={floorDb}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!Number.isFinite(value)) return;
+                      setManualRange({
+                        floorDb: Math.min(value, ceilDb - 1),
+                        ceilDb,
+                      });
+                      setIsAutoRange(false);
+                    }}
+                    className="w-16 py-1 px-1 text-xs border-slate-300 rounded-md"
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  Ceiling
+                  <input
+                    type="number"
+                    step={5}
+                    value={ceilDb}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!Number.isFinite(value)) return;
+                      setManualRange({
+                        floorDb,
+                        ceilDb: Math.max(value, floorDb + 1),
+                      });
+                      setIsAutoRange(false);
+                    }}
+                    className="w-16 py-1 px-1 text-xs border-slate-300 rounded-md"
+                  />
+                </label>
+                <label
+                  className="flex items-center gap-1"
+                  title="Fit the range to the loaded file: the ceiling above its loudest cell, the floor near its quietest."
+                >
+                  <input
+                    type="checkbox"
+                    checked={isAutoRange}
+                    onChange={(e) => setIsAutoRange(e.target.checked)}
+                  />
+                  Auto
+                </label>
+              </>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+
+import { StftParams } from '../types';
+import { analyzeWindow, createWindow } from '../services/windows';
+
+interface WindowPreviewProps {
+  params: StftParams;
+}
+
+const PREVIEW_LENGTH = 256;
+const WIDTH = 240;
+const HEIGHT = 64;
+
+const WindowPreview: React.FC<WindowPreviewProps> = ({ params }) => {
+  const { window: type, windowSymmetry, windowShape } = params;
+
+  const { path, figures } = useMemo(() => {
+    const window = createWindow(
+      PREVIEW_LENGTH,
+      type,
+      windowSymmetry,
+      windowShape,
+    );
+    const maxValue = Math.max(...window, 1e-12);
+    const points = Array.from(window, (v, i) => {
+      const x = (i / (PREVIEW_LENGTH - 1)) * WIDTH;
+      const y = HEIGHT - 4 - (v / maxValue) * (HEIGHT - 8);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    });
+    return { path: `M${points.join('L')}`, figures: analyzeWindow(window) };
+  }, [type, windowSymmetry, windowShape]);
+
+  return (
+    <div className="bg-slate-100 p-3 rounded-md">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-16"
+        preserveAspectRatio="none"
+        aria-label="Window shape"
+      >
+        <line
+          x1={0}
+          y1={HEIGHT - 4}
+          x2={WIDTH}
+          y2={HEIGHT - 4}
+          stroke="#cbd5e1"
+          strokeWidth={1}
+        />
+        <path d={path} fill="none" stroke="#2563eb" strokeWidth={1.5} />
+      </svg>
+      <dl className="grid grid-cols-3 gap-2 mt-2 text-xs text-slate-600">
+        <div title="Null-to-null width of the main lobe">
+          <dt>Main lobe</dt>
+          <dd className="font-mono text-slate-800">
+            {figures.mainLobeWidthBins.toFixed(2)} bins
+          </dd>
+        </div>
+        <div title="Highest side lobe relative to the main lobe peak">
+          <dt>Side lobe</dt>
+          <dd className="font-mono text-slate-800">
+            {figures.peakSidelobeDb.toFixed(1)} dB
+          </dd>
+        </div>
+        <div title="Equivalent noise bandwidth">
+          <dt>ENBW</dt>
+          <dd className="font-mono text-slate-800">
+            {figures.enbwBins.toFixed(2)} bins
+          </dd>
+        </div>
+      </dl>
+    </div>
+  );
+};
+
+export default WindowPreview;
@@ -1,4 +1,12 @@
-import { StftParams, GlitchParams, BrushParams } from './types';
+import {
+  StftParams,
+  GlitchParams,
+  SpectralGlitchParams,
+  BrushParams,
+  GenerativeMode,
+  SignalGeneratorParams,
+  TransformParams,
+} from './types';
 
 export const DEFAULT_PARAMS: Omit<StftParams, 'sr' | 'duration'> & {
   sr: number;
@@ -9,18 +17,87 @@ export const DEFAULT_PARAMS: Omit<StftParams, 'sr' | 'duration'> & {
   nfft: 1024,
   hopLength: 512, // nfft / 2 for perfect reconstruction with Hann window
   window: 'hann',
+  windowSymmetry: 'periodic',
+  windowShape: {
+    tukeyAlpha: 0.5,
+    gaussianSigma: 0.4,
+    kaiserBeta: 8.6,
+  },
+  center: true,
+  padMode: 'zero',
+  padValue: 0,
 };
 
 export const DEFAULT_GLITCH_PARAMS: GlitchParams = {
+  chunkSize: 512,
   stutterChance: 0,
   stutterDuration: 50, // ms
   dropChance: 0,
   clipChance: 0,
+  clipThreshold: 0.2,
   jitterChance: 0,
+  jitterAmount: 10, // ms
+  bitcrushChance: 0,
+  bitDepth: 4,
+  downsampleFactor: 4,
+  reverseChance: 0,
+  tapeStopChance: 0,
+  tapeStopDuration: 300, // ms
+};
+
+export const DEFAULT_SPECTRAL_GLITCH_PARAMS: SpectralGlitchParams = {
+  freezeChance: 0,
+  freezeLength: 8, // frames
+  smearChance: 0,
+  smearAmount: 0.7,
+  quantizeChance: 0,
+  quantizeStep: 6, // dB
+  shuffleChance: 0,
+  shuffleRange: 4, // bins
+  phaseScrambleChance: 0,
+  phaseScrambleAmount: 1,
 };
 
 export const DEFAULT_BRUSH_PARAMS: BrushParams = {
   radius: 10, // bins
   gainDb: -60, // A strong default for noise removal
   brushMode: 'subtractive',
+  generativeMode: 'tone',
+  harmonic: false,
+  harmonicCount: 8,
+  harmonicRolloffDb: 0,
+  inharmonicity: 0,
+};
+
+export const DEFAULT_SIGNAL_GENERATOR_PARAMS: SignalGeneratorParams = {
+  type: 'sine',
+  duration: 2, // s
+  sampleRate: 44100,
+  amplitudeDb: -6,
+  frequency: 440,
+  endFrequency: 8000,
+  frequencies: [220, 440, 880, 1760],
+  modFrequency: 5,
+  modDepth: 0.5,
+  modIndex: 5,
+};
+
+// Seed for glitches and generative noise until the user picks another.
+export const DEFAULT_SEED = 1;
+
+export const DEFAULT_TRANSFORM_PARAMS: TransformParams = {
+  spectralEdit: {
+    enabled: false,
+    brush: DEFAULT_BRUSH_PARAMS,
+    linkChannels: false,
+  },
+  spectralGlitch: { enabled: false, params: DEFAULT_SPECTRAL_GLITCH_PARAMS },
+  audioGlitch: { enabled: false, params: DEFAULT_GLITCH_PARAMS },
+  seed: DEFAULT_SEED,
+};
+
+// Per-cell values of SpectralMask.generativeModeLayer.
+export const GENERATIVE_MODE_CODES: Record<GenerativeMode, number> = {
+  tone: 0,
+  noise: 1,
 };
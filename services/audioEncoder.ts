@@ -0,0 +1,468 @@
+// Pure TypeScript encoders for RIFF WAV and FLAC, so reconstructed audio can be
+// downloaded without any browser codec support.
+
+export type WavSampleFormat = 'pcm16' | 'pcm24' | 'float32';
+export type FlacBitDepth = 16 | 24;
+
+export interface EncodeOptions {
+  // Add triangular (TPDF) dither of +-1 LSB before quantizing to integers.
+  dither: boolean;
+}
+
+// #region Quantization
+const quantize = (
+  channel: Float32Array,
+  bits: number,
+  dither: boolean,
+): Int32Array => {
+  const scale = 2 ** (bits - 1);
+  const max = scale - 1;
+  const min = -scale;
+  const out = new Int32Array(channel.length);
+  for (let i = 0; i < channel.length; i++) {
+    let v = channel[i] * scale;
+    if (dither) v += Math.random() - Math.random();
+    out[i] = Math.max(min, Math.min(max, Math.round(v)));
+  }
+  return out;
+};
+// #endregion
+
+// #region WAV
+const writeAscii = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++)
+    view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+export const encodeWav = (
+  channels: Float32Array[],
+  sampleRate: number,
+  format: WavSampleFormat,
+  { dither }: EncodeOptions,
+): ArrayBuffer => {
+  const numChannels = channels.length;
+  const length = numChannels > 0 ? channels[0].length : 0;
+  const isFloat = format === 'float32';
+  const bytesPerSample = format === 'pcm16' ? 2 : format === 'pcm24' ? 3 : 4;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+  // IEEE float data needs a 'fact' chunk holding the sample frame count.
+  const factSize = isFloat ? 12 : 0;
+  const buffer = new ArrayBuffer(44 + factSize + dataSize);
+  const view = new DataView(buffer);
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + factSize + dataSize, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, isFloat ? 3 : 1, true); // 3 = IEEE float, 1 = PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  let offset = 36;
+  if (isFloat) {
+    writeAscii(view, offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, length, true);
+    offset += 12;
+  }
+  writeAscii(view, offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+
+  const samples = isFloat
+    ? null
+    : channels.map((c) => quantize(c, bytesPerSample * 8, dither));
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      if (samples === null) {
+        view.setFloat32(offset, channels[c][i], true);
+      } else if (bytesPerSample === 2) {
+        view.setInt16(offset, samples[c][i], true);
+      } else {
+        const v = samples[c][i];
+        view.setUint8(offset, v & 0xff);
+        view.setUint8(offset + 1, (v >> 8) & 0xff);
+        view.setUint8(offset + 2, (v >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return buffer;
+};
+// #endregion
+
+// #region FLAC
+const FLAC_BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 6;
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0; // Whole bytes written
+  private current = 0; // Pending bits, MSB first
+  private pendingBits = 0;
+
+  get byteLength() {
+    return this.length;
+  }
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  // Writes the low `count` bits of `value` (count <= 32), MSB first.
+  write(value: number, count: number) {
+    if (count > 24) {
+      this.write(Math.floor(value / 2 ** 16) & 0xffff, count - 16);
+      this.write(value & 0xffff, 16);
+      return;
+    }
+    this.ensure(4);
+    for (let i = count - 1; i >= 0; i--) {
+      this.current = (this.current << 1) | ((value >>> i) & 1);
+      if (++this.pendingBits === 8) {
+        this.bytes[this.length++] = this.current;
+        this.current = 0;
+        this.pendingBits = 0;
+      }
+    }
+  }
+
+  writeUnary(zeros: number) {
+    for (; zeros >= 24; zeros -= 24) this.write(0, 24);
+    this.write(1, zeros + 1);
+  }
+
+  alignToByte() {
+    if (this.pendingBits > 0) this.write(0, 8 - this.pendingBits);
+  }
+
+  // Bytes written so far; only meaningful when byte-aligned.
+  view(start = 0, end = this.length): Uint8Array {
+    return this.bytes.subarray(start, end);
+  }
+}
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc8 = i;
+  let crc16 = i << 8;
+  for (let j = 0; j < 8; j++) {
+    crc8 = crc8 & 0x80 ? ((crc8 << 1) ^ 0x07) & 0xff : (crc8 << 1) & 0xff;
+    crc16 =
+      crc16 & 0x8000 ? ((crc16 << 1) ^ 0x8005) & 0xffff : (crc16 << 1) & 0xffff;
+  }
+  CRC8_TABLE[i] = crc8;
+  CRC16_TABLE[i] = crc16;
+}
+
+const crc8 = (bytes: Uint8Array) =>
+  bytes.reduce((crc, b) => CRC8_TABLE[crc ^ b], 0);
+
+const crc16 = (bytes: Uint8Array) =>
+  bytes.reduce(
+    (crc, b) => ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ b],
+    0,
+  );
+
+// FLAC's UTF-8-like variable length coding of the frame number.
+const writeUtf8Number = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  // n continuation bytes carry 6 bits each; the lead byte keeps 6 - n bits.
+  let continuationBytes = 1;
+  while (value >= 2 ** (6 + 5 * continuationBytes)) continuationBytes++;
+  const lead = (0xff << (7 - continuationBytes)) & 0xff;
+  writer.write(lead | Math.floor(value / 2 ** (6 * continuationBytes)), 8);
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+};
+
+// Residual of the fixed polynomial predictor of the given order.
+const fixedResidual = (samples: Int32Array, order: number): Float64Array => {
+  const residual = new Float64Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let prediction = 0;
+    if (order === 1) prediction = s[i - 1];
+    else if (order === 2) prediction = 2 * s[i - 1] - s[i - 2];
+    else if (order === 3) prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3];
+    else if (order === 4)
+      prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4];
+    residual[i - order] = s[i] - prediction;
+  }
+  return residual;
+};
+
+const zigzag = (v: number) => (v >= 0 ? 2 * v : -2 * v - 1);
+
+interface RicePlan {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+// Picks the partition order and per-partition Rice parameters with the
+// smallest encoded size.
+const planRice = (
+  residual: Float64Array,
+  blockSize: number,
+  predictorOrder: number,
+): RicePlan => {
+  let best: RicePlan | null = null;
+  for (let order = 0; order <= MAX_PARTITION_ORDER; order++) {
+    const partitions = 1 << order;
+    if (blockSize % partitions !== 0) break;
+    const partitionSize = blockSize / partitions;
+    if (partitionSize <= predictorOrder) break;
+
+    const parameters: number[] = [];
+    let bits = 0;
+    let start = 0;
+    for (let p = 0; p < partitions; p++) {
+      const count = partitionSize - (p === 0 ? predictorOrder : 0);
+      let sum = 0;
+      for (let i = start; i < start + count; i++) sum += zigzag(residual[i]);
+      let bestK = 0;
+      let bestBits = Infinity;
+      const guess = Math.max(0, Math.floor(Math.log2(sum / count + 1)));
+      for (let k = Math.max(0, guess - 1); k <= Math.min(30, guess + 1); k++) {
+        // Each value costs k low bits, a terminating 1 and (u >> k) zeros.
+        let partitionBits = count * (k + 1);
+        for (let i = start; i < start + count; i++)
+          partitionBits += Math.floor(zigzag(residual[i]) / 2 ** k);
+        if (partitionBits < bestBits) {
+          bestBits = partitionBits;
+          bestK = k;
+        }
+      }
+      parameters.push(bestK);
+      bits += bestBits + 5;
+      start += count;
+    }
+    if (!best || bits < best.bits)
+      best = { partitionOrder: order, parameters, bits };
+  }
+  return best ?? { partitionOrder: 0, parameters: [0], bits: Infinity };
+};
+
+const writeSubframe = (
+  writer: BitWriter,
+  samples: Int32Array,
+  bitsPerSample: number,
+) => {
+  const blockSize = samples.length;
+  if (samples.every((v) => v === samples[0])) {
+    writer.write(0, 1);
+    writer.write(0b000000, 6); // CONSTANT
+    writer.write(0, 1);
+    writer.write(samples[0] >>> 0, bitsPerSample);
+    return;
+  }
+
+  let bestOrder = -1;
+  let bestPlan: RicePlan | null = null;
+  let bestResidual: Float64Array | null = null;
+  for (
+    let order = 0;
+    order <= Math.min(MAX_FIXED_ORDER, blockSize - 1);
+    order++
+  ) {
+    const residual = fixedResidual(samples, order);
+    const plan = planRice(residual, blockSize, order);
+    const total = plan.bits + order * bitsPerSample;
+    const bestTotal = bestPlan
+      ? bestPlan.bits + bestOrder * bitsPerSample
+      : Infinity;
+    if (total < bestTotal) {
+      bestOrder = order;
+      bestPlan = plan;
+      bestResidual = residual;
+    }
+  }
+
+  const verbatimBits = blockSize * bitsPerSample;
+  if (
+    !bestPlan ||
+    !bestResidual ||
+    bestPlan.bits + bestOrder * bitsPerSample >= verbatimBits
+  ) {
+    writer.write(0, 1);
+    writer.write(0b000001, 6); // VERBATIM
+    writer.write(0, 1);
+    for (const v of samples) writer.write(v >>> 0, bitsPerSample);
+    return;
+  }
+
+  writer.write(0, 1);
+  writer.write(0b001000 | bestOrder, 6); // FIXED
+  writer.write(0, 1);
+  for (let i = 0; i < bestOrder; i++)
+    writer.write(samples[i] >>> 0, bitsPerSample);
+
+  // Rice parameters above 14 need the 5-bit parameter variant (RICE2).
+  const useRice2 = bestPlan.parameters.some((k) => k > 14);
+  writer.write(useRice2 ? 1 : 0, 2);
+  writer.write(bestPlan.partitionOrder, 4);
+  const partitions = 1 << bestPlan.partitionOrder;
+  const partitionSize = blockSize / partitions;
+  let index = 0;
+  for (let p = 0; p < partitions; p++) {
+    const k = bestPlan.parameters[p];
+    writer.write(k, useRice2 ? 5 : 4);
+    const count = partitionSize - (p === 0 ? bestOrder : 0);
+    for (let i = 0; i < count; i++) {
+      const u = zigzag(bestResidual[index++]);
+      writer.writeUnary(Math.floor(u / 2 ** k));
+      if (k > 0) writer.write(u % 2 ** k, k);
+    }
+  }
+};
+
+export const encodeFlac = (
+  channels: Float32Array[],
+  sampleRate: number,
+  bitsPerSample: FlacBitDepth,
+  { dither }: EncodeOptions,
+): ArrayBuffer => {
+  const numChannels = channels.length;
+  if (numChannels < 1 || numChannels > 8)
+    throw new Error('FLAC supports 1 to 8 channels');
+  const length = channels[0].length;
+  const samples = channels.map((c) => quantize(c, bitsPerSample, dither));
+  const blockSize = Math.max(16, Math.min(FLAC_BLOCK_SIZE, length));
+
+  const writer = new BitWriter();
+  writer.write(0x664c6143, 32); // "fLaC"
+
+  // STREAMINFO, flagged as the last metadata block.
+  writer.write(1, 1);
+  writer.write(0, 7);
+  writer.write(34, 24);
+  writer.write(blockSize, 16);
+  writer.write(blockSize, 16);
+  writer.write(0, 24); // Min/max frame size unknown
+  writer.write(0, 24);
+  writer.write(sampleRate, 20);
+  writer.write(numChannels - 1, 3);
+  writer.write(bitsPerSample - 1, 5);
+  writer.write(Math.floor(length / 2 ** 32), 4);
+  writer.write(length >>> 0, 32);
+  for (let i = 0; i < 4; i++) writer.write(0, 32); // MD5 unknown
+
+  for (
+    let start = 0, frameNumber = 0;
+    start < length;
+    start += blockSize, frameNumber++
+  ) {
+    const size = Math.min(blockSize, length - start);
+    const frameStart = writer.byteLength;
+
+    writer.write(0b11111111111110, 14); // Sync code
+    writer.write(0, 1);
+    writer.write(0, 1); // Fixed block size stream
+    writer.write(0b0111, 4); // Block size stored as 16 bits after the header
+    writer.write(0b0000, 4); // Sample rate from STREAMINFO
+    writer.write(numChannels - 1, 4); // Independent channels
+    writer.write(bitsPerSample === 16 ? 0b100 : 0b110, 3);
+    writer.write(0, 1);
+    writeUtf8Number(writer, frameNumber);
+    writer.write(size - 1, 16);
+    writer.write(crc8(writer.view(frameStart)), 8);
+
+    for (const channel of samples)
+      writeSubframe(
+        writer,
+        channel.subarray(start, start + size),
+        bitsPerSample,
+      );
+
+    writer.alignToByte();
+    writer.write(crc16(writer.view(frameStart)), 16);
+  }
+
+  return writer.view().slice().buffer;
+};
+// #endregion
+
+// #region Export
+export type AudioExportFormat =
+  'wav-pcm16' | 'wav-pcm24' | 'wav-float32' | 'flac-16' | 'flac-24';
+
+export const AUDIO_EXPORT_FORMATS: Record<
+  AudioExportFormat,
+  { label: string; extension: string; mimeType: string; quantized: boolean }
+> = {
+  'wav-pcm16': {
+    label: 'WAV 16-bit PCM',
+    extension: 'wav',
+    mimeType: 'audio/wav',
+    quantized: true,
+  },
+  'wav-pcm24': {
+    label: 'WAV 24-bit PCM',
+    extension: 'wav',
+    mimeType: 'audio/wav',
+    quantized: true,
+  },
+  'wav-float32': {
+    label: 'WAV 32-bit float',
+    extension: 'wav',
+    mimeType: 'audio/wav',
+    quantized: false,
+  },
+  'flac-16': {
+    label: 'FLAC 16-bit',
+    extension: 'flac',
+    mimeType: 'audio/flac',
+    quantized: true,
+  },
+  'flac-24': {
+    label: 'FLAC 24-bit',
+    extension: 'flac',
+    mimeType: 'audio/flac',
+    quantized: true,
+  },
+};
+
+export const encodeAudio = (
+  channels: Float32Array[],
+  sampleRate: number,
+  format: AudioExportFormat,
+  options: EncodeOptions,
+): Blob => {
+  const { mimeType } = AUDIO_EXPORT_FORMATS[format];
+  const data =
+    format === 'flac-16' || format === 'flac-24'
+      ? encodeFlac(
+          channels,
+          sampleRate,
+          format === 'flac-16' ? 16 : 24,
+          options,
+        )
+      : encodeWav(
+          channels,
+          sampleRate,
+          format === 'wav-pcm16'
+            ? 'pcm16'
+            : format === 'wav-pcm24'
+              ? 'pcm24'
+              : 'float32',
+          options,
+        );
+  return new Blob([data], { type: mimeType });
+};
+// #endregion
@@ -0,0 +1,181 @@
+import {
+  GlitchEvent,
+  GlitchParams,
+  GlitchType,
+  StftParams,
+  TransformParams,
+} from '../types';
+import { createRng } from '../utils';
+
+// Time-domain glitches, applied after resynthesis. They are scheduled first
+// and rendered second, so the schedule can be shown alongside the audio.
+// Decisions are shared by all channels so the stereo image stays intact.
+
+export const GLITCH_LABELS: Record<GlitchType, string> = {
+  stutter: 'Stutter',
+  drop: 'Drop',
+  clip: 'Clip',
+  jitter: 'Jitter',
+  bitcrush: 'Bitcrush',
+  reverse: 'Reverse',
+  tapeStop: 'Tape stop',
+};
+
+const msToSamples = (ms: number, sr: number) =>
+  Math.max(1, Math.round((sr * ms) / 1000));
+
+// Random values drawn per chunk; see `scheduleGlitches`.
+const DRAWS_PER_CHUNK = 8;
+
+export const scheduleGlitches = (
+  length: number,
+  sr: number,
+  glitch: GlitchParams,
+  seed: number,
+): GlitchEvent[] => {
+  const random = createRng(seed);
+  const chunkSize = Math.max(1, Math.round(glitch.chunkSize));
+  const events: GlitchEvent[] = [];
+
+  for (let i = 0; i < length;) {
+    // Every chunk draws the same number of values, so changing one effect's
+    // chance does not move where the others land.
+    const [stutter, tapeStop, reverse, jitter, shift, bitcrush, clip, drop] =
+      Array.from({ length: DRAWS_PER_CHUNK }, random);
+    let end = Math.min(length, i + chunkSize);
+
+    // At most one effect rearranges time in a chunk. Stutter and tape-stop
+    // can outlast the chunk; scheduling resumes where they end.
+    if (stutter < glitch.stutterChance && i > 0) {
+      end = Math.min(length, i + msToSamples(glitch.stutterDuration, sr));
+      events.push({ type: 'stutter', start: i, end });
+    } else if (tapeStop < glitch.tapeStopChance) {
+      end = Math.min(length, i + msToSamples(glitch.tapeStopDuration, sr));
+      events.push({ type: 'tapeStop', start: i, end });
+    } else if (reverse < glitch.reverseChance) {
+      events.push({ type: 'reverse', start: i, end });
+    } else if (jitter < glitch.jitterChance) {
+      const maxShift = msToSamples(glitch.jitterAmount, sr);
+      const offset = Math.round((2 * shift - 1) * maxShift);
+      events.push({ type: 'jitter', start: i, end, offset });
+    }
+
+    // Level effects apply on top, in this order.
+    if (bitcrush < glitch.bitcrushChance)
+      events.push({ type: 'bitcrush', start: i, end });
+    if (clip < glitch.clipChance) events.push({ type: 'clip', start: i, end });
+    if (drop < glitch.dropChance) events.push({ type: 'drop', start: i, end });
+
+    i = end;
+  }
+  return events;
+};
+
+// #region Renderers
+// Each renderer writes one event into `output`. Effects that move audio in
+// time read the unglitched `source`; level effects work on `output` in place.
+type GlitchRenderer = (
+  source: Float32Array,
+  output: Float32Array,
+  event: GlitchEvent,
+  glitch: GlitchParams,
+) => void;
+
+const renderStutter: GlitchRenderer = (source, output, { start, end }, g) => {
+  // Repeats the chunk just before the event.
+  const from = Math.max(0, start - Math.max(1, Math.round(g.chunkSize)));
+  const length = start - from;
+  for (let s = start; s < end; s++)
+    output[s] = source[from + ((s - start) % length)];
+};
+
+const renderReverse: GlitchRenderer = (source, output, { start, end }) => {
+  for (let s = start; s < end; s++) output[s] = source[end - 1 - (s - start)];
+};
+
+const renderJitter: GlitchRenderer = (source, output, event) => {
+  const { start, end, offset = 0 } = event;
+  for (let s = start; s < end; s++) {
+    const from = Math.min(source.length - 1, Math.max(0, s + offset));
+    output[s] = source[from];
+  }
+};
+
+const renderTapeStop: GlitchRenderer = (source, output, { start, end }) => {
+  // The playback rate falls linearly from 1 to 0, so the read position
+  // advances by t - t^2 / 2D over the event's D samples.
+  const duration = end - start;
+  for (let t = 0; t < duration; t++) {
+    const position = start + t - (t * t) / (2 * duration);
+    const i = Math.floor(position);
+    const frac = position - i;
+    const next = Math.min(source.length - 1, i + 1);
+    output[start + t] = source[i] * (1 - frac) + source[next] * frac;
+  }
+};
+
+const renderBitcrush: GlitchRenderer = (_source, output, { start, end }, g) => {
+  const levels = Math.pow(2, Math.max(1, Math.round(g.bitDepth)) - 1);
+  const hold = Math.max(1, Math.round(g.downsampleFactor));
+  let held = 0;
+  for (let s = start; s < end; s++) {
+    if ((s - start) % hold === 0)
+      held = Math.round(output[s] * levels) / levels;
+    output[s] = held;
+  }
+};
+
+const renderClip: GlitchRenderer = (_source, output, { start, end }, g) => {
+  const threshold = Math.max(0, g.clipThreshold);
+  for (let s = start; s < end; s++)
+    output[s] = Math.min(threshold, Math.max(-threshold, output[s]));
+};
+
+const renderDrop: GlitchRenderer = (_source, output, { start, end }) => {
+  output.fill(0, start, end);
+};
+
+const GLITCH_RENDERERS: Record<GlitchType, GlitchRenderer> = {
+  stutter: renderStutter,
+  drop: renderDrop,
+  clip: renderClip,
+  jitter: renderJitter,
+  bitcrush: renderBitcrush,
+  reverse: renderReverse,
+  tapeStop: renderTapeStop,
+};
+// #endregion
+
+export const renderGlitches = (
+  channels: Float32Array[],
+  events: GlitchEvent[],
+  glitch: GlitchParams,
+): Float32Array[] =>
+  channels.map((source) => {
+    const output = new Float32Array(source);
+    for (const event of events)
+      GLITCH_RENDERERS[event.type](source, output, event, glitch);
+    return output;
+  });
+
+export const applyAudioGlitches = (
+  channels: Float32Array[],
+  params: StftParams,
+  transformParams: TransformParams,
+): { signals: Float32Array[]; glitchEvents: GlitchEvent[] } => {
+  if (!transformParams.audioGlitch.enabled)
+    return { signals: channels, glitchEvents: [] };
+
+  const { params: glitch } = transformParams.audioGlitch;
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const glitchEvents = scheduleGlitches(
+    length,
+    params.sr,
+    glitch,
+    transformParams.seed,
+  );
+  return {
+    signals: renderGlitches(channels, glitchEvents, glitch),
+    glitchEvents,
+  };
+};
@@ -0,0 +1,218 @@
+import { PlaybackSource } from '../types';
+
+import { TimeRange } from './waveform';
+
+// Fades on start/stop/seek, so playback never starts or ends mid-cycle with
+// an audible click.
+const FADE_SECONDS = 0.01;
+// A/B switches. The sources play in lockstep, so this is a plain linear
+// crossfade: original and reconstructed are nearly identical, and an
+// equal-power curve would bump the level by 3 dB halfway through.
+const CROSSFADE_SECONDS = 0.03;
+
+const SOURCES: PlaybackSource[] = ['original', 'reconstructed', 'difference'];
+
+// One start of playback: a node per available source, all started at the same
+// context time and offset, each behind its own gain so the audible source can
+// be switched without touching the others.
+interface Voice {
+  nodes: Partial<Record<PlaybackSource, AudioBufferSourceNode>>;
+  gains: Partial<Record<PlaybackSource, GainNode>>;
+  output: GainNode;
+}
+
+// Reconstructed minus original, channel by channel.
+const differenceBuffer = (
+  context: BaseAudioContext,
+  original: AudioBuffer,
+  reconstructed: AudioBuffer,
+): AudioBuffer => {
+  const channels = Math.min(
+    original.numberOfChannels,
+    reconstructed.numberOfChannels,
+  );
+  const length = Math.min(original.length, reconstructed.length);
+  const buffer = context.createBuffer(channels, length, original.sampleRate);
+  for (let c = 0; c < channels; c++) {
+    const a = original.getChannelData(c);
+    const b = reconstructed.getChannelData(c);
+    const out = buffer.getChannelData(c);
+    for (let i = 0; i < length; i++) out[i] = b[i] - a[i];
+  }
+  return buffer;
+};
+
+// Plays the original, the reconstruction and their difference in sync, with
+// one of them audible at a time. Because every source runs continuously from
+// the same start time, switching between them is sample-accurate; only the
+// gains move.
+export class AudioPlayer {
+  private context: AudioContext;
+  private buffers: Partial<Record<PlaybackSource, AudioBuffer>> = {};
+  private voice: Voice | null = null;
+  private selected: PlaybackSource = 'original';
+  private loopRegion: TimeRange | null = null;
+  // Context time at which `startOffset` (s into the file) was heard.
+  private startedAt = 0;
+  private startOffset = 0;
+
+  // Called when playback runs off the end of the file (never while looping).
+  onEnded: (() => void) | null = null;
+
+  constructor(context: AudioContext) {
+    this.context = context;
+  }
+
+  get isPlaying(): boolean {
+    return this.voice !== null;
+  }
+
+  get duration(): number {
+    return this.buffers.original?.duration ?? 0;
+  }
+
+  get source(): PlaybackSource {
+    return this.selected;
+  }
+
+  // Current position in the file, in seconds.
+  get position(): number {
+    if (!this.voice) return this.startOffset;
+    const elapsed = Math.max(0, this.context.currentTime - this.startedAt);
+    const position = this.startOffset + elapsed;
+    const loop = this.loopRegion;
+    if (!loop || position < loop.end) return Math.min(position, this.duration);
+    const span = loop.end - loop.start;
+    return loop.start + ((position - loop.start) % span);
+  }
+
+  // Replacing the buffers mid-playback carries on from the same position.
+  setSignals(original: AudioBuffer | null, reconstructed: AudioBuffer | null) {
+    this.buffers = {
+      original: original ?? undefined,
+      reconstructed: reconstructed ?? undefined,
+      difference:
+        original && reconstructed
+          ? differenceBuffer(this.context, original, reconstructed)
+          : undefined,
+    };
+    if (!original) {
+      this.stop();
+      this.startOffset = 0;
+    } else if (this.voice) {
+      this.play(this.position);
+    } else {
+      this.startOffset = Math.min(this.startOffset, this.duration);
+    }
+  }
+
+  // Starts (or restarts) playback at `offset` seconds.
+  play(offset = this.position) {
+    if (!this.buffers.original) return;
+    void this.context.resume();
+    this.fadeOut();
+    const loop = this.loopRegion;
+    let start = Math.max(0, Math.min(offset, this.duration));
+    if (loop && (start < loop.start || start >= loop.end)) start = loop.start;
+    if (!loop && start >= this.duration) start = 0;
+
+    const now = this.context.currentTime;
+    const output = this.context.createGain();
+    output.gain.setValueAtTime(0, now);
+    output.gain.linearRampToValueAtTime(1, now + FADE_SECONDS);
+    output.connect(this.context.destination);
+    const voice: Voice = { nodes: {}, gains: {}, output };
+    for (const source of SOURCES) {
+      const buffer = this.buffers[source];
+      if (!buffer) continue;
+      const node = this.context.createBufferSource();
+      node.buffer = buffer;
+      if (loop) {
+        node.loop = true;
+        node.loopStart = loop.start;
+        node.loopEnd = loop.end;
+      }
+      const gain = this.context.createGain();
+      gain.gain.value = source === this.selected ? 1 : 0;
+      node.connect(gain).connect(output);
+      node.start(now, start);
+      voice.nodes[source] = node;
+      voice.gains[source] = gain;
+    }
+    // The original is always there and is the longest buffer.
+    const primary = voice.nodes.original;
+    if (primary)
+      primary.onended = () => {
+        if (this.voice !== voice) return;
+        this.voice = null;
+        this.startOffset = 0;
+        output.disconnect();
+        this.onEnded?.();
+      };
+    this.voice = voice;
+    this.startedAt = now;
+    this.startOffset = start;
+  }
+
+  // Stops, remembering the position for the next play().
+  pause() {
+    this.startOffset = this.position;
+    this.fadeOut();
+  }
+
+  stop() {
+    this.fadeOut();
+    this.startOffset = 0;
+  }
+
+  seek(time: number) {
+    if (this.voice) this.play(time);
+    else this.startOffset = Math.max(0, Math.min(time, this.duration));
+  }
+
+  // Crossfades to another source at the current position.
+  select(source: PlaybackSource) {
+    this.selected = source;
+    if (!this.voice) return;
+    const now = this.context.currentTime;
+    for (const name of SOURCES) {
+      const param = this.voice.gains[name]?.gain;
+      if (!param) continue;
+      param.cancelScheduledValues(now);
+      param.setValueAtTime(param.value, now);
+      param.linearRampToValueAtTime(
+        name === source ? 1 : 0,
+        now + CROSSFADE_SECONDS,
+      );
+    }
+  }
+
+  // Loops playback over `region`, or plays through to the end for null.
+  setLoop(region: TimeRange | null) {
+    const position = this.position;
+    const valid = region && region.end - region.start > FADE_SECONDS;
+    this.loopRegion = valid ? { ...region } : null;
+    if (this.voice) this.play(position);
+  }
+
+  dispose() {
+    this.onEnded = null;
+    this.fadeOut();
+  }
+
+  private fadeOut() {
+    const voice = this.voice;
+    if (!voice) return;
+    this.voice = null;
+    const now = this.context.currentTime;
+    const gain = voice.output.gain;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(0, now + FADE_SECONDS);
+    for (const node of Object.values(voice.nodes)) {
+      node.onended = null;
+      node.stop(now + FADE_SECONDS);
+    }
+    setTimeout(() => voice.output.disconnect(), FADE_SECONDS * 2000 + 50);
+  }
+}
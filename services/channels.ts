@@ -0,0 +1,87 @@
+import { ChannelView } from '../types';
+
+// Stored channels, in AudioBuffer order. Anything beyond stereo is ignored.
+export const BASE_CHANNEL_VIEWS: ChannelView[] = ['left', 'right'];
+export const MAX_CHANNELS = BASE_CHANNEL_VIEWS.length;
+
+export const getChannelViews = (channelCount: number): ChannelView[] =>
+  channelCount >= 2 ? ['left', 'right', 'mid', 'side'] : ['left'];
+
+export const getChannelViewLabel = (
+  view: ChannelView,
+  channelCount: number,
+): string => {
+  if (channelCount < 2) return 'Mono';
+  return { left: 'Left', right: 'Right', mid: 'Mid', side: 'Side' }[view];
+};
+
+export const isDerivedView = (view: ChannelView) =>
+  view === 'mid' || view === 'side';
+
+// Views edited together when masks are linked: L with R, M with S.
+export const getLinkedViews = (
+  view: ChannelView,
+  available: ChannelView[],
+): ChannelView[] => {
+  const pair: ChannelView[] = isDerivedView(view)
+    ? ['mid', 'side']
+    : ['left', 'right'];
+  return pair.filter((v) => v !== view && available.includes(v));
+};
+
+// Mid = (L + R) / 2, Side = (L - R) / 2, so L = M + S and R = M - S.
+const MID_SIDE_WEIGHTS: Record<'mid' | 'side', [number, number]> = {
+  mid: [0.5, 0.5],
+  side: [0.5, -0.5],
+};
+
+export const deriveChannelSignal = (
+  channels: Float32Array[],
+  view: ChannelView,
+): Float32Array => {
+  if (!isDerivedView(view)) return channels[view === 'right' ? 1 : 0];
+  const [wa, wb] = MID_SIDE_WEIGHTS[view];
+  const [a, b] = channels;
+  return a.map((v, i) => wa * v + wb * b[i]);
+};
+
+// Weighted sum of two [bins][frames][re, im] STFTs. The STFT is linear, so
+// this gives the STFT of the same combination of the time signals.
+export const combineStfts = (
+  a: number[][][],
+  b: number[][][],
+  wa: number,
+  wb: number,
+): number[][][] =>
+  a.map((row, bin) =>
+    row.map(([re, im], frame) => {
+      const [reB, imB] = b[bin][frame];
+      return [wa * re + wb * reB, wa * im + wb * imB];
+    }),
+  );
+
+export const deriveChannelStft = (
+  channelStfts: number[][][][],
+  view: ChannelView,
+): number[][][] => {
+  if (!isDerivedView(view)) return channelStfts[view === 'right' ? 1 : 0];
+  const [wa, wb] = MID_SIDE_WEIGHTS[view];
+  return combineStfts(channelStfts[0], channelStfts[1], wa, wb);
+};
+
+// One [re, im] cell of the view's STFT, without deriving the whole STFT.
+export const deriveChannelCell = (
+  channelStfts: number[][][][],
+  view: ChannelView,
+  bin: number,
+  frame: number,
+): [number, number] => {
+  if (!isDerivedView(view)) {
+    const [re, im] = channelStfts[view === 'right' ? 1 : 0][bin][frame];
+    return [re, im];
+  }
+  const [wa, wb] = MID_SIDE_WEIGHTS[view];
+  const [reA, imA] = channelStfts[0][bin][frame];
+  const [reB, imB] = channelStfts[1][bin][frame];
+  return [wa * reA + wb * reB, wa * imA + wb * imB];
+};
@@ -0,0 +1,102 @@
+import { Colormap } from '../types';
+
+export const COLORMAP_LABELS: Record<Colormap, string> = {
+  viridis: 'Viridis',
+  magma: 'Magma',
+  inferno: 'Inferno',
+  cividis: 'Cividis',
+  grayscale: 'Grayscale',
+};
+
+type Rgb = [number, number, number];
+
+// Evenly spaced samples of each map (matplotlib's, for all but grayscale);
+// everything in between is linearly interpolated.
+const ANCHORS: Record<Colormap, Rgb[]> = {
+  viridis: [
+    [68, 1, 84],
+    [71, 45, 123],
+    [59, 82, 139],
+    [44, 114, 142],
+    [33, 144, 140],
+    [39, 173, 129],
+    [93, 200, 99],
+    [170, 220, 50],
+    [253, 231, 37],
+  ],
+  magma: [
+    [0, 0, 4],
+    [28, 16, 68],
+    [79, 18, 123],
+    [129, 37, 129],
+    [181, 54, 122],
+    [229, 80, 100],
+    [251, 135, 97],
+    [254, 194, 135],
+    [252, 253, 191],
+  ],
+  inferno: [
+    [0, 0, 4],
+    [31, 12, 72],
+    [85, 15, 109],
+    [136, 34, 106],
+    [186, 54, 85],
+    [227, 89, 51],
+    [249, 142, 9],
+    [249, 203, 53],
+    [252, 255, 164],
+  ],
+  cividis: [
+    [0, 34, 78],
+    [17, 54, 108],
+    [60, 77, 110],
+    [98, 100, 111],
+    [127, 124, 117],
+    [154, 148, 120],
+    [187, 175, 113],
+    [226, 203, 92],
+    [254, 232, 56],
+  ],
+  grayscale: [
+    [0, 0, 0],
+    [255, 255, 255],
+  ],
+};
+
+const LUT_SIZE = 256;
+
+const buildLut = (anchors: Rgb[]): Uint8Array => {
+  const lut = new Uint8Array(LUT_SIZE * 3);
+  const segments = anchors.length - 1;
+  for (let i = 0; i < LUT_SIZE; i++) {
+    const x = (i / (LUT_SIZE - 1)) * segments;
+    const k = Math.min(segments - 1, Math.floor(x));
+    const t = x - k;
+    for (let c = 0; c < 3; c++)
+      lut[i * 3 + c] = Math.round(
+        anchors[k][c] + (anchors[k + 1][c] - anchors[k][c]) * t,
+      );
+  }
+  return lut;
+};
+
+const LUTS = Object.fromEntries(
+  Object.entries(ANCHORS).map(([name, anchors]) => [name, buildLut(anchors)]),
+) as Record<Colormap, Uint8Array>;
+
+// 256 RGB triples, low to high, for per-pixel lookups.
+export const getColormapLut = (colormap: Colormap): Uint8Array =>
+  LUTS[colormap];
+
+// The color of t (0-1, clamped) on the map.
+export const sampleColormap = (colormap: Colormap, t: number): Rgb => {
+  const i = Math.round(Math.max(0, Math.min(1, t)) * (LUT_SIZE - 1)) * 3;
+  const lut = LUTS[colormap];
+  return [lut[i], lut[i + 1], lut[i + 2]];
+};
+
+// A CSS gradient running through the map from left to right.
+export const colormapGradient = (colormap: Colormap): string =>
+  `linear-gradient(to right, ${ANCHORS[colormap]
+    .map(([r, g, b]) => `rgb(${r},${g},${b})`)
+    .join(', ')})`;
@@ -0,0 +1,253 @@
+import { ChannelView } from '../types';
+
+import { ChannelMasks, SpectralMask } from './signalService';
+
+// Undo/redo for mask edits. Each entry stores only the bounding box of the
+// cells an operation changed, before and after, rather than whole masks.
+
+export const DEFAULT_HISTORY_LIMIT_BYTES = 64 * 1024 * 1024;
+
+export interface MaskRegionDiff {
+  view: ChannelView;
+  // Inclusive frame/bin bounds of the changed region.
+  f0: number;
+  f1: number;
+  b0: number;
+  b1: number;
+  before: MaskRegion;
+  after: MaskRegion;
+}
+
+export interface MaskRegion {
+  gainDb: Float32Array;
+  generativeDb: Float32Array;
+  generativeMode: Uint8Array;
+  pasted: Float32Array;
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+  diffs: MaskRegionDiff[];
+  bytes: number;
+}
+
+// What the history panel renders; entries[0..position) are applied.
+export interface HistorySnapshot {
+  entries: Omit<HistoryEntry, 'diffs'>[];
+  position: number;
+  totalBytes: number;
+  limitBytes: number;
+}
+
+type Bounds = Pick<MaskRegionDiff, 'f0' | 'f1' | 'b0' | 'b1'>;
+
+// `stride` is the number of values per cell (2 for interleaved re/im).
+const copyLayerRegion = <T extends Float32Array | Uint8Array>(
+  layer: T,
+  mask: SpectralMask,
+  { f0, f1, b0, b1 }: Bounds,
+  stride = 1,
+): T => {
+  const width = (b1 - b0 + 1) * stride;
+  // Same array type as `layer`; every element is overwritten below.
+  const region = layer.slice(0, (f1 - f0 + 1) * width) as T;
+  for (let f = f0; f <= f1; f++) {
+    const start = mask.idx(f, b0) * stride;
+    region.set(layer.subarray(start, start + width), (f - f0) * width);
+  }
+  return region;
+};
+
+const copyRegion = (mask: SpectralMask, bounds: Bounds): MaskRegion => ({
+  gainDb: copyLayerRegion(mask.gainDbLayer, mask, bounds),
+  generativeDb: copyLayerRegion(mask.generativeDbLayer, mask, bounds),
+  generativeMode: copyLayerRegion(mask.generativeModeLayer, mask, bounds),
+  pasted: copyLayerRegion(mask.pastedLayer, mask, bounds, 2),
+});
+
+const pasteLayerRegion = (
+  layer: Float32Array | Uint8Array,
+  mask: SpectralMask,
+  region: Float32Array | Uint8Array,
+  { f0, f1, b0, b1 }: Bounds,
+  stride = 1,
+) => {
+  const width = (b1 - b0 + 1) * stride;
+  for (let f = f0; f <= f1; f++) {
+    const offset = (f - f0) * width;
+    layer.set(
+      region.subarray(offset, offset + width),
+      mask.idx(f, b0) * stride,
+    );
+  }
+};
+
+const pasteRegion = (
+  mask: SpectralMask,
+  region: MaskRegion,
+  bounds: Bounds,
+) => {
+  pasteLayerRegion(mask.gainDbLayer, mask, region.gainDb, bounds);
+  pasteLayerRegion(mask.generativeDbLayer, mask, region.generativeDb, bounds);
+  pasteLayerRegion(
+    mask.generativeModeLayer,
+    mask,
+    region.generativeMode,
+    bounds,
+  );
+  pasteLayerRegion(mask.pastedLayer, mask, region.pasted, bounds, 2);
+};
+
+// Returns null when the two masks are identical.
+export const createMaskDiff = (
+  view: ChannelView,
+  before: SpectralMask,
+  after: SpectralMask,
+): MaskRegionDiff | null => {
+  if (before.F !== after.F || before.B !== after.B) {
+    throw new Error('Cannot diff masks of different dimensions');
+  }
+  let f0 = Infinity,
+    f1 = -1,
+    b0 = Infinity,
+    b1 = -1;
+  for (let f = 0; f < after.F; f++) {
+    for (let b = 0; b < after.B; b++) {
+      const i = after.idx(f, b);
+      if (
+        before.gainDbLayer[i] !== after.gainDbLayer[i] ||
+        before.generativeDbLayer[i] !== after.generativeDbLayer[i] ||
+        before.generativeModeLayer[i] !== after.generativeModeLayer[i] ||
+        before.pastedLayer[i * 2] !== after.pastedLayer[i * 2] ||
+        before.pastedLayer[i * 2 + 1] !== after.pastedLayer[i * 2 + 1]
+      ) {
+        if (f < f0) f0 = f;
+        if (f > f1) f1 = f;
+        if (b < b0) b0 = b;
+        if (b > b1) b1 = b;
+      }
+    }
+  }
+  if (f1 < 0) return null;
+
+  const bounds = { f0, f1, b0, b1 };
+  return {
+    view,
+    ...bounds,
+    before: copyRegion(before, bounds),
+    after: copyRegion(after, bounds),
+  };
+};
+
+// Diffs every view whose mask object was replaced between the two states.
+export const diffChannelMasks = (
+  before: ChannelMasks,
+  after: ChannelMasks,
+): MaskRegionDiff[] =>
+  (Object.keys(after) as ChannelView[]).flatMap((view) => {
+    const previous = before[view];
+    const next = after[view];
+    if (!previous || !next || previous === next) return [];
+    const diff = createMaskDiff(view, previous, next);
+    return diff ? [diff] : [];
+  });
+
+const regionBytes = (region: MaskRegion) =>
+  region.gainDb.byteLength +
+  region.generativeDb.byteLength +
+  region.generativeMode.byteLength +
+  region.pasted.byteLength;
+
+const diffBytes = (diff: MaskRegionDiff) =>
+  regionBytes(diff.before) + regionBytes(diff.after);
+
+export class EditHistory {
+  private entries: HistoryEntry[] = [];
+  private position = 0; // Number of entries currently applied
+  private nextId = 1;
+  private totalBytes = 0;
+  private limitBytes: number;
+
+  constructor(limitBytes = DEFAULT_HISTORY_LIMIT_BYTES) {
+    this.limitBytes = limitBytes;
+  }
+
+  get currentPosition() {
+    return this.position;
+  }
+
+  // Records an applied operation, discarding anything that could be redone.
+  push(label: string, diffs: MaskRegionDiff[]) {
+    if (diffs.length === 0) return;
+    this.entries
+      .splice(this.position)
+      .forEach((e) => (this.totalBytes -= e.bytes));
+
+    const bytes = diffs.reduce((sum, d) => sum + diffBytes(d), 0);
+    this.entries.push({
+      id: this.nextId++,
+      label,
+      timestamp: Date.now(),
+      diffs,
+      bytes,
+    });
+    this.totalBytes += bytes;
+    this.position = this.entries.length;
+
+    // Forget the oldest operations once over budget, but always keep the
+    // newest one so it can be undone even if it alone exceeds the cap.
+    while (this.totalBytes > this.limitBytes && this.entries.length > 1) {
+      this.totalBytes -= this.entries.shift()!.bytes;
+      this.position--;
+    }
+  }
+
+  // Moves to `position` (0 = oldest remembered state), returning the masks
+  // with the affected views replaced by updated copies.
+  goTo(position: number, masks: ChannelMasks): ChannelMasks {
+    const target = Math.max(0, Math.min(this.entries.length, position));
+    const result: ChannelMasks = { ...masks };
+    const copied = new Set<ChannelView>();
+    const apply = (diff: MaskRegionDiff, state: 'before' | 'after') => {
+      const current = result[diff.view];
+      if (!current) return;
+      if (!copied.has(diff.view)) {
+        result[diff.view] = current.clone();
+        copied.add(diff.view);
+      }
+      pasteRegion(result[diff.view]!, diff[state], diff);
+    };
+
+    while (this.position > target) {
+      const entry = this.entries[--this.position];
+      entry.diffs.forEach((d) => apply(d, 'before'));
+    }
+    while (this.position < target) {
+      const entry = this.entries[this.position++];
+      entry.diffs.forEach((d) => apply(d, 'after'));
+    }
+    return result;
+  }
+
+  clear() {
+    this.entries = [];
+    this.position = 0;
+    this.totalBytes = 0;
+  }
+
+  snapshot(): HistorySnapshot {
+    return {
+      entries: this.entries.map(({ id, label, timestamp, bytes }) => ({
+        id,
+        label,
+        timestamp,
+        bytes,
+      })),
+      position: this.position,
+      totalBytes: this.totalBytes,
+      limitBytes: this.limitBytes,
+    };
+  }
+}
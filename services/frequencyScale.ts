@@ -0,0 +1,151 @@
+import { FrequencyScale } from '../types';
+import { niceStep } from '../utils';
+
+export const FREQUENCY_SCALE_LABELS: Record<FrequencyScale, string> = {
+  linear: 'Linear',
+  log: 'Log',
+  mel: 'Mel',
+  bark: 'Bark',
+  erb: 'ERB',
+};
+
+// The log axis has to stop somewhere above 0 Hz; everything below this is
+// drawn in the bottom row.
+const LOG_MIN_HZ = 10;
+
+// Hz -> scale units, and back. Each is monotonic, so positions on the axis
+// are a linear map of these.
+const WARPS: Record<
+  FrequencyScale,
+  { toScale: (hz: number) => number; toHz: (value: number) => number }
+> = {
+  linear: { toScale: (hz) => hz, toHz: (value) => value },
+  log: {
+    toScale: (hz) => Math.log2(Math.max(LOG_MIN_HZ, hz)),
+    toHz: (value) => 2 ** value,
+  },
+  // O'Shaughnessy's mel formula, as used by HTK.
+  mel: {
+    toScale: (hz) => 2595 * Math.log10(1 + hz / 700),
+    toHz: (value) => 700 * (10 ** (value / 2595) - 1),
+  },
+  // Traunmüller's approximation of the critical-band rate.
+  bark: {
+    toScale: (hz) => (26.81 * hz) / (1960 + hz) - 0.53,
+    toHz: (value) => (1960 * (value + 0.53)) / (26.28 - value),
+  },
+  // Glasberg & Moore's ERB-rate (number of ERBs below hz).
+  erb: {
+    toScale: (hz) => 21.4 * Math.log10(1 + 0.00437 * hz),
+    toHz: (value) => (10 ** (value / 21.4) - 1) / 0.00437,
+  },
+};
+
+// A frequency axis from lowHz (position 0, the bottom) to highHz (position 1).
+export interface FrequencyAxis {
+  scale: FrequencyScale;
+  lowHz: number;
+  highHz: number;
+  toPosition: (hz: number) => number;
+  toHz: (position: number) => number;
+}
+
+export const createFrequencyAxis = (
+  scale: FrequencyScale,
+  lowHz: number,
+  highHz: number,
+): FrequencyAxis => {
+  const { toScale, toHz } = WARPS[scale];
+  const low = toScale(lowHz);
+  const span = toScale(highHz) - low;
+  // A range entirely below the log floor has no extent; draw it linearly.
+  if (span <= 0) return createFrequencyAxis('linear', lowHz, highHz);
+  return {
+    scale,
+    lowHz,
+    highHz,
+    toPosition: (hz) => (toScale(hz) - low) / span,
+    toHz: (position) => toHz(low + position * span),
+  };
+};
+
+// Ticks are round numbers, so trailing zeros are dropped.
+const formatTick = (hz: number) =>
+  hz >= 1000 ? `${+(hz / 1000).toFixed(2)} kHz` : `${+hz.toFixed(1)} Hz`;
+
+// Round numbers in the order they are preferred as ticks on a warped axis.
+const TICK_MANTISSAS = [1, 2, 5, 3, 4, 1.5, 6, 8];
+
+// Up to `maxTicks` labelled frequencies inside the axis. Linear axes get an
+// even 1/2/5 step; warped axes get the roundest frequencies that keep the
+// labels at least 1/maxTicks of the axis apart, falling back to an even step
+// when zoomed in too far for round numbers to land inside.
+export const frequencyTicks = (
+  axis: FrequencyAxis,
+  maxTicks = 8,
+): { hz: number; position: number; label: string }[] => {
+  const low = Math.max(0, axis.lowHz);
+  const high = axis.highHz;
+  if (high <= low || maxTicks < 1) return [];
+  const tick = (hz: number) => ({
+    hz,
+    position: axis.toPosition(hz),
+    label: formatTick(hz),
+  });
+
+  const evenTicks = () => {
+    const step = niceStep((high - low) / maxTicks);
+    const ticks = [];
+    for (let i = Math.ceil(low / step); i * step <= high; i++)
+      ticks.push(tick(i * step));
+    return ticks;
+  };
+  if (axis.scale === 'linear') return evenTicks();
+
+  const minGap = 1 / maxTicks;
+  const chosen: ReturnType<typeof tick>[] = [];
+  const accept = (hz: number) => {
+    if (hz < low || hz > high) return;
+    const candidate = tick(hz);
+    if (
+      chosen.every((c) => Math.abs(c.position - candidate.position) >= minGap)
+    )
+      chosen.push(candidate);
+  };
+  // 0 Hz has no place on a log axis; elsewhere it anchors the bottom.
+  if (axis.scale !== 'log') accept(0);
+  const lowestDecade = Math.floor(Math.log10(Math.max(10, low)));
+  const highestDecade = Math.floor(Math.log10(high));
+  for (const mantissa of TICK_MANTISSAS)
+    for (let decade = lowestDecade; decade <= highestDecade; decade++)
+      accept(mantissa * 10 ** decade);
+  return chosen.length >= 2
+    ? chosen.sort((a, b) => a.hz - b.hz)
+    : evenTicks().filter((t) => t.position >= 0);
+};
+
+const NOTE_NAMES = [
+  'C',
+  'C#',
+  'D',
+  'D#',
+  'E',
+  'F',
+  'F#',
+  'G',
+  'G#',
+  'A',
+  'A#',
+  'B',
+];
+
+// Nearest equal-tempered note (A4 = 440 Hz) and the offset from it in cents,
+// e.g. "A4 +3¢". Empty below the audible range, where notes mean nothing.
+export const formatNote = (hz: number): string => {
+  if (!(hz >= 16)) return '';
+  const midi = 69 + 12 * Math.log2(hz / 440);
+  const nearest = Math.round(midi);
+  const cents = Math.round((midi - nearest) * 100);
+  const name = `${NOTE_NAMES[nearest % 12]}${Math.floor(nearest / 12) - 1}`;
+  return `${name} ${cents >= 0 ? '+' : '−'}${Math.abs(cents)}¢`;
+};
@@ -0,0 +1,208 @@
+import { StftParams } from '../types';
+import { GENERATIVE_MODE_CODES } from '../constants';
+
+import { SpectralMask } from './signalService';
+import { getStftWindow } from './windows';
+
+// Renders the generative mask layer into STFT cells. Cells painted as "tone"
+// become sinusoidal partials whose phase advances coherently from hop to hop,
+// so they resynthesize as the same steady sine every time. "Noise" cells get
+// a random phase per cell, drawn from `random` so a seeded generator gives the
+// same noise on every render.
+
+const KERNEL_HALF_WIDTH = 4; // Bins either side of a partial that it fills
+const KERNEL_OVERSAMPLE = 32; // Kernel samples per bin
+const MAX_TRACK_JUMP_BINS = 2; // Furthest a partial may move between frames
+const SILENT_DB = -900;
+
+// The window's spectrum W(d) = sum_n w[n] e^{-2 pi i d n / N}, sampled at
+// fractional bin offsets d. Its linear phase term is factored out so the
+// stored values vary slowly and can be interpolated.
+interface ToneKernel {
+  re: Float64Array;
+  im: Float64Array;
+  peak: number; // |W(0)|, the sum of the window
+  linearPhase: number; // Radians per bin of offset: -pi (N - 1) / N
+}
+
+const createToneKernel = (params: StftParams): ToneKernel => {
+  const window = getStftWindow(params);
+  const N = window.length;
+  const linearPhase = (-Math.PI * (N - 1)) / N;
+  const size = 2 * KERNEL_HALF_WIDTH * KERNEL_OVERSAMPLE + 1;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    const d = (i - KERNEL_HALF_WIDTH * KERNEL_OVERSAMPLE) / KERNEL_OVERSAMPLE;
+    let sumRe = 0,
+      sumIm = 0;
+    for (let n = 0; n < N; n++) {
+      const angle = (-2 * Math.PI * d * n) / N;
+      sumRe += window[n] * Math.cos(angle);
+      sumIm += window[n] * Math.sin(angle);
+    }
+    // Remove the linear phase so symmetric windows give a real kernel.
+    const c = Math.cos(-linearPhase * d);
+    const s = Math.sin(-linearPhase * d);
+    re[i] = sumRe * c - sumIm * s;
+    im[i] = sumRe * s + sumIm * c;
+  }
+  const peak = window.reduce((a, b) => a + b, 0);
+  return { re, im, peak, linearPhase };
+};
+
+const sampleKernel = (kernel: ToneKernel, d: number): [number, number] => {
+  const x = (d + KERNEL_HALF_WIDTH) * KERNEL_OVERSAMPLE;
+  const i = Math.floor(x);
+  if (i < 0 || i >= kernel.re.length - 1) return [0, 0];
+  const t = x - i;
+  const re = kernel.re[i] * (1 - t) + kernel.re[i + 1] * t;
+  const im = kernel.im[i] * (1 - t) + kernel.im[i + 1] * t;
+  // Restore the linear phase.
+  const c = Math.cos(kernel.linearPhase * d);
+  const s = Math.sin(kernel.linearPhase * d);
+  return [re * c - im * s, re * s + im * c];
+};
+
+interface Partial {
+  bin: number; // Fractional center bin
+  db: number; // Loudness at the center, in the generative layer's dB
+}
+
+interface Track {
+  bin: number;
+  phase: number; // Phase at the start of the current frame
+}
+
+// Local maxima of the tone cells in one frame, refined to a fractional bin by
+// fitting a parabola through the peak and its neighbours.
+const findPartials = (mask: SpectralMask, frame: number): Partial[] => {
+  const { B } = mask;
+  const toneCode = GENERATIVE_MODE_CODES.tone;
+  const dbAt = (b: number) => {
+    if (b < 0 || b >= B) return -Infinity;
+    const i = mask.idx(frame, b);
+    return mask.generativeDbLayer[i] > SILENT_DB &&
+      mask.generativeModeLayer[i] === toneCode
+      ? mask.generativeDbLayer[i]
+      : -Infinity;
+  };
+
+  const partials: Partial[] = [];
+  for (let b = 0; b < B; b++) {
+    const db = dbAt(b);
+    if (db === -Infinity) continue;
+    // Treat a plateau as one peak at its middle.
+    let end = b;
+    while (end + 1 < B && dbAt(end + 1) === db) end++;
+    const left = dbAt(b - 1);
+    const right = dbAt(end + 1);
+    if (db > left && db > right) {
+      let center = (b + end) / 2;
+      if (b === end && left > -Infinity && right > -Infinity) {
+        const denominator = left - 2 * db + right;
+        if (denominator < 0) center += (0.5 * (left - right)) / denominator;
+      }
+      partials.push({ bin: center, db });
+    }
+    b = end;
+  }
+  return partials;
+};
+
+// Continues last frame's partials: each new peak takes the nearest unclaimed
+// track within reach; the rest start fresh.
+const matchTracks = (
+  partials: Partial[],
+  previous: Track[],
+): (Track | null)[] => {
+  const claimed = new Set<Track>();
+  return partials.map(({ bin }) => {
+    let best: Track | null = null;
+    for (const track of previous) {
+      if (claimed.has(track)) continue;
+      const distance = Math.abs(track.bin - bin);
+      if (
+        distance <= MAX_TRACK_JUMP_BINS &&
+        (!best || distance < Math.abs(best.bin - bin))
+      )
+        best = track;
+    }
+    if (best) claimed.add(best);
+    return best;
+  });
+};
+
+export interface GenerativeSpectrum {
+  re: Float32Array; // Indexed like the mask: frame * B + bin
+  im: Float32Array;
+}
+
+// Returns null when the mask has no generative cells.
+export const renderGenerativeLayer = (
+  mask: SpectralMask,
+  params: StftParams,
+  padLeft: number, // From the frame layout, to place frames in time
+  random: () => number,
+): GenerativeSpectrum | null => {
+  const { F, B, generativeDbLayer, generativeModeLayer } = mask;
+  if (generativeDbLayer.every((db) => db <= SILENT_DB)) return null;
+
+  const re = new Float32Array(F * B);
+  const im = new Float32Array(F * B);
+  const { nfft, hopLength } = params;
+  let kernel: ToneKernel | null = null;
+  let tracks: Track[] = [];
+
+  for (let f = 0; f < F; f++) {
+    for (let b = 0; b < B; b++) {
+      const i = mask.idx(f, b);
+      const db = generativeDbLayer[i];
+      if (
+        db > SILENT_DB &&
+        generativeModeLayer[i] !== GENERATIVE_MODE_CODES.tone
+      ) {
+        const mag = Math.pow(10, db / 20);
+        const phase = random() * 2 * Math.PI;
+        re[i] = mag * Math.cos(phase);
+        im[i] = mag * Math.sin(phase);
+      }
+    }
+
+    const partials = findPartials(mask, f);
+    if (partials.length === 0) {
+      tracks = [];
+      continue;
+    }
+    kernel ??= createToneKernel(params);
+    const toneKernel = kernel;
+
+    const matches = matchTracks(partials, tracks);
+    // Sample index of the first sample of this frame in the original signal.
+    const frameStart = f * hopLength - padLeft;
+    tracks = partials.map(({ bin, db }, p) => {
+      const previous = matches[p];
+      // Advance by the average frequency over the hop; a new partial starts
+      // as if it had been running since sample 0.
+      const phase = previous
+        ? previous.phase + (Math.PI * (previous.bin + bin) * hopLength) / nfft
+        : (2 * Math.PI * bin * frameStart) / nfft;
+
+      // A sinusoid at fractional bin k0 shows up as the window spectrum
+      // centered on k0, scaled so the peak cell has the painted loudness.
+      const scale = Math.pow(10, db / 20) / toneKernel.peak;
+      const c = Math.cos(phase);
+      const s = Math.sin(phase);
+      const lo = Math.max(0, Math.ceil(bin - KERNEL_HALF_WIDTH));
+      const hi = Math.min(B - 1, Math.floor(bin + KERNEL_HALF_WIDTH));
+      for (let b = lo; b <= hi; b++) {
+        const [wRe, wIm] = sampleKernel(toneKernel, b - bin);
+        const i = mask.idx(f, b);
+        re[i] += scale * (wRe * c - wIm * s);
+        im[i] += scale * (wRe * s + wIm * c);
+      }
+      return { bin, phase: phase % (2 * Math.PI) };
+    });
+  }
+  return { re, im };
+};
@@ -0,0 +1,34 @@
+import { BrushParams } from '../types';
+
+// Where one dab of the brush lands: the painted bin, and for a harmonic brush
+// its partials up to Nyquist. Inharmonicity stretches the series as on a stiff
+// string, scaled so the first partial stays where it was painted. Each
+// partial's edit is `harmonicRolloffDb` weaker than the one below it, so a cut
+// or boost fades towards 0 dB and a generated tone gets quieter.
+export const brushPartials = (
+  bin: number, // Fractional bin of the fundamental
+  brush: BrushParams,
+  bins: number,
+): { bin: number; gainDb: number }[] => {
+  const { gainDb, harmonicRolloffDb, inharmonicity } = brush;
+  const count = brush.harmonic
+    ? Math.max(1, Math.round(brush.harmonicCount))
+    : 1;
+  // Bin 0 is DC, whose multiples are DC again.
+  if (bin < 0.5) return [{ bin, gainDb }];
+  const partials = [];
+  for (let n = 1; n <= count; n++) {
+    const partialBin =
+      bin * n * Math.sqrt((1 + inharmonicity * n * n) / (1 + inharmonicity));
+    if (partialBin > bins - 1) break;
+    const weakenDb = harmonicRolloffDb * (n - 1);
+    partials.push({
+      bin: partialBin,
+      gainDb:
+        brush.brushMode === 'generative'
+          ? gainDb - weakenDb
+          : Math.sign(gainDb) * Math.max(0, Math.abs(gainDb) - weakenDb),
+    });
+  }
+  return partials;
+};
@@ -0,0 +1,313 @@
+import FFT from 'fft.js';
+
+import { ChannelMetrics, ChannelView, StftParams } from '../types';
+import { DEFAULT_PARAMS } from '../constants';
+
+import { createWindow } from './windows';
+import { getFrameLayout } from './signalService';
+
+// Reconstruction quality measures. The spectral measures use a fixed
+// analysis framing rather than the STFT under test, so results stay
+// comparable when the STFT parameters change.
+
+export type MetricKey = Exclude<keyof ChannelMetrics, 'view'>;
+
+export interface MetricInfo {
+  label: string;
+  unit: string;
+  higherIsBetter: boolean;
+  description: string;
+}
+
+export const METRIC_INFO: Record<MetricKey, MetricInfo> = {
+  maxError: {
+    label: 'Max error',
+    unit: '',
+    higherIsBetter: false,
+    description: 'Largest absolute sample difference.',
+  },
+  snr: {
+    label: 'SNR',
+    unit: 'dB',
+    higherIsBetter: true,
+    description: 'Signal power over error power across the whole signal.',
+  },
+  siSdr: {
+    label: 'SI-SDR',
+    unit: 'dB',
+    higherIsBetter: true,
+    description:
+      'Scale-invariant signal-to-distortion ratio: SNR after the reconstruction is optimally rescaled, so pure gain changes are not counted as error.',
+  },
+  segmentalSnr: {
+    label: 'Segmental SNR',
+    unit: 'dB',
+    higherIsBetter: true,
+    description:
+      'Mean SNR over short segments, each clamped to [-10, 35] dB. Quiet passages count as much as loud ones; silent segments are skipped.',
+  },
+  spectralConvergence: {
+    label: 'Spectral convergence',
+    unit: '',
+    higherIsBetter: false,
+    description:
+      'Norm of the magnitude spectrogram difference relative to the original magnitude spectrogram norm. Ignores phase.',
+  },
+  logSpectralDistance: {
+    label: 'Log-spectral distance',
+    unit: 'dB',
+    higherIsBetter: false,
+    description:
+      'RMS difference of the log power spectra per frame, averaged over frames. Bins are floored 120 dB below the loudest original bin.',
+  },
+  correlation: {
+    label: 'Correlation',
+    unit: '',
+    higherIsBetter: true,
+    description:
+      'Pearson correlation of the two waveforms; 1 is identical shape.',
+  },
+  peakDiffDb: {
+    label: 'Peak level diff',
+    unit: 'dB',
+    higherIsBetter: false,
+    description: 'Reconstructed peak level minus original peak level.',
+  },
+  rmsDiffDb: {
+    label: 'RMS level diff',
+    unit: 'dB',
+    higherIsBetter: false,
+    description: 'Reconstructed RMS level minus original RMS level.',
+  },
+};
+
+// Analysis framing for the spectral measures.
+const SPECTRAL_FFT_SIZE = 2048;
+const SPECTRAL_HOP = 512;
+// Segment length for segmental SNR, and its per-segment limits.
+const SEGMENT_LENGTH = 1024;
+const SEGMENT_SNR_MIN = -10;
+const SEGMENT_SNR_MAX = 35;
+// Floor for the log spectra relative to the original's loudest bin, so
+// negligible bins far below it cannot dominate the log-spectral distance.
+const LOG_SPECTRAL_FLOOR = 1e-12; // -120 dB
+
+const toDb = (ratio: number) => 10 * Math.log10(ratio);
+
+// Ratio of two powers in dB, treating a zero denominator as a perfect match.
+const powerRatioDb = (signal: number, noise: number) =>
+  noise < 1e-24 ? Infinity : toDb(signal / noise);
+
+// Level change in dB between two non-negative amplitudes.
+const levelDiffDb = (original: number, reconstructed: number) => {
+  if (original === reconstructed) return 0;
+  return (
+    20 * Math.log10(Math.max(reconstructed, 1e-12) / Math.max(original, 1e-12))
+  );
+};
+
+// Power spectra of Hann-windowed frames over the first `length` samples.
+const powerSpectra = (signal: Float32Array, length: number): Float64Array[] => {
+  const n = SPECTRAL_FFT_SIZE;
+  const window = createWindow(
+    n,
+    'hann',
+    'periodic',
+    DEFAULT_PARAMS.windowShape,
+  );
+  const fft = new FFT(n);
+  const input = new Array<number>(n);
+  const output = fft.createComplexArray() as number[];
+  const spectra: Float64Array[] = [];
+  const frames = Math.max(1, Math.ceil((length - n) / SPECTRAL_HOP) + 1);
+  for (let f = 0; f < frames; f++) {
+    const start = f * SPECTRAL_HOP;
+    for (let i = 0; i < n; i++) {
+      const s = start + i < length ? signal[start + i] : 0;
+      input[i] = s * window[i];
+    }
+    fft.realTransform(output, input);
+    const power = new Float64Array(n / 2 + 1);
+    for (let b = 0; b <= n / 2; b++) {
+      const re = output[2 * b];
+      const im = output[2 * b + 1];
+      power[b] = re * re + im * im;
+    }
+    spectra.push(power);
+  }
+  return spectra;
+};
+
+const spectralMetrics = (
+  original: Float32Array,
+  reconstructed: Float32Array,
+  length: number,
+) => {
+  const a = powerSpectra(original, length);
+  const b = powerSpectra(reconstructed, length);
+  let floor = 0;
+  for (const frame of a) for (const p of frame) floor = Math.max(floor, p);
+  floor = Math.max(floor * LOG_SPECTRAL_FLOOR, 1e-30);
+
+  let diffNorm = 0,
+    refNorm = 0,
+    lsdSum = 0;
+  for (let f = 0; f < a.length; f++) {
+    let frameSum = 0;
+    for (let k = 0; k < a[f].length; k++) {
+      const magA = Math.sqrt(a[f][k]);
+      const magB = Math.sqrt(b[f][k]);
+      diffNorm += (magA - magB) ** 2;
+      refNorm += a[f][k];
+      const d = toDb(a[f][k] + floor) - toDb(b[f][k] + floor);
+      frameSum += d * d;
+    }
+    lsdSum += Math.sqrt(frameSum / a[f].length);
+  }
+  return {
+    spectralConvergence:
+      refNorm > 0 ? Math.sqrt(diffNorm / refNorm) : diffNorm > 0 ? Infinity : 0,
+    logSpectralDistance: lsdSum / a.length,
+  };
+};
+
+const segmentalSnr = (
+  original: Float32Array,
+  reconstructed: Float32Array,
+  length: number,
+) => {
+  let sum = 0,
+    count = 0;
+  for (let start = 0; start < length; start += SEGMENT_LENGTH) {
+    const end = Math.min(length, start + SEGMENT_LENGTH);
+    let signal = 0,
+      noise = 0;
+    for (let i = start; i < end; i++) {
+      const diff = original[i] - reconstructed[i];
+      signal += original[i] * original[i];
+      noise += diff * diff;
+    }
+    if (signal < 1e-12) continue;
+    const snr = powerRatioDb(signal, noise);
+    sum += Math.min(SEGMENT_SNR_MAX, Math.max(SEGMENT_SNR_MIN, snr));
+    count++;
+  }
+  return count > 0 ? sum / count : SEGMENT_SNR_MAX;
+};
+
+// Reconstruction quality of one channel against its original.
+export const computeChannelMetrics = (
+  original: Float32Array,
+  reconstructed: Float32Array,
+  view: ChannelView,
+): ChannelMetrics => {
+  let maxError = 0,
+    signalPower = 0,
+    errorPower = 0,
+    reconstructedPower = 0,
+    cross = 0,
+    sumA = 0,
+    sumB = 0,
+    peakA = 0,
+    peakB = 0;
+  const len = Math.min(original.length, reconstructed.length);
+  for (let i = 0; i < len; i++) {
+    const a = original[i];
+    const b = reconstructed[i];
+    const diff = a - b;
+    if (Math.abs(diff) > maxError) maxError = Math.abs(diff);
+    signalPower += a * a;
+    errorPower += diff * diff;
+    reconstructedPower += b * b;
+    cross += a * b;
+    sumA += a;
+    sumB += b;
+    peakA = Math.max(peakA, Math.abs(a));
+    peakB = Math.max(peakB, Math.abs(b));
+  }
+
+  // SI-SDR projects the reconstruction onto the original. The distortion is
+  // summed directly; expanding the square cancels badly near a perfect match.
+  const scale = signalPower > 0 ? cross / signalPower : 0;
+  const targetPower = scale * scale * signalPower;
+  let distortionPower = 0;
+  for (let i = 0; i < len; i++) {
+    const d = reconstructed[i] - scale * original[i];
+    distortionPower += d * d;
+  }
+
+  const n = Math.max(1, len);
+  const covariance = cross - (sumA * sumB) / n;
+  const varianceA = signalPower - (sumA * sumA) / n;
+  const varianceB = reconstructedPower - (sumB * sumB) / n;
+  const correlation =
+    varianceA > 0 && varianceB > 0
+      ? covariance / Math.sqrt(varianceA * varianceB)
+      : varianceA === varianceB
+        ? 1
+        : 0;
+
+  return {
+    view,
+    maxError,
+    snr:
+      errorPower < 1e-12 ? Infinity : 10 * Math.log10(signalPower / errorPower),
+    siSdr:
+      maxError === 0
+        ? Infinity
+        : targetPower === 0
+          ? -Infinity
+          : powerRatioDb(targetPower, distortionPower),
+    segmentalSnr: segmentalSnr(original, reconstructed, len),
+    ...spectralMetrics(original, reconstructed, len),
+    correlation,
+    peakDiffDb: levelDiffDb(peakA, peakB),
+    rmsDiffDb: levelDiffDb(
+      Math.sqrt(signalPower / n),
+      Math.sqrt(reconstructedPower / n),
+    ),
+  };
+};
+
+// Error over time, one value per STFT frame so it lines up with the
+// spectrogram columns.
+export interface FrameErrors {
+  times: Float64Array; // Frame center, seconds
+  rmsErrorDb: Float64Array; // -Infinity where the frame is exact
+  snrDb: Float64Array; // Infinity where the frame is exact
+}
+
+export const computeFrameErrors = (
+  original: Float32Array,
+  reconstructed: Float32Array,
+  params: StftParams,
+): FrameErrors => {
+  const len = Math.min(original.length, reconstructed.length);
+  const { nfft, hopLength, sr } = params;
+  const { frames, padLeft } = getFrameLayout(len, params);
+
+  // Running sums make each frame's energy an O(1) lookup.
+  const signalSum = new Float64Array(len + 1);
+  const errorSum = new Float64Array(len + 1);
+  for (let i = 0; i < len; i++) {
+    const diff = original[i] - reconstructed[i];
+    signalSum[i + 1] = signalSum[i] + original[i] * original[i];
+    errorSum[i + 1] = errorSum[i] + diff * diff;
+  }
+
+  const times = new Float64Array(frames);
+  const rmsErrorDb = new Float64Array(frames);
+  const snrDb = new Float64Array(frames);
+  for (let f = 0; f < frames; f++) {
+    const start = f * hopLength - padLeft;
+    const from = Math.max(0, Math.min(len, start));
+    const to = Math.max(from, Math.min(len, start + nfft));
+    const signal = signalSum[to] - signalSum[from];
+    const error = Math.max(0, errorSum[to] - errorSum[from]);
+    times[f] = (start + nfft / 2) / sr;
+    rmsErrorDb[f] =
+      to > from && error > 0 ? toDb(error / (to - from)) : -Infinity;
+    snrDb[f] = error > 0 ? toDb(Math.max(signal, 1e-30) / error) : Infinity;
+  }
+  return { times, rmsErrorDb, snrDb };
+};
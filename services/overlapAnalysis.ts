@@ -0,0 +1,75 @@
+import { StftParams } from '../types';
+
+import { getStftWindow } from './windows';
+
+const FLOAT32_EPSILON = 1.1920929e-7;
+// Window samples are float32, so anything below this ripple is rounding noise.
+const COLA_TOLERANCE = 1e-5;
+const NOLA_TOLERANCE = 1e-10;
+
+export interface OverlapAnalysis {
+  // Steady-state sums over one hop period, n = 0..hop-1.
+  colaEnvelope: Float32Array; // sum_m w[n + mH]
+  nolaEnvelope: Float32Array; // sum_m w^2[n + mH], what the iSTFT divides by
+  isCola: boolean;
+  isNola: boolean;
+  colaRippleDb: number; // Peak-to-trough ratio of the COLA envelope
+  nolaRippleDb: number;
+  // Estimated worst-case reconstruction error relative to full scale. Infinity
+  // when NOLA fails and some samples cannot be recovered at all.
+  expectedError: number;
+}
+
+const envelopeOverHop = (values: Float32Array, hop: number): Float32Array => {
+  const envelope = new Float32Array(hop);
+  for (let i = 0; i < values.length; i++) envelope[i % hop] += values[i];
+  return envelope;
+};
+
+const rippleDb = (envelope: Float32Array): number => {
+  let min = Infinity,
+    max = 0;
+  for (const v of envelope) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (min <= 0) return Infinity;
+  return 20 * Math.log10(max / min);
+};
+
+// Checks the constant-overlap-add (COLA) and nonzero-overlap-add (NOLA)
+// conditions numerically for the chosen window and hop. The iSTFT here uses
+// weighted overlap-add with window-sum normalization, so NOLA is what decides
+// whether perfect reconstruction is possible; COLA only tells whether that
+// normalization is a no-op.
+export const analyzeOverlap = (params: StftParams): OverlapAnalysis => {
+  const window = getStftWindow(params);
+  const hop = Math.max(1, Math.min(params.hopLength, window.length));
+  const squared = window.map((w) => w * w);
+
+  const colaEnvelope = envelopeOverHop(window, hop);
+  const nolaEnvelope = envelopeOverHop(squared, hop);
+
+  const colaMean = colaEnvelope.reduce((a, b) => a + b, 0) / hop;
+  const colaDeviation = colaEnvelope.reduce(
+    (worst, v) => Math.max(worst, Math.abs(v - colaMean)),
+    0,
+  );
+  const nolaMin = Math.min(...nolaEnvelope);
+  const nolaMax = Math.max(...nolaEnvelope);
+  const isNola = nolaMin > NOLA_TOLERANCE;
+
+  return {
+    colaEnvelope,
+    nolaEnvelope,
+    isCola: colaMean > 0 && colaDeviation / colaMean < COLA_TOLERANCE,
+    isNola,
+    colaRippleDb: rippleDb(colaEnvelope),
+    nolaRippleDb: rippleDb(nolaEnvelope),
+    // Rounding error in each overlapping frame is amplified by how much the
+    // normalizer varies across the hop.
+    expectedError: isNola
+      ? FLOAT32_EPSILON * (nolaMax / nolaMin) * Math.sqrt(window.length / hop)
+      : Infinity,
+  };
+};
@@ -0,0 +1,470 @@
+import {
+  ChannelView,
+  PadMode,
+  StftParams,
+  TransformParams,
+  WindowSymmetry,
+} from '../types';
+import {
+  DEFAULT_PARAMS,
+  DEFAULT_TRANSFORM_PARAMS,
+  GENERATIVE_MODE_CODES,
+} from '../constants';
+
+import { ChannelMasks, SpectralMask, getFrameLayout } from './signalService';
+import { MAX_CHANNELS, getChannelViews } from './channels';
+import { WINDOW_LABELS } from './windows';
+
+// Saved editing sessions: STFT and transform settings, the mask layers of
+// every channel view, and a hash identifying the audio they were painted on.
+
+export const PROJECT_FORMAT = 'stft-round-trip-project';
+// v2 added the generative mode layer (tone or noise per cell), v3 the pasted
+// content layer.
+export const PROJECT_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = 'stftproj.json';
+
+// Thrown for any project that cannot be applied; the message is user-facing.
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+interface ProjectAudioInfo {
+  name: string;
+  sampleRate: number;
+  channelCount: number;
+  length: number; // Samples per channel
+  sha256: string; // Of the decoded float32 PCM, channel after channel
+  // Gzipped, base64 float32 PCM per channel, when the audio is embedded.
+  embeddedChannels?: string[];
+}
+
+interface ProjectMaskLayers {
+  view: ChannelView;
+  gainDbLayer: string; // Gzipped, base64 Float32Array
+  generativeDbLayer: string;
+  generativeModeLayer?: string; // Gzipped, base64 Uint8Array; v2 and later
+  pastedLayer?: string; // Gzipped, base64 Float32Array, re/im; v3 and later
+}
+
+interface ProjectFileContents {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  params: StftParams;
+  transformParams: TransformParams;
+  audio: ProjectAudioInfo;
+  stft: { frames: number; bins: number };
+  masks: ProjectMaskLayers[];
+}
+
+export interface LoadedProject {
+  params: StftParams;
+  transformParams: TransformParams;
+  audio: Omit<ProjectAudioInfo, 'embeddedChannels'>;
+  // Decoded embedded audio, or null when the project references a file.
+  embeddedChannels: Float32Array[] | null;
+  masks: ChannelMasks;
+}
+
+// #region Encoding helpers
+const streamBytes = async (
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  // String.fromCharCode overflows the call stack on very large spreads.
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+
+// A copy, so views into larger or shared buffers are handled.
+const floatBytes = (data: Float32Array) => new Uint8Array(data.slice().buffer);
+
+const compressBytes = async (bytes: Uint8Array<ArrayBuffer>): Promise<string> =>
+  toBase64(await streamBytes(bytes, new CompressionStream('gzip')));
+
+const compressFloats = (data: Float32Array): Promise<string> =>
+  compressBytes(floatBytes(data));
+
+const decompressBytes = async (
+  text: string,
+  expectedBytes: number,
+  bytesPerValue: number,
+  what: string,
+): Promise<Uint8Array<ArrayBuffer>> => {
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = await streamBytes(
+      fromBase64(text),
+      new DecompressionStream('gzip'),
+    );
+  } catch {
+    throw new ProjectFileError(`The ${what} data in the project is corrupt.`);
+  }
+  if (bytes.byteLength !== expectedBytes) {
+    throw new ProjectFileError(
+      `The ${what} data holds ${bytes.byteLength / bytesPerValue} values, expected ${expectedBytes / bytesPerValue}.`,
+    );
+  }
+  return bytes;
+};
+
+const decompressFloats = async (
+  text: string,
+  expectedLength: number,
+  what: string,
+): Promise<Float32Array> =>
+  new Float32Array(
+    (await decompressBytes(text, expectedLength * 4, 4, what)).buffer,
+  );
+// #endregion
+
+// Fills in settings missing from transform params saved by an older version,
+// whether in a project file or the browser's local storage.
+export const withTransformDefaults = (
+  saved: Partial<TransformParams>,
+): TransformParams => {
+  const defaults = DEFAULT_TRANSFORM_PARAMS;
+  return {
+    spectralEdit: {
+      ...defaults.spectralEdit,
+      ...saved.spectralEdit,
+      brush: { ...defaults.spectralEdit.brush, ...saved.spectralEdit?.brush },
+    },
+    spectralGlitch: {
+      ...defaults.spectralGlitch,
+      ...saved.spectralGlitch,
+      params: {
+        ...defaults.spectralGlitch.params,
+        ...saved.spectralGlitch?.params,
+      },
+    },
+    audioGlitch: {
+      ...defaults.audioGlitch,
+      ...saved.audioGlitch,
+      params: { ...defaults.audioGlitch.params, ...saved.audioGlitch?.params },
+    },
+    seed: typeof saved.seed === 'number' ? saved.seed : defaults.seed,
+  };
+};
+
+// Fills in STFT settings missing from an older or hand-edited project.
+const withParamsDefaults = (saved: Partial<StftParams>): StftParams => ({
+  ...DEFAULT_PARAMS,
+  ...saved,
+  windowShape: { ...DEFAULT_PARAMS.windowShape, ...saved.windowShape },
+});
+
+// #region Validation
+// Everything past `format` and `version` is checked before use, so a
+// truncated or hand-edited file is reported rather than crashing the load.
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown, min = 0): value is number =>
+  Number.isInteger(value) && (value as number) >= min;
+
+const WINDOW_SYMMETRIES: WindowSymmetry[] = ['periodic', 'symmetric'];
+const PAD_MODES: PadMode[] = ['zero', 'reflect', 'constant', 'edge'];
+
+// The same limits the settings panel and the CLI put on the STFT.
+const checkParams = (params: StftParams) => {
+  const { nfft, hopLength } = params;
+  if (!isCount(nfft, 2) || (nfft & (nfft - 1)) !== 0)
+    throw new ProjectFileError(`n_fft ${nfft} is not a power of two.`);
+  if (!isCount(hopLength, 1) || hopLength > nfft)
+    throw new ProjectFileError(
+      `The hop ${hopLength} is not a whole number of samples from 1 to n_fft (${nfft}).`,
+    );
+  if (!Object.keys(WINDOW_LABELS).includes(params.window))
+    throw new ProjectFileError(`Unknown window '${params.window}'.`);
+  if (!WINDOW_SYMMETRIES.includes(params.windowSymmetry))
+    throw new ProjectFileError(
+      `Unknown window symmetry '${params.windowSymmetry}'.`,
+    );
+  if (!PAD_MODES.includes(params.padMode))
+    throw new ProjectFileError(`Unknown padding mode '${params.padMode}'.`);
+  const { tukeyAlpha, gaussianSigma, kaiserBeta } = params.windowShape;
+  if (
+    ![tukeyAlpha, gaussianSigma, kaiserBeta, params.padValue].every(
+      Number.isFinite,
+    )
+  )
+    throw new ProjectFileError(
+      'The window shape or pad value is not a number.',
+    );
+  if (typeof params.center !== 'boolean')
+    throw new ProjectFileError('The centering setting is not true or false.');
+};
+
+const checkAudioInfo = (audio: unknown): ProjectAudioInfo => {
+  if (!isRecord(audio))
+    throw new ProjectFileError('The project does not describe its audio.');
+  const { name, sampleRate, channelCount, length, sha256, embeddedChannels } =
+    audio;
+  if (typeof name !== 'string' || typeof sha256 !== 'string')
+    throw new ProjectFileError('The audio name or hash is missing.');
+  if (
+    typeof sampleRate !== 'number' ||
+    !(sampleRate > 0) ||
+    !isFinite(sampleRate)
+  )
+    throw new ProjectFileError(
+      `The sample rate ${String(sampleRate)} is invalid.`,
+    );
+  if (!isCount(channelCount, 1) || channelCount > MAX_CHANNELS)
+    throw new ProjectFileError(
+      `The audio has ${String(channelCount)} channels; 1 to ${MAX_CHANNELS} are supported.`,
+    );
+  if (!isCount(length))
+    throw new ProjectFileError(
+      `The audio length ${String(length)} is invalid.`,
+    );
+  if (
+    embeddedChannels !== undefined &&
+    !(
+      Array.isArray(embeddedChannels) &&
+      embeddedChannels.length === channelCount &&
+      embeddedChannels.every((c) => typeof c === 'string')
+    )
+  )
+    throw new ProjectFileError(
+      `The embedded audio does not hold ${channelCount} channel(s).`,
+    );
+  return audio as unknown as ProjectAudioInfo;
+};
+
+const checkMaskEntries = (masks: unknown): ProjectMaskLayers[] => {
+  if (!Array.isArray(masks))
+    throw new ProjectFileError('The project has no list of masks.');
+  const isData = (value: unknown, optional: boolean) =>
+    typeof value === 'string' || (optional && value === undefined);
+  masks.forEach((layers, i) => {
+    if (
+      !isRecord(layers) ||
+      typeof layers.view !== 'string' ||
+      !isData(layers.gainDbLayer, false) ||
+      !isData(layers.generativeDbLayer, false) ||
+      !isData(layers.generativeModeLayer, true) ||
+      !isData(layers.pastedLayer, true)
+    )
+      throw new ProjectFileError(`Mask ${i + 1} is incomplete.`);
+  });
+  return masks as ProjectMaskLayers[];
+};
+// #endregion
+
+export const hashChannels = async (
+  channels: Float32Array[],
+): Promise<string> => {
+  const total = channels.reduce((sum, c) => sum + c.byteLength, 0);
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const channel of channels) {
+    bytes.set(floatBytes(channel), offset);
+    offset += channel.byteLength;
+  }
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, '0'),
+  ).join('');
+};
+
+export const createProjectFile = async ({
+  params,
+  transformParams,
+  masks,
+  channels,
+  audioName,
+  embedAudio,
+}: {
+  params: StftParams;
+  transformParams: TransformParams;
+  masks: ChannelMasks;
+  channels: Float32Array[];
+  audioName: string;
+  embedAudio: boolean;
+}): Promise<Blob> => {
+  const maskEntries = Object.entries(masks) as [ChannelView, SpectralMask][];
+  const [firstMask] = maskEntries.map(([, mask]) => mask);
+  const contents: ProjectFileContents = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    params,
+    transformParams,
+    audio: {
+      name: audioName,
+      sampleRate: params.sr,
+      channelCount: channels.length,
+      length: channels.length > 0 ? channels[0].length : 0,
+      sha256: await hashChannels(channels),
+      embeddedChannels: embedAudio
+        ? await Promise.all(channels.map(compressFloats))
+        : undefined,
+    },
+    stft: { frames: firstMask?.F ?? 0, bins: firstMask?.B ?? 0 },
+    masks: await Promise.all(
+      maskEntries.map(async ([view, mask]) => ({
+        view,
+        gainDbLayer: await compressFloats(mask.gainDbLayer),
+        generativeDbLayer: await compressFloats(mask.generativeDbLayer),
+        generativeModeLayer: await compressBytes(
+          new Uint8Array(mask.generativeModeLayer),
+        ),
+        pastedLayer: await compressFloats(mask.pastedLayer),
+      })),
+    ),
+  };
+  return new Blob([JSON.stringify(contents)], { type: 'application/json' });
+};
+
+// Parses and checks a project file on its own. Whether it fits the loaded
+// audio is checked separately by `checkProjectAudio`.
+export const parseProjectFile = async (
+  text: string,
+): Promise<LoadedProject> => {
+  let contents: Partial<Record<keyof ProjectFileContents, unknown>>;
+  try {
+    contents = JSON.parse(text) as typeof contents;
+  } catch {
+    throw new ProjectFileError('This is not a valid project file (bad JSON).');
+  }
+  if (contents?.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError('This is not a spectral editor project file.');
+  }
+  if (typeof contents.version !== 'number') {
+    throw new ProjectFileError('The project file has no format version.');
+  }
+  if (contents.version > PROJECT_VERSION) {
+    throw new ProjectFileError(
+      `The project was saved by a newer version (format v${contents.version}); this editor reads up to v${PROJECT_VERSION}.`,
+    );
+  }
+
+  if (!isRecord(contents.params)) {
+    throw new ProjectFileError('The project has no STFT settings.');
+  }
+  const params = withParamsDefaults(contents.params);
+  checkParams(params);
+  const audio = checkAudioInfo(contents.audio);
+  const { stft } = contents;
+  if (!isRecord(stft) || !isCount(stft.frames) || !isCount(stft.bins)) {
+    throw new ProjectFileError('The project does not give its mask size.');
+  }
+  const maskEntries = checkMaskEntries(contents.masks);
+  // The mask grid is fully determined by the audio length and STFT settings,
+  // so a mismatch means the file was edited or truncated.
+  const expectedFrames = getFrameLayout(audio.length, params).frames;
+  const expectedBins = params.nfft / 2 + 1;
+  if (stft.frames !== expectedFrames || stft.bins !== expectedBins) {
+    throw new ProjectFileError(
+      `The mask is ${stft.frames}x${stft.bins} (frames x bins), but ${audio.length} samples with n_fft ${params.nfft} and hop ${params.hopLength} give ${expectedFrames}x${expectedBins}.`,
+    );
+  }
+
+  const views = getChannelViews(audio.channelCount);
+  const masks: ChannelMasks = {};
+  for (const layers of maskEntries) {
+    if (!views.includes(layers.view)) {
+      throw new ProjectFileError(
+        `The project has a '${layers.view}' mask, but its audio has ${audio.channelCount} channel(s).`,
+      );
+    }
+    const size = stft.frames * stft.bins;
+    const mask = new SpectralMask(stft.frames, stft.bins);
+    mask.gainDbLayer = await decompressFloats(
+      layers.gainDbLayer,
+      size,
+      `${layers.view} gain mask`,
+    );
+    mask.generativeDbLayer = await decompressFloats(
+      layers.generativeDbLayer,
+      size,
+      `${layers.view} generative mask`,
+    );
+    if (layers.generativeModeLayer) {
+      mask.generativeModeLayer = await decompressBytes(
+        layers.generativeModeLayer,
+        size,
+        1,
+        `${layers.view} generative mode`,
+      );
+    } else {
+      // Before v2 every generative cell was resynthesized with random phase.
+      mask.generativeModeLayer.fill(GENERATIVE_MODE_CODES.noise);
+    }
+    // Before v3 nothing could be pasted, so the layer stays empty.
+    if (layers.pastedLayer) {
+      mask.pastedLayer = await decompressFloats(
+        layers.pastedLayer,
+        size * 2,
+        `${layers.view} pasted content`,
+      );
+    }
+    masks[layers.view] = mask;
+  }
+
+  const { embeddedChannels, ...audioInfo } = audio;
+  let decodedChannels: Float32Array[] | null = null;
+  if (embeddedChannels) {
+    decodedChannels = await Promise.all(
+      embeddedChannels.map((c, i) =>
+        decompressFloats(c, audio.length, `embedded audio channel ${i + 1}`),
+      ),
+    );
+    if ((await hashChannels(decodedChannels)) !== audio.sha256) {
+      throw new ProjectFileError(
+        'The embedded audio does not match its recorded hash; the project file is corrupt.',
+      );
+    }
+  }
+
+  return {
+    params,
+    transformParams: withTransformDefaults(
+      isRecord(contents.transformParams) ? contents.transformParams : {},
+    ),
+    audio: audioInfo,
+    embeddedChannels: decodedChannels,
+    masks,
+  };
+};
+
+// Confirms the project's masks were painted on `channels`.
+export const checkProjectAudio = async (
+  project: LoadedProject,
+  channels: Float32Array[],
+  sampleRate: number,
+): Promise<void> => {
+  const { audio } = project;
+  const loaded = `the loaded audio (${channels.length} ch, ${sampleRate} Hz, ${channels[0]?.length ?? 0} samples)`;
+  if (
+    channels.length !== audio.channelCount ||
+    sampleRate !== audio.sampleRate ||
+    channels[0]?.length !== audio.length
+  ) {
+    throw new ProjectFileError(
+      `The project mask was made for '${audio.name}' (${audio.channelCount} ch, ${audio.sampleRate} Hz, ${audio.length} samples) and does not match ${loaded}.`,
+    );
+  }
+  if ((await hashChannels(channels)) !== audio.sha256) {
+    throw new ProjectFileError(
+      `The project mask was made for '${audio.name}', but the loaded audio has different content. Load the original file first.`,
+    );
+  }
+};
@@ -0,0 +1,416 @@
+import {
+  BrushParams,
+  ChannelView,
+  SelectionTool,
+  SpectralPoint,
+  SpectralSelection,
+  WandConnectivity,
+} from '../types';
+import { GENERATIVE_MODE_CODES } from '../constants';
+
+import {
+  MASK_GAIN_CEIL_DB,
+  MASK_GAIN_FLOOR_DB,
+  SpectralMask,
+  StftJobOptions,
+  yieldToEventLoop,
+} from './signalService';
+import { deriveChannelCell } from './channels';
+
+export const SELECTION_TOOL_LABELS: Record<SelectionTool, string> = {
+  rectangle: 'Rectangle',
+  lasso: 'Lasso',
+  timeRange: 'Time Range',
+  frequencyBand: 'Band',
+  magicWand: 'Magic Wand',
+};
+
+// The polygon a drag from `a` to `b` selects with any tool but the lasso,
+// whose polygon is the dragged path itself. Time ranges span every bin and
+// frequency bands every frame.
+export const dragSelectionPolygon = (
+  tool: Exclude<SelectionTool, 'lasso' | 'magicWand'>,
+  a: SpectralPoint,
+  b: SpectralPoint,
+  dimensions: { frames: number; bins: number },
+): SpectralPoint[] => {
+  let f0 = Math.min(a.frame, b.frame);
+  let f1 = Math.max(a.frame, b.frame);
+  let b0 = Math.min(a.bin, b.bin);
+  let b1 = Math.max(a.bin, b.bin);
+  if (tool === 'timeRange') {
+    b0 = 0;
+    b1 = dimensions.bins;
+  } else if (tool === 'frequencyBand') {
+    f0 = 0;
+    f1 = dimensions.frames;
+  }
+  return [
+    { frame: f0, bin: b0 },
+    { frame: f1, bin: b0 },
+    { frame: f1, bin: b1 },
+    { frame: f0, bin: b1 },
+  ];
+};
+
+// Per-cell weights of a selection (0-1, frame-major like the mask layers),
+// and the inclusive bounds of the cells with any weight.
+export interface SelectionWeights {
+  weights: Float32Array;
+  f0: number;
+  f1: number;
+  b0: number;
+  b1: number;
+}
+
+// Even-odd fill of the cells whose centres fall inside the polygon, one frame
+// column at a time.
+const fillPolygon = (
+  polygon: SpectralPoint[],
+  F: number,
+  B: number,
+): Float32Array => {
+  const weights = new Float32Array(F * B);
+  if (polygon.length < 3) return weights;
+  const frames = polygon.map((p) => p.frame);
+  const firstFrame = Math.max(0, Math.floor(Math.min(...frames)));
+  const lastFrame = Math.min(F - 1, Math.ceil(Math.max(...frames)));
+  const crossings: number[] = [];
+  for (let f = firstFrame; f <= lastFrame; f++) {
+    const x = f + 0.5;
+    crossings.length = 0;
+    for (let i = 0; i < polygon.length; i++) {
+      const p = polygon[i];
+      const q = polygon[(i + 1) % polygon.length];
+      if (p.frame <= x === q.frame <= x) continue;
+      crossings.push(
+        p.bin + ((x - p.frame) / (q.frame - p.frame)) * (q.bin - p.bin),
+      );
+    }
+    crossings.sort((a, b) => a - b);
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      // Bins whose centre (b + 0.5) lies between the two crossings.
+      const from = Math.max(0, Math.ceil(crossings[k] - 0.5));
+      const to = Math.min(B - 1, Math.floor(crossings[k + 1] - 0.5));
+      weights.fill(1, f * B + from, f * B + to + 1);
+    }
+  }
+  return weights;
+};
+
+// Cells connected to `seed` whose level is within `toleranceDb` of the seed's.
+// Levels are read lazily, once per cell reached. A fill can cover the whole
+// file, so it yields now and then and stops when `signal` is aborted.
+export const magicWandCells = async (
+  levelDb: (frame: number, bin: number) => number,
+  F: number,
+  B: number,
+  seed: { frame: number; bin: number },
+  toleranceDb: number,
+  connectivity: WandConnectivity,
+  { signal }: StftJobOptions = {},
+): Promise<Uint8Array> => {
+  // 0: not reached yet, 1: selected, 2: reached but too different.
+  const cells = new Uint8Array(F * B);
+  const queue = new Int32Array(F * B);
+  const seedDb = levelDb(seed.frame, seed.bin);
+  const neighbours =
+    connectivity === 8
+      ? [
+          [-1, -1],
+          [-1, 0],
+          [-1, 1],
+          [0, -1],
+          [0, 1],
+          [1, -1],
+          [1, 0],
+          [1, 1],
+        ]
+      : [
+          [-1, 0],
+          [1, 0],
+          [0, -1],
+          [0, 1],
+        ];
+  let head = 0,
+    tail = 0;
+  cells[seed.frame * B + seed.bin] = 1;
+  queue[tail++] = seed.frame * B + seed.bin;
+  let lastYield = performance.now();
+  while (head < tail) {
+    if (head % 4096 === 0 && performance.now() - lastYield > 10) {
+      await yieldToEventLoop();
+      signal?.throwIfAborted();
+      lastYield = performance.now();
+    }
+    const i = queue[head++];
+    const f = Math.floor(i / B);
+    const b = i - f * B;
+    for (const [df, db] of neighbours) {
+      const nf = f + df;
+      const nb = b + db;
+      if (nf < 0 || nf >= F || nb < 0 || nb >= B) continue;
+      const j = nf * B + nb;
+      if (cells[j] !== 0) continue;
+      if (Math.abs(levelDb(nf, nb) - seedDb) <= toleranceDb) {
+        cells[j] = 1;
+        queue[tail++] = j;
+      } else {
+        cells[j] = 2;
+      }
+    }
+  }
+  for (let i = 0; i < cells.length; i++) if (cells[i] === 2) cells[i] = 0;
+  return cells;
+};
+
+// A moving average of width 2 * radius + 1 along one axis, in place.
+const boxBlur = (
+  weights: Float32Array,
+  count: number,
+  length: number,
+  stride: number,
+  step: number,
+  radius: number,
+) => {
+  const line = new Float32Array(length);
+  for (let i = 0; i < count; i++) {
+    const base = i * stride;
+    for (let j = 0; j < length; j++) line[j] = weights[base + j * step];
+    let sum = 0;
+    for (let j = -radius; j < radius; j++)
+      if (j >= 0 && j < length) sum += line[j];
+    for (let j = 0; j < length; j++) {
+      if (j + radius < length) sum += line[j + radius];
+      weights[base + j * step] = sum / (2 * radius + 1);
+      if (j - radius >= 0) sum -= line[j - radius];
+    }
+  }
+};
+
+// Null when nothing is selected. Feathering blurs the edge over `feather`
+// cells (two box passes, about a triangle), half inside and half outside.
+export const selectionWeights = (
+  selection: SpectralSelection,
+  F: number,
+  B: number,
+): SelectionWeights | null => {
+  const weights = selection.cells
+    ? Float32Array.from(selection.cells)
+    : fillPolygon(selection.polygon, F, B);
+  if (selection.inverted)
+    for (let i = 0; i < weights.length; i++) weights[i] = 1 - weights[i];
+  const radius = Math.round(selection.feather / 4);
+  if (radius > 0) {
+    for (let pass = 0; pass < 2; pass++) {
+      boxBlur(weights, F, B, B, 1, radius); // Along bins
+      boxBlur(weights, B, F, 1, B, radius); // Along frames
+    }
+  }
+
+  let f0 = Infinity,
+    f1 = -1,
+    b0 = Infinity,
+    b1 = -1;
+  for (let f = 0; f < F; f++) {
+    for (let b = 0; b < B; b++) {
+      if (weights[f * B + b] <= 1e-6) continue;
+      if (f < f0) f0 = f;
+      if (f > f1) f1 = f;
+      if (b < b0) b0 = b;
+      if (b > b1) b1 = b;
+    }
+  }
+  return f1 < 0 ? null : { weights, f0, f1, b0, b1 };
+};
+
+const clampGain = (db: number) =>
+  Math.max(MASK_GAIN_FLOOR_DB, Math.min(MASK_GAIN_CEIL_DB, db));
+
+// Scales everything the mask lets through by `keep` (0-1), in dB where the
+// layer is in dB.
+const attenuate = (mask: SpectralMask, i: number, keep: number) => {
+  const db = 20 * Math.log10(Math.max(keep, 1e-5));
+  mask.gainDbLayer[i] = clampGain(mask.gainDbLayer[i] + db);
+  if (mask.generativeDbLayer[i] > -900)
+    mask.generativeDbLayer[i] =
+      keep > 0 ? mask.generativeDbLayer[i] + db : -999;
+  mask.pastedLayer[i * 2] *= keep;
+  mask.pastedLayer[i * 2 + 1] *= keep;
+};
+
+const forEachCell = (
+  { weights, f0, f1, b0, b1 }: SelectionWeights,
+  mask: SpectralMask,
+  visit: (i: number, weight: number) => void,
+) => {
+  for (let f = f0; f <= f1; f++) {
+    for (let b = b0; b <= b1; b++) {
+      const i = mask.idx(f, b);
+      if (weights[i] > 0) visit(i, weights[i]);
+    }
+  }
+};
+
+// Adds `gainDb`, scaled by each cell's weight, to the gain layer.
+export const applySelectionGain = (
+  mask: SpectralMask,
+  selection: SelectionWeights,
+  gainDb: number,
+) =>
+  forEachCell(selection, mask, (i, w) => {
+    mask.gainDbLayer[i] = clampGain(mask.gainDbLayer[i] + gainDb * w);
+  });
+
+// What a brush dab does to a cell, over the whole selection with its weight
+// in place of the dab falloff: a cut or boost of the gain layer, or generated
+// content at the brush loudness.
+export const applyBrushToSelection = (
+  mask: SpectralMask,
+  selection: SelectionWeights,
+  brush: BrushParams,
+) =>
+  forEachCell(selection, mask, (i, w) => {
+    if (brush.brushMode === 'subtractive') {
+      mask.gainDbLayer[i] = clampGain(mask.gainDbLayer[i] + brush.gainDb * w);
+      return;
+    }
+    mask.generativeDbLayer[i] = Math.max(
+      mask.generativeDbLayer[i],
+      brush.gainDb - (1 - w) * 20,
+    );
+    mask.generativeModeLayer[i] = GENERATIVE_MODE_CODES[brush.generativeMode];
+  });
+
+// Fades the original, generated and pasted content of the selection out,
+// fully where the weight is 1.
+export const silenceSelection = (
+  mask: SpectralMask,
+  selection: SelectionWeights,
+) => forEachCell(selection, mask, (i, w) => attenuate(mask, i, 1 - w));
+
+// A copied region, frame-major over frames f0..f1 and bins b0..b1. Masks are
+// copied layer by layer; content is the original STFT of the view, before
+// any edits.
+export type SelectionClipboard = {
+  f0: number;
+  frames: number;
+  b0: number;
+  bins: number;
+  weights: Float32Array;
+} & (
+  | {
+      kind: 'mask';
+      gainDb: Float32Array;
+      generativeDb: Float32Array;
+      generativeMode: Uint8Array;
+      pasted: Float32Array;
+    }
+  | { kind: 'content'; content: Float32Array } // Interleaved re/im
+);
+
+const clipRegion = (
+  { weights, f0, f1, b0, b1 }: SelectionWeights,
+  B: number,
+) => {
+  const frames = f1 - f0 + 1;
+  const bins = b1 - b0 + 1;
+  const clipWeights = new Float32Array(frames * bins);
+  for (let f = 0; f < frames; f++)
+    clipWeights.set(
+      weights.subarray((f0 + f) * B + b0, (f0 + f) * B + b1 + 1),
+      f * bins,
+    );
+  return { f0, frames, b0, bins, weights: clipWeights };
+};
+
+export const copySelectionMask = (
+  mask: SpectralMask,
+  selection: SelectionWeights,
+): SelectionClipboard => {
+  const region = clipRegion(selection, mask.B);
+  const size = region.frames * region.bins;
+  const clip = {
+    ...region,
+    kind: 'mask' as const,
+    gainDb: new Float32Array(size),
+    generativeDb: new Float32Array(size),
+    generativeMode: new Uint8Array(size),
+    pasted: new Float32Array(size * 2),
+  };
+  for (let f = 0; f < region.frames; f++) {
+    for (let b = 0; b < region.bins; b++) {
+      const i = mask.idx(region.f0 + f, region.b0 + b);
+      const k = f * region.bins + b;
+      clip.gainDb[k] = mask.gainDbLayer[i];
+      clip.generativeDb[k] = mask.generativeDbLayer[i];
+      clip.generativeMode[k] = mask.generativeModeLayer[i];
+      clip.pasted[k * 2] = mask.pastedLayer[i * 2];
+      clip.pasted[k * 2 + 1] = mask.pastedLayer[i * 2 + 1];
+    }
+  }
+  return clip;
+};
+
+export const copySelectionContent = (
+  channelStfts: number[][][][],
+  view: ChannelView,
+  selection: SelectionWeights,
+  B: number,
+): SelectionClipboard => {
+  const region = clipRegion(selection, B);
+  const content = new Float32Array(region.frames * region.bins * 2);
+  for (let f = 0; f < region.frames; f++) {
+    for (let b = 0; b < region.bins; b++) {
+      const k = (f * region.bins + b) * 2;
+      const [re, im] = deriveChannelCell(
+        channelStfts,
+        view,
+        region.b0 + b,
+        region.f0 + f,
+      );
+      content[k] = re;
+      content[k + 1] = im;
+    }
+  }
+  return { ...region, kind: 'content', content };
+};
+
+// Pastes a clip with its first frame at `frame`, cross-fading by the copied
+// weights. Content replaces what the target cells let through; a mask clip
+// blends its gain in and adds its generated and pasted content.
+export const pasteSelection = (
+  mask: SpectralMask,
+  clip: SelectionClipboard,
+  frame: number,
+) => {
+  for (let f = 0; f < clip.frames; f++) {
+    const target = frame + f;
+    if (target < 0 || target >= mask.F) continue;
+    for (let b = 0; b < clip.bins; b++) {
+      const bin = clip.b0 + b;
+      const k = f * clip.bins + b;
+      const w = clip.weights[k];
+      if (bin >= mask.B || w <= 0) continue;
+      const i = mask.idx(target, bin);
+      if (clip.kind === 'content') {
+        attenuate(mask, i, 1 - w);
+        mask.pastedLayer[i * 2] += clip.content[k * 2] * w;
+        mask.pastedLayer[i * 2 + 1] += clip.content[k * 2 + 1] * w;
+        continue;
+      }
+      mask.gainDbLayer[i] = clampGain(
+        mask.gainDbLayer[i] * (1 - w) + clip.gainDb[k] * w,
+      );
+      if (clip.generativeDb[k] > -900) {
+        const db = clip.generativeDb[k] + 20 * Math.log10(w);
+        if (db > mask.generativeDbLayer[i]) {
+          mask.generativeDbLayer[i] = db;
+          mask.generativeModeLayer[i] = clip.generativeMode[k];
+        }
+      }
+      mask.pastedLayer[i * 2] += clip.pasted[k * 2] * w;
+      mask.pastedLayer[i * 2 + 1] += clip.pasted[k * 2 + 1] * w;
+    }
+  }
+};
@@ -0,0 +1,218 @@
+import { SignalGeneratorParams, SignalType } from '../types';
+import { createRng } from '../utils';
+
+// Synthetic test signals with known spectra, for checking STFT behaviour
+// against analytic ground truth. All signals peak at the requested level.
+
+export const SIGNAL_LABELS: Record<SignalType, string> = {
+  sine: 'Sine',
+  multiTone: 'Multi-tone',
+  linearChirp: 'Linear chirp',
+  logChirp: 'Log chirp',
+  impulseTrain: 'Impulse train',
+  whiteNoise: 'White noise',
+  pinkNoise: 'Pink noise',
+  square: 'Square',
+  sawtooth: 'Sawtooth',
+  am: 'AM tone',
+  fm: 'FM tone',
+};
+
+// Which optional settings each signal type uses, for the generator form.
+export const SIGNAL_SETTINGS: Record<
+  SignalType,
+  ('frequency' | 'endFrequency' | 'frequencies' | 'modulation')[]
+> = {
+  sine: ['frequency'],
+  multiTone: ['frequencies'],
+  linearChirp: ['frequency', 'endFrequency'],
+  logChirp: ['frequency', 'endFrequency'],
+  impulseTrain: ['frequency'],
+  whiteNoise: [],
+  pinkNoise: [],
+  square: ['frequency'],
+  sawtooth: ['frequency'],
+  am: ['frequency', 'modulation'],
+  fm: ['frequency', 'modulation'],
+};
+
+const TWO_PI = 2 * Math.PI;
+
+// Scales `signal` in place so its largest magnitude is `peak`.
+const normalizePeak = (signal: Float32Array, peak: number) => {
+  let max = 0;
+  for (const v of signal) max = Math.max(max, Math.abs(v));
+  if (max > 0) for (let i = 0; i < signal.length; i++) signal[i] *= peak / max;
+  return signal;
+};
+
+// One cycle of a waveform built from its harmonics up to Nyquist, so square
+// and sawtooth waves do not alias. `amplitude(k)` is harmonic k's sine weight.
+const bandLimitedCycle = (
+  frequency: number,
+  sampleRate: number,
+  amplitude: (k: number) => number,
+): Float32Array => {
+  const harmonics = Math.max(1, Math.floor(sampleRate / 2 / frequency));
+  // Enough points per cycle to resolve the top harmonic smoothly.
+  let size = 4096;
+  while (size < harmonics * 16 && size < 1 << 16) size *= 2;
+  const cycle = new Float32Array(size + 1); // Last point repeats the first
+  for (let k = 1; k <= harmonics; k++) {
+    const a = amplitude(k);
+    if (a === 0) continue;
+    for (let i = 0; i <= size; i++)
+      cycle[i] += a * Math.sin((TWO_PI * k * i) / size);
+  }
+  return cycle;
+};
+
+const playCycle = (
+  cycle: Float32Array,
+  frequency: number,
+  sampleRate: number,
+  length: number,
+): Float32Array => {
+  const size = cycle.length - 1;
+  const out = new Float32Array(length);
+  for (let n = 0; n < length; n++) {
+    const position = (((n * frequency) / sampleRate) % 1) * size;
+    const i = Math.floor(position);
+    const frac = position - i;
+    out[n] = cycle[i] * (1 - frac) + cycle[i + 1] * frac;
+  }
+  return out;
+};
+
+export const generateSignal = (
+  params: SignalGeneratorParams,
+  seed: number,
+): Float32Array => {
+  const { type, sampleRate: sr, frequency: f0, endFrequency: f1 } = params;
+  const length = Math.max(1, Math.round(params.duration * sr));
+  const duration = length / sr;
+  const peak = Math.pow(10, params.amplitudeDb / 20);
+  const out = new Float32Array(length);
+  const t = (n: number) => n / sr;
+
+  switch (type) {
+    case 'sine':
+      for (let n = 0; n < length; n++)
+        out[n] = peak * Math.sin(TWO_PI * f0 * t(n));
+      return out;
+
+    case 'multiTone': {
+      const tones = params.frequencies.filter((f) => f > 0 && f < sr / 2);
+      for (const f of tones)
+        for (let n = 0; n < length; n++) out[n] += Math.sin(TWO_PI * f * t(n));
+      return normalizePeak(out, peak);
+    }
+
+    case 'linearChirp': {
+      // Instantaneous frequency f0 + (f1 - f0) t / T.
+      const rate = (f1 - f0) / duration;
+      for (let n = 0; n < length; n++) {
+        const time = t(n);
+        out[n] =
+          peak * Math.sin(TWO_PI * (f0 * time + (rate * time * time) / 2));
+      }
+      return out;
+    }
+
+    case 'logChirp': {
+      // Instantaneous frequency f0 (f1 / f0)^(t / T).
+      const start = Math.max(f0, 1e-3);
+      const ratio = Math.max(f1, 1e-3) / start;
+      if (Math.abs(Math.log(ratio)) < 1e-9) {
+        for (let n = 0; n < length; n++)
+          out[n] = peak * Math.sin(TWO_PI * start * t(n));
+        return out;
+      }
+      const k = Math.log(ratio) / duration;
+      for (let n = 0; n < length; n++)
+        out[n] =
+          peak * Math.sin(((TWO_PI * start) / k) * (Math.exp(k * t(n)) - 1));
+      return out;
+    }
+
+    case 'impulseTrain': {
+      const period = sr / Math.max(f0, 1e-3);
+      for (let m = 0; Math.round(m * period) < length; m++)
+        out[Math.round(m * period)] = peak;
+      return out;
+    }
+
+    case 'whiteNoise': {
+      const random = createRng(seed);
+      for (let n = 0; n < length; n++) out[n] = peak * (2 * random() - 1);
+      return out;
+    }
+
+    case 'pinkNoise': {
+      // Paul Kellet's filter: white noise through parallel one-pole
+      // lowpasses, giving a -3 dB/octave slope across the audio band.
+      const random = createRng(seed);
+      let b0 = 0,
+        b1 = 0,
+        b2 = 0,
+        b3 = 0,
+        b4 = 0,
+        b5 = 0,
+        b6 = 0;
+      for (let n = 0; n < length; n++) {
+        const white = 2 * random() - 1;
+        b0 = 0.99886 * b0 + white * 0.0555179;
+        b1 = 0.99332 * b1 + white * 0.0750759;
+        b2 = 0.969 * b2 + white * 0.153852;
+        b3 = 0.8665 * b3 + white * 0.3104856;
+        b4 = 0.55 * b4 + white * 0.5329522;
+        b5 = -0.7616 * b5 - white * 0.016898;
+        out[n] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
+        b6 = white * 0.115926;
+      }
+      return normalizePeak(out, peak);
+    }
+
+    case 'square': {
+      const cycle = bandLimitedCycle(f0, sr, (k) => (k % 2 === 1 ? 1 / k : 0));
+      return normalizePeak(playCycle(cycle, f0, sr, length), peak);
+    }
+
+    case 'sawtooth': {
+      const cycle = bandLimitedCycle(f0, sr, (k) => (k % 2 === 1 ? 1 : -1) / k);
+      return normalizePeak(playCycle(cycle, f0, sr, length), peak);
+    }
+
+    case 'am': {
+      const depth = Math.min(1, Math.max(0, params.modDepth));
+      for (let n = 0; n < length; n++) {
+        const envelope =
+          1 + depth * Math.sin(TWO_PI * params.modFrequency * t(n));
+        out[n] =
+          ((peak * envelope) / (1 + depth)) * Math.sin(TWO_PI * f0 * t(n));
+      }
+      return out;
+    }
+
+    case 'fm':
+      for (let n = 0; n < length; n++) {
+        const deviation =
+          params.modIndex * Math.sin(TWO_PI * params.modFrequency * t(n));
+        out[n] = peak * Math.sin(TWO_PI * f0 * t(n) + deviation);
+      }
+      return out;
+  }
+};
+
+// A short file-name-friendly description, e.g. "sine-440Hz".
+export const describeSignal = (params: SignalGeneratorParams): string => {
+  const hz = (f: number) => `${Math.round(f)}Hz`;
+  const settings = SIGNAL_SETTINGS[params.type];
+  const parts = [SIGNAL_LABELS[params.type].toLowerCase().replace(/\s+/g, '-')];
+  if (settings.includes('frequencies'))
+    parts.push(params.frequencies.map(hz).join('+'));
+  else if (settings.includes('endFrequency'))
+    parts.push(`${hz(params.frequency)}-${hz(params.endFrequency)}`);
+  else if (settings.includes('frequency')) parts.push(hz(params.frequency));
+  return parts.join('-');
+};
@@ -1,61 +1,119 @@
 import FFT from 'fft.js';
-import { StftParams, SpectrogramData, TransformParams } from '../types';
+
+import {
+  ChannelView,
+  GenerativeMode,
+  GlitchEvent,
+  StftParams,
+  SpectrogramAggregation,
+  SpectrogramData,
+  SpectrogramViewport,
+  TransformParams,
+} from '../types';
+import { GENERATIVE_MODE_CODES } from '../constants';
+import { createRng, mixSeed } from '../utils';
+
+import { getStftWindow } from './windows';
+import { BASE_CHANNEL_VIEWS, combineStfts, getChannelViews } from './channels';
+import { renderGenerativeLayer } from './generativeSynthesis';
+import { applyAudioGlitches } from './audioGlitches';
+import { applySpectralGlitches } from './spectralGlitches';
+
+// Options shared by the long-running service functions so callers (the STFT
+// worker in particular) can report progress and abandon superseded work.
+export interface StftJobOptions {
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+// Yields to the event loop. Unlike requestAnimationFrame this also works in
+// workers and in Node, and lets queued cancel messages be processed.
+export const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
 
 // #region Spectral Mask Class
+// Limits of the multiplicative gain layer, in dB.
+export const MASK_GAIN_FLOOR_DB = -80;
+export const MASK_GAIN_CEIL_DB = 24;
 export class SpectralMask {
   F: number; // frames
   B: number; // bins
   gainDbLayer: Float32Array; // Multiplicative gain, in dB. 0 is unity.
   generativeDbLayer: Float32Array; // Additive tone loudness, in dBFS. -999 is silent.
+  generativeModeLayer: Uint8Array; // GENERATIVE_MODE_CODES of each generative cell
+  pastedLayer: Float32Array; // Additive STFT content pasted from elsewhere, interleaved re/im. 0 is nothing.
 
   constructor(F: number, B: number) {
     this.F = F;
     this.B = B;
     this.gainDbLayer = new Float32Array(F * B).fill(0);
     this.generativeDbLayer = new Float32Array(F * B).fill(-999);
+    this.generativeModeLayer = new Uint8Array(F * B);
+    this.pastedLayer = new Float32Array(F * B * 2);
   }
 
   idx(f: number, b: number) {
     return f * this.B + b;
   }
 
+  // True when the mask leaves the signal untouched.
+  isIdentity(): boolean {
+    return (
+      this.gainDbLayer.every((v) => v === 0) &&
+      this.generativeDbLayer.every((v) => v <= -900) &&
+      this.pastedLayer.every((v) => v === 0)
+    );
+  }
+
   clone(): SpectralMask {
     const newMask = new SpectralMask(this.F, this.B);
     newMask.gainDbLayer.set(this.gainDbLayer);
     newMask.generativeDbLayer.set(this.generativeDbLayer);
+    newMask.generativeModeLayer.set(this.generativeModeLayer);
+    newMask.pastedLayer.set(this.pastedLayer);
     return newMask;
   }
 
+  // The brush is an ellipse around (centerF, centerB). On a warped frequency
+  // axis a round brush covers a different number of bins below and above its
+  // centre, so the bin radius may be given per side.
   applyBrush(
     centerF: number,
     centerB: number,
-    radiusB: number,
+    radiusB: number | { below: number; above: number },
     gainDb: number,
     isErase: boolean,
     brushMode: 'subtractive' | 'generative',
+    generativeMode: GenerativeMode = 'tone',
   ) {
     const layer =
       brushMode === 'subtractive' ? this.gainDbLayer : this.generativeDbLayer;
     const neutralValue = brushMode === 'subtractive' ? 0 : -999;
-    const radiusF = Math.max(2, Math.round(radiusB / 4));
+    const { below, above } =
+      typeof radiusB === 'number'
+        ? { below: radiusB, above: radiusB }
+        : radiusB;
+    const radiusF = Math.max(2, Math.round((below + above) / 8));
 
     const f0 = Math.max(0, Math.floor(centerF - radiusF)),
       f1 = Math.min(this.F - 1, Math.ceil(centerF + radiusF));
-    const b0 = Math.max(0, Math.floor(centerB - radiusB)),
-      b1 = Math.min(this.B - 1, Math.ceil(centerB + radiusB));
+    const b0 = Math.max(0, Math.floor(centerB - below)),
+      b1 = Math.min(this.B - 1, Math.ceil(centerB + above));
 
     for (let f = f0; f <= f1; f++) {
       const df = (f - centerF) / (radiusF || 1);
       for (let b = b0; b <= b1; b++) {
-        const db = (b - centerB) / (radiusB || 1);
+        const db = (b - centerB) / ((b < centerB ? below : above) || 1);
         const distSq = df * df + db * db;
 
         if (distSq <= 1) {
           const idx = this.idx(f, b);
           if (isErase) {
             // A hard erase is fine, a feathered erase might feel better but is more complex.
-            if (brushMode === 'generative') layer[idx] = neutralValue;
-            else {
+            if (brushMode === 'generative') {
+              layer[idx] = neutralValue;
+              this.generativeModeLayer[idx] = GENERATIVE_MODE_CODES.tone;
+            } else {
               // Feather erase for subtractive
               const currentDb = layer[idx];
               const deltaDb = -gainDb; // Add back the gain
@@ -68,12 +126,17 @@ export class SpectralMask {
             if (brushMode === 'subtractive') {
               const currentDb = layer[idx];
               const newDb = currentDb + gainDb * w;
-              layer[idx] = Math.max(-80, Math.min(24, newDb));
+              layer[idx] = Math.max(
+                MASK_GAIN_FLOOR_DB,
+                Math.min(MASK_GAIN_CEIL_DB, newDb),
+              );
             } else {
               // 'generative'
               const targetDb = gainDb; // Here, gainDb is the loudness
               // When generating, we set the max loudness in the area.
               layer[idx] = Math.max(layer[idx], targetDb - (1 - w) * 20); // Feather the loudness
+              this.generativeModeLayer[idx] =
+                GENERATIVE_MODE_CODES[generativeMode];
             }
           }
         }
@@ -83,26 +146,88 @@ export class SpectralMask {
 }
 // #endregion
 
-const getHannWindow = (length: number): Float32Array => {
-  const window = new Float32Array(length);
-  for (let i = 0; i < length; i++) {
-    window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (length - 1)));
-  }
-  return window;
-};
+// One mask per channel view; views without a mask are left untouched.
+export type ChannelMasks = Partial<Record<ChannelView, SpectralMask>>;
 
 const transpose = (matrix: any[][]): any[][] => {
   if (!matrix || matrix.length === 0 || matrix[0].length === 0) return [];
   return matrix[0].map((_, colIndex) => matrix.map((row) => row[colIndex]));
 };
 
-const stft = (signal: Float32Array, params: StftParams): number[][][] => {
+// #region Framing
+export interface FrameLayout {
+  frames: number;
+  padLeft: number; // Samples of padding before the signal
+  paddedLength: number; // Length covered by all frames, padding included
+}
+
+// librosa/scipy-style framing. With `center`, frame f is centered on sample
+// f * hop; without it, frame f starts there. Either way the end is padded so
+// every input sample falls inside at least one frame.
+export const getFrameLayout = (
+  length: number,
+  params: StftParams,
+): FrameLayout => {
+  const { nfft, hopLength, center } = params;
+  const padLeft = center ? Math.floor(nfft / 2) : 0;
+  const frames =
+    1 + Math.max(0, Math.ceil((length + 2 * padLeft - nfft) / hopLength));
+  return { frames, padLeft, paddedLength: (frames - 1) * hopLength + nfft };
+};
+
+// Maps an out-of-range index back into [0, n) by mirroring about the end
+// samples without repeating them (numpy's 'reflect').
+const reflectIndex = (i: number, n: number): number => {
+  if (n === 1) return 0;
+  const period = 2 * (n - 1);
+  const m = ((i % period) + period) % period;
+  return m < n ? m : period - m;
+};
+
+const padSignal = (
+  signal: Float32Array,
+  layout: FrameLayout,
+  params: StftParams,
+): Float32Array => {
+  const { padLeft, paddedLength } = layout;
+  const padded = new Float32Array(paddedLength);
+  padded.set(signal.subarray(0, paddedLength - padLeft), padLeft);
+
+  const n = signal.length;
+  const fill = (i: number, source: number) => {
+    if (n === 0 || params.padMode === 'zero') return;
+    if (params.padMode === 'constant') padded[i] = params.padValue;
+    else if (params.padMode === 'edge')
+      padded[i] = signal[Math.max(0, Math.min(n - 1, source))];
+    else padded[i] = signal[reflectIndex(source, n)];
+  };
+  for (let i = 0; i < padLeft; i++) fill(i, i - padLeft);
+  for (let i = padLeft + n; i < paddedLength; i++) fill(i, i - padLeft);
+  return padded;
+};
+// #endregion
+
+const stftCooperative = async (
+  input: Float32Array,
+  params: StftParams,
+  { signal: abortSignal, onProgress }: StftJobOptions = {},
+): Promise<number[][][]> => {
   const { nfft, hopLength } = params;
-  const window = getHannWindow(nfft);
+  const window = getStftWindow(params);
   const fft = new FFT(nfft);
   const Zxx: number[][][] = [];
+  const layout = getFrameLayout(input.length, params);
+  const signal = padSignal(input, layout, params);
+  let lastYield = performance.now();
 
-  for (let i = 0; i <= signal.length - nfft; i += hopLength) {
+  for (let frameIndex = 0; frameIndex < layout.frames; frameIndex++) {
+    if (performance.now() - lastYield > 10) {
+      onProgress?.(frameIndex / layout.frames);
+      await yieldToEventLoop();
+      abortSignal?.throwIfAborted();
+      lastYield = performance.now();
+    }
+    const i = frameIndex * hopLength;
     const frame = signal.slice(i, i + nfft);
     const windowedFrame = new Float32Array(nfft);
     for (let j = 0; j < nfft; j++) windowedFrame[j] = frame[j] * window[j];
@@ -121,54 +246,24 @@ const stft = (signal: Float32Array, params: StftParams): number[][][] => {
   return transpose(Zxx); // Return as [bins, frames]
 };
 
-const applyAudioGlitches = (
-  signal: Float32Array,
-  params: StftParams,
-  transformParams: TransformParams,
-): Float32Array => {
-  if (!transformParams.audioGlitch.enabled) return signal;
-
-  const { sr } = params;
-  const { params: glitch } = transformParams.audioGlitch;
-  const output = new Float32Array(signal);
-  const chunkSize = 512;
-
-  for (let i = 0; i < output.length; i += chunkSize) {
-    if (Math.random() < glitch.stutterChance) {
-      const stutterDurationSamples = Math.floor(
-        sr * (glitch.stutterDuration / 1000),
-      );
-      const stutterChunk = output.slice(Math.max(0, i - chunkSize), i);
-      if (stutterChunk.length > 0) {
-        for (let s = 0; s < stutterDurationSamples; s++) {
-          if (i + s < output.length)
-            output[i + s] = stutterChunk[s % stutterChunk.length];
-        }
-        i += stutterDurationSamples - chunkSize;
-      }
-    }
-    if (Math.random() < glitch.dropChance) {
-      for (let j = 0; j < chunkSize && i + j < output.length; j++)
-        output[i + j] = 0;
-    }
-  }
-  return output;
-};
-
 const istftCooperative = async (
   ZxxTransposed: number[][][],
   params: StftParams,
   originalLength: number,
+  { signal, onProgress }: StftJobOptions = {},
 ): Promise<Float32Array> => {
   const { nfft, hopLength } = params;
   if (ZxxTransposed.length === 0) return new Float32Array(originalLength);
 
   const Zxx = transpose(ZxxTransposed);
-  const window = getHannWindow(nfft);
+  const window = getStftWindow(params);
   const fft = new FFT(nfft);
 
-  const reconstructedSignal = new Float32Array(originalLength).fill(0);
-  const windowSum = new Float32Array(originalLength).fill(0);
+  // Overlap-add over the padded extent, then trim the padding back off so the
+  // output is exactly `originalLength` samples.
+  const { padLeft, paddedLength } = getFrameLayout(originalLength, params);
+  const reconstructedSignal = new Float32Array(paddedLength).fill(0);
+  const windowSum = new Float32Array(paddedLength).fill(0);
   let lastYield = performance.now();
 
   for (let frameIndex = 0; frameIndex < Zxx.length; frameIndex++) {
@@ -191,14 +286,16 @@ const istftCooperative = async (
 
     const offset = frameIndex * hopLength;
     for (let i = 0; i < nfft; i++) {
-      if (offset + i < originalLength) {
+      if (offset + i < paddedLength) {
         reconstructedSignal[offset + i] += realTimeFrame[i] * window[i];
         windowSum[offset + i] += window[i] * window[i];
       }
     }
 
     if (performance.now() - lastYield > 10) {
-      await new Promise(requestAnimationFrame);
+      onProgress?.(frameIndex / Zxx.length);
+      await yieldToEventLoop();
+      signal?.throwIfAborted();
       lastYield = performance.now();
     }
   }
@@ -207,147 +304,357 @@ const istftCooperative = async (
     if (windowSum[i] > 1e-9) reconstructedSignal[i] /= windowSum[i];
   }
 
-  return reconstructedSignal;
+  return reconstructedSignal.slice(padLeft, padLeft + originalLength);
 };
 
-const generateSpectrogramData = (
+// The part of an STFT a display matrix covers: half-open ranges of frames and
+// bins. The whole-file overview covers everything.
+export const fullViewport = (stft: number[][][]): SpectrogramViewport => ({
+  frameStart: 0,
+  frameEnd: stft.length > 0 ? stft[0].length : 0,
+  binStart: 0,
+  binEnd: stft.length,
+});
+
+export const EMPTY_SPECTROGRAM: SpectrogramData = {
+  data: [],
+  viewport: { frameStart: 0, frameEnd: 0, binStart: 0, binEnd: 0 },
+  cellSize: { frames: 1, bins: 1 },
+};
+
+// Cell counts for the whole-file overview, and for zoomed-in windows, which
+// are recomputed at up to this resolution so detail is not averaged away.
+const OVERVIEW_SIZE = { frames: 512, bins: 256 };
+const DETAIL_SIZE = { frames: 1024, bins: 512 };
+
+// Which part of the STFT to display and how to pool it. Without a viewport
+// the whole STFT is shown at overview resolution.
+export interface SpectrogramDisplayOptions {
+  viewport?: SpectrogramViewport;
+  aggregation?: SpectrogramAggregation;
+}
+
+const magnitudeDb = ([re, im]: number[]) =>
+  20 * Math.log10(Math.sqrt(re * re + im * im) + 1e-12);
+
+// Quietest level the intensity layer keeps. Its cells are levels in dB, so
+// the display can choose its own range without a round trip to the worker.
+export const SPECTROGRAM_DB_FLOOR = -160;
+
+export const generateSpectrogramData = (
   stftResult: number[][][],
-  params: StftParams,
+  options: SpectrogramDisplayOptions = {},
 ): SpectrogramData => {
-  if (!stftResult || stftResult.length === 0)
-    return { data: [], freqLabels: [] };
+  if (!stftResult || stftResult.length === 0) return EMPTY_SPECTROGRAM;
 
-  const dbMatrix = stftResult.map((row) =>
-    row.map((c) => 20 * Math.log10(Math.sqrt(c[0] ** 2 + c[1] ** 2) + 1e-12)),
+  return buildDisplayMatrix(
+    (b, f) => Math.max(SPECTROGRAM_DB_FLOOR, magnitudeDb(stftResult[b][f])),
+    fullViewport(stftResult),
+    options,
+    (db) => db,
   );
+};
 
-  const DB_FLOOR = -90;
-  const DB_CEIL = 0;
-  const DB_SPAN = DB_CEIL - DB_FLOOR;
-  const normalizedMatrix = dbMatrix.map((row) =>
-    row.map((db) => {
-      const clampedDb = Math.max(DB_FLOOR, Math.min(DB_CEIL, db));
-      return (clampedDb - DB_FLOOR) / DB_SPAN;
-    }),
+// A display range for an intensity layer: the ceiling just above its loudest
+// cell, the floor at its quietest few percent, and at most 120 dB between.
+export const estimateDbRange = ({
+  data,
+}: SpectrogramData): { floorDb: number; ceilDb: number } => {
+  const values = Float64Array.from(data.flat()).sort();
+  if (values.length === 0) return { floorDb: -90, ceilDb: 0 };
+  const ceilDb = Math.ceil(values[values.length - 1] / 5) * 5;
+  const quiet = values[Math.floor(values.length * 0.05)];
+  const floorDb = Math.min(
+    ceilDb - 20,
+    Math.max(ceilDb - 120, Math.floor(quiet / 5) * 5),
   );
+  return { floorDb, ceilDb };
+};
 
-  const downsampleAndCreateLabels = (matrix: number[][]): SpectrogramData => {
-    const freqBins = matrix.length,
-      timeSteps = matrix.length > 0 ? matrix[0].length : 0;
-    const MAX_DISPLAY_TIME_STEPS = 512,
-      MAX_DISPLAY_FREQ_BINS = 256;
-    const timeRatio = Math.max(
-      1,
-      Math.floor(timeSteps / MAX_DISPLAY_TIME_STEPS),
+// Level change in dB per cell, scaled by the largest change in the viewport,
+// so a zoomed-in window gets its own contrast.
+export const generateDifferenceSpectrogramData = (
+  originalStft: number[][][],
+  transformedStft: number[][][],
+  options: SpectrogramDisplayOptions = {},
+): SpectrogramData => {
+  if (originalStft.length === 0 || transformedStft.length === 0)
+    return EMPTY_SPECTROGRAM;
+
+  const { frameStart, frameEnd, binStart, binEnd } =
+    options.viewport ?? fullViewport(originalStft);
+  const diff = (b: number, f: number) => {
+    const transformed = transformedStft[b]?.[f];
+    return (
+      (transformed ? magnitudeDb(transformed) : -240) -
+      magnitudeDb(originalStft[b][f])
     );
-    const freqRatio = Math.max(1, Math.floor(freqBins / MAX_DISPLAY_FREQ_BINS));
-    const displayMatrix: number[][] = [];
-
-    for (let i = freqBins - 1; i >= 0; i -= freqRatio) {
-      const newRow: number[] = [];
-      for (let j = 0; j < timeSteps; j += timeRatio) {
-        let sum = 0,
-          count = 0;
-        for (let y = 0; y < freqRatio && i - y >= 0; y++) {
-          for (let x = 0; x < timeRatio && j + x < timeSteps; x++) {
-            sum += matrix[i - y][j + x];
-            count++;
+  };
+  let maxAbsDiff = 0;
+  for (let b = binStart; b < binEnd; b++)
+    for (let f = frameStart; f < frameEnd; f++)
+      maxAbsDiff = Math.max(maxAbsDiff, Math.abs(diff(b, f)));
+  if (maxAbsDiff < 1e-6) maxAbsDiff = 1;
+
+  return buildDisplayMatrix(
+    (b, f) => diff(b, f) / maxAbsDiff,
+    fullViewport(originalStft),
+    options,
+  );
+};
+
+// Display range of the error heatmap, in dB of complex error magnitude. The
+// floor sits below float32 round-trip noise so a lossless reconstruction
+// still shows where its residual error lives.
+export const ERROR_DB_FLOOR = -180;
+export const ERROR_DB_CEIL = 0;
+
+// Magnitude of the complex difference between two STFTs, so phase errors show
+// up as well as magnitude changes.
+export const generateErrorSpectrogramData = (
+  originalStft: number[][][],
+  transformedStft: number[][][],
+  options: SpectrogramDisplayOptions = {},
+): SpectrogramData => {
+  if (originalStft.length === 0 || transformedStft.length === 0)
+    return EMPTY_SPECTROGRAM;
+
+  const span = ERROR_DB_CEIL - ERROR_DB_FLOOR;
+  return buildDisplayMatrix(
+    (b, f) => {
+      const [re, im] = originalStft[b][f];
+      const [re2, im2] = transformedStft[b]?.[f] ?? [0, 0];
+      const db = 20 * Math.log10(Math.hypot(re2 - re, im2 - im) + 1e-12);
+      const clamped = Math.max(ERROR_DB_FLOOR, Math.min(ERROR_DB_CEIL, db));
+      return (clamped - ERROR_DB_FLOOR) / span;
+    },
+    fullViewport(originalStft),
+    options,
+  );
+};
+
+// Pools the viewport's cells into display rows (highest bin first) and
+// columns. 'mean' averages each block; 'max' keeps the value that stands out
+// most (by default the one furthest from zero), so narrow peaks and
+// single-frame clicks stay visible when zoomed out.
+const buildDisplayMatrix = (
+  cell: (bin: number, frame: number) => number,
+  full: SpectrogramViewport,
+  { viewport = full, aggregation = 'mean' }: SpectrogramDisplayOptions,
+  prominence: (value: number) => number = Math.abs,
+): SpectrogramData => {
+  const { frameStart, frameEnd, binStart, binEnd } = viewport;
+  const timeSteps = frameEnd - frameStart;
+  const freqBins = binEnd - binStart;
+  const maxSize = viewport === full ? OVERVIEW_SIZE : DETAIL_SIZE;
+  const timeStepRatio = Math.max(1, Math.ceil(timeSteps / maxSize.frames));
+  const freqBinRatio = Math.max(1, Math.ceil(freqBins / maxSize.bins));
+  const displayMatrix: number[][] = [];
+
+  for (let i = binEnd - 1; i >= binStart; i -= freqBinRatio) {
+    const newRow: number[] = [];
+    for (let j = frameStart; j < frameEnd; j += timeStepRatio) {
+      let sum = 0,
+        count = 0,
+        peak = 0,
+        peakProminence = -Infinity;
+      for (let y = 0; y < freqBinRatio && i - y >= binStart; y++) {
+        for (let x = 0; x < timeStepRatio && j + x < frameEnd; x++) {
+          const value = cell(i - y, j + x);
+          sum += value;
+          if (prominence(value) > peakProminence) {
+            peak = value;
+            peakProminence = prominence(value);
           }
+          count++;
         }
-        newRow.push(count > 0 ? sum / count : 0);
       }
-      displayMatrix.push(newRow);
+      newRow.push(aggregation === 'max' ? peak : count > 0 ? sum / count : 0);
     }
+    displayMatrix.push(newRow);
+  }
 
-    const nyquist = params.sr / 2;
-    const freqLabels = [
-      { bin: 0, label: `${(nyquist / 1000).toFixed(1)} kHz` },
-      {
-        bin: Math.floor(displayMatrix.length / 2),
-        label: `${(nyquist / 2 / 1000).toFixed(1)} kHz`,
-      },
-      { bin: displayMatrix.length - 1, label: '0 kHz' },
-    ];
-    return { data: displayMatrix, freqLabels };
+  return {
+    data: displayMatrix,
+    viewport,
+    cellSize: { frames: timeStepRatio, bins: freqBinRatio },
   };
+};
 
-  return downsampleAndCreateLabels(normalizedMatrix);
+// Packs a [bins][frames][re, im] STFT into one interleaved Float32Array so it
+// can be transferred between threads without copying.
+export const packComplexStft = (complexStft: number[][][]): Float32Array => {
+  const bins = complexStft.length;
+  const frames = bins > 0 ? complexStft[0].length : 0;
+  const packed = new Float32Array(bins * frames * 2);
+  for (let b = 0; b < bins; b++) {
+    const row = complexStft[b];
+    for (let f = 0; f < frames; f++) {
+      const k = (b * frames + f) * 2;
+      packed[k] = row[f][0];
+      packed[k + 1] = row[f][1];
+    }
+  }
+  return packed;
 };
 
-// Main service functions exported to App.tsx
-export const performStft = (audioData: Float32Array, params: StftParams) => {
-  const complexStft = stft(audioData, params);
-  const originalSpectrogram = generateSpectrogramData(complexStft, params);
+export const unpackComplexStft = (
+  packed: Float32Array,
+  bins: number,
+  frames: number,
+): number[][][] =>
+  Array.from({ length: bins }, (_, b) =>
+    Array.from({ length: frames }, (_, f) => {
+      const k = (b * frames + f) * 2;
+      return [packed[k], packed[k + 1]];
+    }),
+  );
+
+// Main service functions exported to App.tsx and the STFT worker
+export const performStft = async (
+  audioData: Float32Array,
+  params: StftParams,
+  options: StftJobOptions = {},
+) => {
+  const complexStft = await stftCooperative(audioData, params, options);
+  const originalSpectrogram = generateSpectrogramData(complexStft);
   return { complexStft, originalSpectrogram };
 };
 
-export const resynthesizeAudio = async (
-  originalComplexStft: number[][][],
+// Applies a mask to a [bins][frames] STFT:
+// (original * gain) + generative + pasted.
+const applyMask = (
+  complexStft: number[][][],
   mask: SpectralMask,
   params: StftParams,
-  originalLength: number,
-  transformParams: TransformParams,
-): Promise<Float32Array> => {
-  const { enabled: spectralEditEnabled } = transformParams.spectralEdit;
-
-  const numBins = originalComplexStft.length;
-  const numFrames = numBins > 0 ? originalComplexStft[0].length : 0;
-
-  // If no edits are enabled, we can take a shortcut, but we still need to apply glitches.
-  // So, we process the STFT fully if either transform is active. The logic below handles this.
-
-  const maskedStft: number[][][] = Array.from({ length: numBins }, () =>
-    Array.from({ length: numFrames }, () => [0, 0]),
+  padLeft: number,
+  random: () => number,
+): number[][][] => {
+  // Tones need whole-frame context (peaks, partial tracking), so the
+  // generative layer is rendered up front.
+  const generated = renderGenerativeLayer(mask, params, padLeft, random);
+  return complexStft.map((row, b) =>
+    row.map(([re, im], f) => {
+      const maskIdx = mask.idx(f, b);
+
+      // 1. Apply multiplicative gain from the subtractive/boost layer.
+      const gainDb = mask.gainDbLayer[maskIdx];
+      const gain = Math.pow(10, gainDb / 20); // gainDb=0 -> gain=1
+
+      // 2. Get the additive signal from the generative layer.
+      const genRe = generated ? generated.re[maskIdx] : 0;
+      const genIm = generated ? generated.im[maskIdx] : 0;
+
+      // 3. Get content pasted in from another time.
+      const pastedRe = mask.pastedLayer[maskIdx * 2];
+      const pastedIm = mask.pastedLayer[maskIdx * 2 + 1];
+
+      // 4. Combine them: (Original * Gain) + Generative + Pasted
+      return [re * gain + genRe + pastedRe, im * gain + genIm + pastedIm];
+    }),
   );
+};
 
-  for (let b = 0; b < numBins; b++) {
-    for (let f = 0; f < numFrames; f++) {
-      const [re, im] = originalComplexStft[b][f];
-
-      if (spectralEditEnabled) {
-        const maskIdx = mask.idx(f, b);
-
-        // 1. Apply multiplicative gain from the subtractive/boost layer.
-        const gainDb = mask.gainDbLayer[maskIdx];
-        const gain = Math.pow(10, gainDb / 20); // gainDb=0 -> gain=1
-        const gainModifiedRe = re * gain;
-        const gainModifiedIm = im * gain;
-
-        // 2. Get the additive signal from the generative layer.
-        let genRe = 0,
-          genIm = 0;
-        const genDb = mask.generativeDbLayer[maskIdx];
-        if (genDb > -900) {
-          const mag = Math.pow(10, genDb / 20);
-          const phase = Math.random() * 2 * Math.PI;
-          genRe = mag * Math.cos(phase);
-          genIm = mag * Math.sin(phase);
-        }
-
-        // 3. Combine them: (Original * Gain) + Generative
-        maskedStft[b][f][0] = gainModifiedRe + genRe;
-        maskedStft[b][f][1] = gainModifiedIm + genIm;
-      } else {
-        // If spectral editing is off, just use the original values.
-        maskedStft[b][f][0] = re;
-        maskedStft[b][f][1] = im;
-      }
-    }
+const applyChannelMasks = (
+  channelStfts: number[][][][],
+  masks: ChannelMasks,
+  params: StftParams,
+  originalLength: number,
+  seed: number,
+): number[][][][] => {
+  const { padLeft } = getFrameLayout(originalLength, params);
+  // One random stream per view, so editing one view leaves the noise in the
+  // others unchanged.
+  const viewRandom = (view: ChannelView) =>
+    createRng(mixSeed(seed, getChannelViews(2).indexOf(view)));
+  let masked = channelStfts.map((complexStft, c) => {
+    const view = BASE_CHANNEL_VIEWS[c];
+    const mask = masks[view];
+    return mask && !mask.isIdentity()
+      ? applyMask(complexStft, mask, params, padLeft, viewRandom(view))
+      : complexStft;
+  });
+
+  // Mid/side edits are applied after the left/right ones, in the M/S domain.
+  const { mid, side } = masks;
+  const hasMidSideEdits =
+    (mid && !mid.isIdentity()) || (side && !side.isIdentity());
+  if (masked.length === 2 && hasMidSideEdits) {
+    const [left, right] = masked;
+    let midStft = combineStfts(left, right, 0.5, 0.5);
+    let sideStft = combineStfts(left, right, 0.5, -0.5);
+    if (mid)
+      midStft = applyMask(midStft, mid, params, padLeft, viewRandom('mid'));
+    if (side)
+      sideStft = applyMask(sideStft, side, params, padLeft, viewRandom('side'));
+    masked = [
+      combineStfts(midStft, sideStft, 1, 1),
+      combineStfts(midStft, sideStft, 1, -1),
+    ];
   }
+  return masked;
+};
 
-  // Inverse STFT to get back to the time domain.
-  let reconstructedSignal = await istftCooperative(
-    maskedStft,
+export interface ResynthesisResult {
+  signals: Float32Array[];
+  glitchEvents: GlitchEvent[]; // Time-domain glitches that were applied
+}
+
+export const resynthesizeChannels = async (
+  channelStfts: number[][][][],
+  masks: ChannelMasks,
+  params: StftParams,
+  originalLength: number,
+  transformParams: TransformParams,
+  { signal, onProgress }: StftJobOptions = {},
+): Promise<ResynthesisResult> => {
+  const maskedStfts = transformParams.spectralEdit.enabled
+    ? applyChannelMasks(
+        channelStfts,
+        masks,
+        params,
+        originalLength,
+        transformParams.seed,
+      )
+    : channelStfts;
+  const glitchedStfts = applySpectralGlitches(
+    maskedStfts,
     params,
-    originalLength,
+    transformParams,
   );
 
+  // Inverse STFT to get back to the time domain.
+  const reconstructed: Float32Array[] = [];
+  for (let c = 0; c < glitchedStfts.length; c++) {
+    reconstructed.push(
+      await istftCooperative(glitchedStfts[c], params, originalLength, {
+        signal,
+        onProgress: (p) => onProgress?.((c + p) / glitchedStfts.length),
+      }),
+    );
+  }
+
   // Apply any time-domain transforms like audio glitches.
-  reconstructedSignal = applyAudioGlitches(
-    reconstructedSignal,
+  return applyAudioGlitches(reconstructed, params, transformParams);
+};
+
+export const resynthesizeAudio = async (
+  originalComplexStft: number[][][],
+  mask: SpectralMask,
+  params: StftParams,
+  originalLength: number,
+  transformParams: TransformParams,
+  options: StftJobOptions = {},
+): Promise<Float32Array> => {
+  const {
+    signals: [reconstructed],
+  } = await resynthesizeChannels(
+    [originalComplexStft],
+    { left: mask },
     params,
+    originalLength,
     transformParams,
+    options,
   );
-
-  return reconstructedSignal;
+  return reconstructed;
 };
@@ -0,0 +1,124 @@
+import { SpectralGlitchParams, StftParams, TransformParams } from '../types';
+import { createRng, mixSeed } from '../utils';
+
+// Glitches applied to [bins][frames] complex STFTs before the inverse
+// transform. Every channel replays the same random sequence, so all channels
+// are glitched at the same frames and bins and the stereo image holds.
+
+// Keeps this random stream apart from the time-domain glitches, which use the
+// seed unchanged.
+const SEED_STREAM = 0x9e3779b9;
+
+// Random values drawn per frame for the on/off decisions. The per-bin values
+// of the shuffle and phase scramble come from a stream of their own for each
+// frame and effect, so their settings never shift later frames' decisions.
+const DRAWS_PER_FRAME = 5;
+const SHUFFLE_STREAM = 3;
+const SCRAMBLE_STREAM = 4;
+
+const glitchStft = (
+  complexStft: number[][][],
+  { nfft, hopLength }: StftParams,
+  g: SpectralGlitchParams,
+  seed: number,
+): number[][][] => {
+  const B = complexStft.length;
+  const F = B > 0 ? complexStft[0].length : 0;
+  const random = createRng(seed ^ SEED_STREAM);
+  const binRandom = (f: number, stream: number) =>
+    createRng(mixSeed(seed ^ SEED_STREAM, f * DRAWS_PER_FRAME + stream));
+  const output = complexStft.map((bin) => bin.map(([re, im]) => [re, im]));
+
+  const mag = new Float64Array(B);
+  const phase = new Float64Array(B);
+  const previousMag = new Float64Array(B);
+  let frozen: { mag: Float64Array; phase: Float64Array; left: number } | null =
+    null;
+
+  for (let f = 0; f < F; f++) {
+    const [freeze, smear, quantize, shuffle, scramble] = Array.from(
+      { length: DRAWS_PER_FRAME },
+      random,
+    );
+    for (let b = 0; b < B; b++) {
+      const [re, im] = output[b][f];
+      mag[b] = Math.hypot(re, im);
+      phase[b] = Math.atan2(im, re);
+    }
+
+    // Freeze: hold one frame's magnitudes, advancing each bin's phase by its
+    // center frequency so the held sound stays smooth rather than buzzing.
+    if (!frozen && freeze < g.freezeChance) {
+      frozen = {
+        mag: mag.slice(),
+        phase: phase.slice(),
+        left: Math.max(1, Math.round(g.freezeLength)),
+      };
+    } else if (frozen) {
+      for (let b = 0; b < B; b++)
+        frozen.phase[b] += (2 * Math.PI * b * hopLength) / nfft;
+    }
+    if (frozen) {
+      mag.set(frozen.mag);
+      phase.set(frozen.phase);
+      if (--frozen.left === 0) frozen = null;
+    }
+
+    // Smear: blend in the previous output frame's magnitudes.
+    if (f > 0 && smear < g.smearChance) {
+      const a = Math.min(1, Math.max(0, g.smearAmount));
+      for (let b = 0; b < B; b++)
+        mag[b] = (1 - a) * mag[b] + a * previousMag[b];
+    }
+
+    // Quantize: snap magnitudes to a coarse dB grid.
+    if (quantize < g.quantizeChance && g.quantizeStep > 0) {
+      for (let b = 0; b < B; b++) {
+        if (mag[b] <= 0) continue;
+        const db = 20 * Math.log10(mag[b]);
+        mag[b] = Math.pow(
+          10,
+          (Math.round(db / g.quantizeStep) * g.quantizeStep) / 20,
+        );
+      }
+    }
+
+    // Shuffle: swap each bin with a random neighbour within range.
+    if (shuffle < g.shuffleChance) {
+      const range = Math.max(0, Math.round(g.shuffleRange));
+      const shuffleRandom = binRandom(f, SHUFFLE_STREAM);
+      for (let b = 0; b < B; b++) {
+        const offset = Math.round((2 * shuffleRandom() - 1) * range);
+        const other = Math.min(B - 1, Math.max(0, b + offset));
+        [mag[b], mag[other]] = [mag[other], mag[b]];
+        [phase[b], phase[other]] = [phase[other], phase[b]];
+      }
+    }
+
+    // Phase scramble: add random phase, up to a half-turn either way.
+    if (scramble < g.phaseScrambleChance) {
+      const amount = Math.min(1, Math.max(0, g.phaseScrambleAmount));
+      const scrambleRandom = binRandom(f, SCRAMBLE_STREAM);
+      for (let b = 0; b < B; b++)
+        phase[b] += (2 * scrambleRandom() - 1) * Math.PI * amount;
+    }
+
+    for (let b = 0; b < B; b++) {
+      output[b][f] = [mag[b] * Math.cos(phase[b]), mag[b] * Math.sin(phase[b])];
+    }
+    previousMag.set(mag);
+  }
+  return output;
+};
+
+export const applySpectralGlitches = (
+  channelStfts: number[][][][],
+  params: StftParams,
+  transformParams: TransformParams,
+): number[][][][] => {
+  if (!transformParams.spectralGlitch.enabled) return channelStfts;
+  const { params: glitch } = transformParams.spectralGlitch;
+  return channelStfts.map((complexStft) =>
+    glitchStft(complexStft, params, glitch, transformParams.seed),
+  );
+};
@@ -0,0 +1,262 @@
+import {
+  ChannelSpectrograms,
+  SpectrogramData,
+  StftJobKind,
+  StftParams,
+  StftWorkerRequest,
+  StftWorkerResponse,
+} from '../types';
+
+import {
+  ChannelMasks,
+  SpectralMask,
+  generateDifferenceSpectrogramData,
+  generateErrorSpectrogramData,
+  generateSpectrogramData,
+  packComplexStft,
+  performStft,
+  resynthesizeChannels,
+} from './signalService';
+import {
+  deriveChannelCell,
+  deriveChannelStft,
+  getChannelViews,
+} from './channels';
+import { magicWandCells } from './selection';
+
+// The analysis the resynthesize/spectrogram jobs work from. It stays in the
+// worker so the (large) complex STFTs are only transferred once per file.
+let analysis: {
+  channelStfts: number[][][][];
+  params: StftParams;
+  length: number;
+} | null = null;
+// STFTs of the latest reconstruction, kept for zoomed-in comparison layers.
+let reconstructedStfts: number[][][][] | null = null;
+
+const running = new Map<number, AbortController>();
+const latestByKind: Partial<Record<StftJobKind, number>> = {};
+
+const post = (message: StftWorkerResponse, transfer: Transferable[] = []) =>
+  self.postMessage(message, { transfer });
+
+const isAbort = (e: unknown) =>
+  e instanceof DOMException && e.name === 'AbortError';
+
+// Starts a job, superseding any still-running job of the same kind.
+const beginJob = (kind: StftJobKind, id: number): AbortController => {
+  const previous = latestByKind[kind];
+  if (previous !== undefined) running.get(previous)?.abort();
+  latestByKind[kind] = id;
+
+  const controller = new AbortController();
+  running.set(id, controller);
+  return controller;
+};
+
+const runJob = async (
+  kind: StftJobKind,
+  id: number,
+  job: (controller: AbortController) => Promise<void> | void,
+) => {
+  const controller = beginJob(kind, id);
+  try {
+    await job(controller);
+  } catch (e) {
+    if (isAbort(e)) post({ type: 'cancelled', id });
+    else post({ type: 'error', id, message: String(e) });
+  } finally {
+    running.delete(id);
+    if (latestByKind[kind] === id) delete latestByKind[kind];
+  }
+};
+
+const reportProgress = (id: number) => (progress: number) =>
+  post({ type: 'progress', id, progress });
+
+const spectrogramsByView = (
+  channelStfts: number[][][][],
+): ChannelSpectrograms =>
+  Object.fromEntries(
+    getChannelViews(channelStfts.length).map((view) => [
+      view,
+      generateSpectrogramData(deriveChannelStft(channelStfts, view)),
+    ]),
+  );
+
+self.onmessage = (event: MessageEvent<StftWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'cancel':
+      running.get(request.id)?.abort();
+      return;
+
+    case 'analyze':
+      // A new analysis invalidates everything derived from the previous one.
+      running.forEach((controller) => controller.abort());
+      void runJob('analyze', request.id, async (controller) => {
+        const { signals, params } = request;
+        const progress = reportProgress(request.id);
+        const channelStfts: number[][][][] = [];
+        for (let c = 0; c < signals.length; c++) {
+          const { complexStft } = await performStft(signals[c], params, {
+            signal: controller.signal,
+            onProgress: (p) => progress((c + p) / signals.length),
+          });
+          channelStfts.push(complexStft);
+        }
+        controller.signal.throwIfAborted();
+        analysis = {
+          channelStfts,
+          params,
+          length: signals.length > 0 ? signals[0].length : 0,
+        };
+        reconstructedStfts = null;
+        const packed = channelStfts.map(packComplexStft);
+        const bins = channelStfts.length > 0 ? channelStfts[0].length : 0;
+        post(
+          {
+            type: 'analyzed',
+            id: request.id,
+            complexStfts: packed,
+            bins,
+            frames: bins > 0 ? channelStfts[0][0].length : 0,
+            spectrograms: spectrogramsByView(channelStfts),
+          },
+          packed.map((p) => p.buffer),
+        );
+      });
+      return;
+
+    case 'resynthesize':
+      void runJob('resynthesize', request.id, async (controller) => {
+        if (!analysis) throw new Error('No analysis to resynthesize from');
+        const { channelStfts, params, length } = analysis;
+
+        const bins = channelStfts.length > 0 ? channelStfts[0].length : 0;
+        const frames = bins > 0 ? channelStfts[0][0].length : 0;
+        const masks: ChannelMasks = {};
+        for (const layers of request.masks) {
+          const size = frames * bins;
+          if (
+            layers.gainDbLayer.length !== size ||
+            layers.generativeDbLayer.length !== size ||
+            layers.generativeModeLayer.length !== size ||
+            layers.pastedLayer.length !== size * 2
+          ) {
+            throw new Error('Mask dimensions do not match the analysis');
+          }
+          const mask = new SpectralMask(frames, bins);
+          mask.gainDbLayer = layers.gainDbLayer;
+          mask.generativeDbLayer = layers.generativeDbLayer;
+          mask.generativeModeLayer = layers.generativeModeLayer;
+          mask.pastedLayer = layers.pastedLayer;
+          masks[layers.view] = mask;
+        }
+
+        const { signals, glitchEvents } = await resynthesizeChannels(
+          channelStfts,
+          masks,
+          params,
+          length,
+          request.transformParams,
+          {
+            signal: controller.signal,
+            onProgress: reportProgress(request.id),
+          },
+        );
+        controller.signal.throwIfAborted();
+        post(
+          { type: 'resynthesized', id: request.id, signals, glitchEvents },
+          signals.map((s) => s.buffer),
+        );
+      });
+      return;
+
+    case 'spectrogram':
+      void runJob('spectrogram', request.id, async (controller) => {
+        if (!analysis) throw new Error('No analysis to compare against');
+        const { channelStfts, params } = analysis;
+        const newStfts: number[][][][] = [];
+        for (const signal of request.signals)
+          newStfts.push(
+            (await performStft(signal, params, { signal: controller.signal }))
+              .complexStft,
+          );
+        controller.signal.throwIfAborted();
+        reconstructedStfts = newStfts;
+        const compareByView = (
+          compare: typeof generateDifferenceSpectrogramData,
+        ): ChannelSpectrograms =>
+          Object.fromEntries(
+            getChannelViews(newStfts.length).map((view) => [
+              view,
+              compare(
+                deriveChannelStft(channelStfts, view),
+                deriveChannelStft(newStfts, view),
+              ),
+            ]),
+          );
+        post({
+          type: 'spectrogram',
+          id: request.id,
+          spectrograms: spectrogramsByView(newStfts),
+          differences: compareByView(generateDifferenceSpectrogramData),
+          errors: compareByView(generateErrorSpectrogramData),
+        });
+      });
+      return;
+
+    case 'viewport':
+      void runJob('viewport', request.id, () => {
+        if (!analysis) throw new Error('No analysis to display');
+        const { channelStfts } = analysis;
+        const { view, layer, viewport, aggregation } = request;
+        const original = deriveChannelStft(channelStfts, view);
+        const options = { viewport, aggregation };
+        let spectrogram: SpectrogramData;
+        if (layer === 'intensity') {
+          spectrogram = generateSpectrogramData(original, options);
+        } else {
+          if (!reconstructedStfts)
+            throw new Error('No reconstruction to compare against');
+          const compare =
+            layer === 'difference'
+              ? generateDifferenceSpectrogramData
+              : generateErrorSpectrogramData;
+          spectrogram = compare(
+            original,
+            deriveChannelStft(reconstructedStfts, view),
+            options,
+          );
+        }
+        post({ type: 'viewport', id: request.id, spectrogram });
+      });
+      return;
+
+    case 'magicWand':
+      void runJob('magicWand', request.id, async (controller) => {
+        if (!analysis) throw new Error('No analysis to select from');
+        const { channelStfts } = analysis;
+        const { view, seed, toleranceDb, connectivity } = request;
+        const bins = channelStfts.length > 0 ? channelStfts[0].length : 0;
+        const frames = bins > 0 ? channelStfts[0][0].length : 0;
+        const cells = await magicWandCells(
+          (frame, bin) => {
+            const [re, im] = deriveChannelCell(channelStfts, view, bin, frame);
+            return 20 * Math.log10(Math.hypot(re, im) + 1e-12);
+          },
+          frames,
+          bins,
+          seed,
+          toleranceDb,
+          connectivity,
+          { signal: controller.signal },
+        );
+        controller.signal.throwIfAborted();
+        post({ type: 'magicWand', id: request.id, cells }, [cells.buffer]);
+      });
+      return;
+  }
+};
@@ -0,0 +1,278 @@
+import {
+  ChannelSpectrograms,
+  ChannelView,
+  MaskLayers,
+  SpectrogramAggregation,
+  SpectrogramData,
+  SpectrogramLayer,
+  SpectrogramViewport,
+  SpectralPoint,
+  StftJobKind,
+  StftParams,
+  StftWorkerRequest,
+  StftWorkerResponse,
+  TransformParams,
+  WandConnectivity,
+} from '../types';
+
+import {
+  ChannelMasks,
+  ResynthesisResult,
+  unpackComplexStft,
+} from './signalService';
+
+// Rejection reason for jobs that were cancelled or superseded by a newer job
+// of the same kind. Callers should drop these silently.
+export class JobCancelledError extends Error {
+  constructor(id: number) {
+    super(`STFT job ${id} was superseded`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Rejection reason for every job once the worker itself has failed: its
+// script did not load, it threw outside a job, or one of its messages could
+// not be read. The worker is not used again after that.
+export class StftWorkerFailedError extends Error {
+  constructor(reason: string) {
+    super(`STFT worker failed: ${reason}`);
+    this.name = 'StftWorkerFailedError';
+  }
+}
+
+export interface AnalysisResult {
+  channelStfts: number[][][][];
+  frames: number;
+  bins: number;
+  spectrograms: ChannelSpectrograms;
+}
+
+export interface SpectrogramResult {
+  spectrograms: ChannelSpectrograms;
+  differences: ChannelSpectrograms;
+  errors: ChannelSpectrograms;
+}
+
+interface PendingJob {
+  kind: StftJobKind;
+  resolve: (response: StftWorkerResponse) => void;
+  reject: (reason: unknown) => void;
+  onProgress?: (fraction: number) => void;
+}
+
+// Main-thread side of the STFT worker. Every job kind has a single "latest"
+// slot: starting a job cancels the previous one of that kind, so a slow, stale
+// result can never overwrite a newer one.
+export class StftWorkerClient {
+  private worker: Worker;
+  private nextId = 1;
+  private pending = new Map<number, PendingJob>();
+  private latestByKind: Partial<Record<StftJobKind, number>> = {};
+  private failure: StftWorkerFailedError | null = null;
+
+  // Called once if the worker fails; every job after that is rejected.
+  onFailure: ((error: StftWorkerFailedError) => void) | null = null;
+
+  constructor() {
+    this.worker = new Worker(new URL('./stft.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    this.worker.onmessage = (event: MessageEvent<StftWorkerResponse>) =>
+      this.handleMessage(event.data);
+    this.worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      this.fail(event.message || 'the worker script could not be loaded');
+    };
+    this.worker.onmessageerror = () =>
+      this.fail('a message from the worker could not be read');
+  }
+
+  async analyze(
+    signals: Float32Array[],
+    params: StftParams,
+    onProgress?: (fraction: number) => void,
+  ): Promise<AnalysisResult> {
+    // A new analysis makes every in-flight job meaningless.
+    (['resynthesize', 'spectrogram', 'viewport', 'magicWand'] as const).forEach(
+      (kind) => this.cancel(kind),
+    );
+    const copies = signals.map((signal) => new Float32Array(signal));
+    const response = await this.run(
+      'analyze',
+      (id) => ({ type: 'analyze', id, signals: copies, params }),
+      copies.map((c) => c.buffer),
+      onProgress,
+    );
+    if (response.type !== 'analyzed') throw new Error('Unexpected response');
+    return {
+      channelStfts: response.complexStfts.map((packed) =>
+        unpackComplexStft(packed, response.bins, response.frames),
+      ),
+      frames: response.frames,
+      bins: response.bins,
+      spectrograms: response.spectrograms,
+    };
+  }
+
+  async resynthesize(
+    masks: ChannelMasks,
+    transformParams: TransformParams,
+    onProgress?: (fraction: number) => void,
+  ): Promise<ResynthesisResult> {
+    const layers: MaskLayers[] = [];
+    for (const [view, mask] of Object.entries(masks)) {
+      if (!mask) continue;
+      layers.push({
+        view: view as MaskLayers['view'],
+        gainDbLayer: new Float32Array(mask.gainDbLayer),
+        generativeDbLayer: new Float32Array(mask.generativeDbLayer),
+        generativeModeLayer: new Uint8Array(mask.generativeModeLayer),
+        pastedLayer: new Float32Array(mask.pastedLayer),
+      });
+    }
+    const response = await this.run(
+      'resynthesize',
+      (id) => ({ type: 'resynthesize', id, masks: layers, transformParams }),
+      layers.flatMap((l) => [
+        l.gainDbLayer.buffer,
+        l.generativeDbLayer.buffer,
+        l.generativeModeLayer.buffer,
+        l.pastedLayer.buffer,
+      ]),
+      onProgress,
+    );
+    if (response.type !== 'resynthesized')
+      throw new Error('Unexpected response');
+    return { signals: response.signals, glitchEvents: response.glitchEvents };
+  }
+
+  async spectrogram(signals: Float32Array[]): Promise<SpectrogramResult> {
+    const copies = signals.map((signal) => new Float32Array(signal));
+    const response = await this.run(
+      'spectrogram',
+      (id) => ({ type: 'spectrogram', id, signals: copies }),
+      copies.map((c) => c.buffer),
+    );
+    if (response.type !== 'spectrogram') throw new Error('Unexpected response');
+    return {
+      spectrograms: response.spectrograms,
+      differences: response.differences,
+      errors: response.errors,
+    };
+  }
+
+  // Recomputes one layer of one channel view for a zoomed-in window.
+  async viewport(
+    view: ChannelView,
+    layer: SpectrogramLayer,
+    viewport: SpectrogramViewport,
+    aggregation: SpectrogramAggregation,
+  ): Promise<SpectrogramData> {
+    const response = await this.run(
+      'viewport',
+      (id) => ({
+        type: 'viewport',
+        id,
+        view,
+        layer,
+        viewport,
+        aggregation,
+      }),
+      [],
+    );
+    if (response.type !== 'viewport') throw new Error('Unexpected response');
+    return response.spectrogram;
+  }
+
+  // Selects the cells connected to `seed` with a level within `toleranceDb`
+  // of it, as a frame-major 0/1 map of the whole STFT.
+  async magicWand(
+    view: ChannelView,
+    seed: SpectralPoint,
+    toleranceDb: number,
+    connectivity: WandConnectivity,
+  ): Promise<Uint8Array> {
+    const response = await this.run(
+      'magicWand',
+      (id) => ({
+        type: 'magicWand',
+        id,
+        view,
+        seed,
+        toleranceDb,
+        connectivity,
+      }),
+      [],
+    );
+    if (response.type !== 'magicWand') throw new Error('Unexpected response');
+    return response.cells;
+  }
+
+  cancel(kind: StftJobKind) {
+    const id = this.latestByKind[kind];
+    if (id === undefined) return;
+    delete this.latestByKind[kind];
+    this.settleCancelled(id);
+  }
+
+  dispose() {
+    this.pending.forEach((_, id) => this.settleCancelled(id));
+    this.worker.terminate();
+  }
+
+  private run(
+    kind: StftJobKind,
+    buildRequest: (id: number) => StftWorkerRequest,
+    transfer: Transferable[],
+    onProgress?: (fraction: number) => void,
+  ): Promise<StftWorkerResponse> {
+    if (this.failure) return Promise.reject(this.failure);
+    this.cancel(kind);
+    const id = this.nextId++;
+    this.latestByKind[kind] = id;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { kind, resolve, reject, onProgress });
+      this.worker.postMessage(buildRequest(id), transfer);
+    });
+  }
+
+  private fail(reason: string) {
+    if (this.failure) return;
+    const failure = new StftWorkerFailedError(reason);
+    this.failure = failure;
+    this.worker.terminate();
+    const jobs = [...this.pending.values()];
+    this.pending.clear();
+    this.latestByKind = {};
+    jobs.forEach((job) => job.reject(failure));
+    this.onFailure?.(failure);
+  }
+
+  private settleCancelled(id: number) {
+    const job = this.pending.get(id);
+    if (!job) return;
+    this.pending.delete(id);
+    this.worker.postMessage({ type: 'cancel', id } satisfies StftWorkerRequest);
+    job.reject(new JobCancelledError(id));
+  }
+
+  private handleMessage(response: StftWorkerResponse) {
+    const job = this.pending.get(response.id);
+    if (!job) return; // Already cancelled or superseded on this side.
+
+    if (response.type === 'progress') {
+      job.onProgress?.(response.progress);
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (this.latestByKind[job.kind] === response.id)
+      delete this.latestByKind[job.kind];
+
+    if (response.type === 'cancelled')
+      job.reject(new JobCancelledError(response.id));
+    else if (response.type === 'error') job.reject(new Error(response.message));
+    else job.resolve(response);
+  }
+}
@@ -0,0 +1,143 @@
+// Pure TypeScript RIFF WAV decoder, for reading audio where there is no
+// AudioContext (the command-line round trip in particular).
+
+export interface DecodedWav {
+  sampleRate: number;
+  channels: Float32Array[]; // Samples in [-1, 1], one array per channel
+  bitsPerSample: number;
+  isFloat: boolean;
+}
+
+// Thrown for files that are not WAV or use an unsupported encoding.
+export class WavDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WavDecodeError';
+  }
+}
+
+const FORMAT_PCM = 1;
+const FORMAT_IEEE_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+const readAscii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(
+    ...Array.from({ length }, (_, i) => view.getUint8(offset + i)),
+  );
+
+// Returns a function reading one sample at a byte offset as a float.
+const sampleReader = (
+  view: DataView,
+  bitsPerSample: number,
+  isFloat: boolean,
+): ((offset: number) => number) => {
+  if (isFloat) {
+    if (bitsPerSample === 32) return (o) => view.getFloat32(o, true);
+    if (bitsPerSample === 64) return (o) => view.getFloat64(o, true);
+  } else {
+    switch (bitsPerSample) {
+      case 8: // Unsigned, centered on 128
+        return (o) => (view.getUint8(o) - 128) / 128;
+      case 16:
+        return (o) => view.getInt16(o, true) / 0x8000;
+      case 24:
+        return (o) =>
+          (view.getUint8(o) |
+            (view.getUint8(o + 1) << 8) |
+            (view.getInt8(o + 2) << 16)) /
+          0x800000;
+      case 32:
+        return (o) => view.getInt32(o, true) / 0x80000000;
+    }
+  }
+  throw new WavDecodeError(
+    `${bitsPerSample}-bit ${isFloat ? 'float' : 'integer'} samples are not supported.`,
+  );
+};
+
+export const decodeWav = (data: ArrayBuffer): DecodedWav => {
+  const view = new DataView(data);
+  if (
+    view.byteLength < 12 ||
+    readAscii(view, 0, 4) !== 'RIFF' ||
+    readAscii(view, 8, 4) !== 'WAVE'
+  ) {
+    throw new WavDecodeError('Not a RIFF WAVE file.');
+  }
+
+  let format: {
+    tag: number;
+    channels: number;
+    sampleRate: number;
+    blockAlign: number;
+    bitsPerSample: number;
+  } | null = null;
+  let dataChunk: { offset: number; size: number } | null = null;
+
+  // Walk the chunks; each is padded to an even length.
+  for (let offset = 12; offset + 8 <= view.byteLength;) {
+    const id = readAscii(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      if (size < 16) throw new WavDecodeError('The fmt chunk is truncated.');
+      let tag = view.getUint16(body, true);
+      // Extensible files keep the real format in the sub-format GUID.
+      if (tag === FORMAT_EXTENSIBLE && size >= 40) {
+        tag = view.getUint16(body + 24, true);
+      }
+      format = {
+        tag,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        blockAlign: view.getUint16(body + 12, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (id === 'data') {
+      // Some writers leave the size unset when streaming; use what is there.
+      dataChunk = {
+        offset: body,
+        size: Math.min(size, view.byteLength - body),
+      };
+      if (format) break;
+    }
+    offset = body + size + (size % 2);
+  }
+
+  if (!format) throw new WavDecodeError('The file has no fmt chunk.');
+  if (!dataChunk) throw new WavDecodeError('The file has no data chunk.');
+  if (format.tag !== FORMAT_PCM && format.tag !== FORMAT_IEEE_FLOAT) {
+    throw new WavDecodeError(
+      `Compressed WAV (format 0x${format.tag.toString(16)}) is not supported.`,
+    );
+  }
+  if (format.channels === 0 || format.sampleRate === 0) {
+    throw new WavDecodeError('The fmt chunk declares no channels or rate.');
+  }
+
+  const isFloat = format.tag === FORMAT_IEEE_FLOAT;
+  const bytesPerSample = Math.ceil(format.bitsPerSample / 8);
+  const read = sampleReader(view, bytesPerSample * 8, isFloat);
+  const blockAlign = Math.max(
+    format.blockAlign,
+    bytesPerSample * format.channels,
+  );
+  const length = Math.floor(dataChunk.size / blockAlign);
+  const channels = Array.from(
+    { length: format.channels },
+    () => new Float32Array(length),
+  );
+  for (let i = 0; i < length; i++) {
+    const frame = dataChunk.offset + i * blockAlign;
+    for (let c = 0; c < format.channels; c++) {
+      channels[c][i] = read(frame + c * bytesPerSample);
+    }
+  }
+
+  return {
+    sampleRate: format.sampleRate,
+    channels,
+    bitsPerSample: format.bitsPerSample,
+    isFloat,
+  };
+};
@@ -0,0 +1,78 @@
+// Helpers for drawing long signals: a view range in seconds, and min/max
+// decimation so a plot needs a few hundred points however long the file is.
+
+export interface TimeRange {
+  start: number; // Seconds
+  end: number;
+}
+
+export interface WaveformBucket {
+  time: number; // Seconds, at the bucket start
+  min: number;
+  max: number;
+}
+
+// The samples of `signal` inside `range`, pooled into at most `buckets`
+// min/max pairs. When the range holds fewer samples than that, each sample
+// gets its own bucket (min === max) and `isExact` is set.
+export const decimateMinMax = (
+  signal: Float32Array,
+  sampleRate: number,
+  range: TimeRange,
+  buckets: number,
+): { buckets: WaveformBucket[]; isExact: boolean } => {
+  const from = Math.max(0, Math.floor(range.start * sampleRate));
+  const to = Math.min(signal.length, Math.ceil(range.end * sampleRate) + 1);
+  const count = to - from;
+  if (count <= 0) return { buckets: [], isExact: true };
+
+  if (count <= buckets) {
+    const exact: WaveformBucket[] = [];
+    for (let i = from; i < to; i++)
+      exact.push({ time: i / sampleRate, min: signal[i], max: signal[i] });
+    return { buckets: exact, isExact: true };
+  }
+
+  const result: WaveformBucket[] = [];
+  for (let b = 0; b < buckets; b++) {
+    const start = from + Math.floor((b * count) / buckets);
+    const end = from + Math.floor(((b + 1) * count) / buckets);
+    let min = Infinity,
+      max = -Infinity;
+    for (let i = start; i < end; i++) {
+      if (signal[i] < min) min = signal[i];
+      if (signal[i] > max) max = signal[i];
+    }
+    result.push({ time: start / sampleRate, min, max });
+  }
+  return { buckets: result, isExact: false };
+};
+
+// Keeps a range inside [0, duration] without changing its width, and no
+// narrower than `minWidth`.
+export const clampRange = (
+  range: TimeRange,
+  duration: number,
+  minWidth = 0,
+): TimeRange => {
+  const width = Math.min(duration, Math.max(minWidth, range.end - range.start));
+  const start = Math.max(0, Math.min(duration - width, range.start));
+  return { start, end: start + width };
+};
+
+// Scales a range by `factor` about `anchor` (seconds); factor < 1 zooms in.
+export const zoomRange = (
+  range: TimeRange,
+  factor: number,
+  anchor: number,
+  duration: number,
+  minWidth: number,
+): TimeRange =>
+  clampRange(
+    {
+      start: anchor - (anchor - range.start) * factor,
+      end: anchor + (range.end - anchor) * factor,
+    },
+    duration,
+    minWidth,
+  );
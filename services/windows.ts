@@ -0,0 +1,173 @@
+import FFT from 'fft.js';
+
+import {
+  StftParams,
+  WindowFunction,
+  WindowShapeParams,
+  WindowSymmetry,
+} from '../types';
+
+export const WINDOW_LABELS: Record<WindowFunction, string> = {
+  hann: 'Hann',
+  hamming: 'Hamming',
+  blackman: 'Blackman',
+  blackmanHarris: 'Blackman-Harris',
+  nuttall: 'Nuttall',
+  flatTop: 'Flat-top',
+  rectangular: 'Rectangular',
+  tukey: 'Tukey',
+  gaussian: 'Gaussian',
+  kaiser: 'Kaiser',
+};
+
+// Generalized cosine-sum windows: w[n] = sum_k (-1)^k a_k cos(2 pi k n / M).
+const COSINE_SUM_COEFFICIENTS: Partial<Record<WindowFunction, number[]>> = {
+  hann: [0.5, 0.5],
+  hamming: [0.54, 0.46],
+  blackman: [0.42, 0.5, 0.08],
+  blackmanHarris: [0.35875, 0.48829, 0.14128, 0.01168],
+  nuttall: [0.355768, 0.487396, 0.144232, 0.012604],
+  flatTop: [0.21557895, 0.41663158, 0.277263158, 0.083578947, 0.006947368],
+};
+
+// Zeroth-order modified Bessel function of the first kind (series expansion).
+const besselI0 = (x: number): number => {
+  let sum = 1,
+    term = 1;
+  const halfX = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k);
+    sum += term;
+    if (term < 1e-12 * sum) break;
+  }
+  return sum;
+};
+
+export const createWindow = (
+  length: number,
+  type: WindowFunction,
+  symmetry: WindowSymmetry,
+  shape: WindowShapeParams,
+): Float32Array => {
+  const window = new Float32Array(length);
+  if (length === 1) {
+    window[0] = 1;
+    return window;
+  }
+  // A periodic window is the symmetric window of length N + 1 with the last
+  // sample dropped, which is what makes it tile exactly under overlap-add.
+  const M = symmetry === 'periodic' ? length : length - 1;
+
+  const coefficients = COSINE_SUM_COEFFICIENTS[type];
+  if (coefficients) {
+    for (let n = 0; n < length; n++) {
+      let value = 0;
+      coefficients.forEach((a, k) => {
+        value +=
+          (k % 2 === 0 ? 1 : -1) * a * Math.cos((2 * Math.PI * k * n) / M);
+      });
+      window[n] = value;
+    }
+    return window;
+  }
+
+  for (let n = 0; n < length; n++) {
+    switch (type) {
+      case 'tukey': {
+        const alpha = Math.max(0, Math.min(1, shape.tukeyAlpha));
+        const taper = (alpha * M) / 2;
+        if (alpha === 0) window[n] = 1;
+        else if (n < taper)
+          window[n] = 0.5 * (1 - Math.cos((Math.PI * n) / taper));
+        else if (n > M - taper)
+          window[n] = 0.5 * (1 - Math.cos((Math.PI * (M - n)) / taper));
+        else window[n] = 1;
+        break;
+      }
+      case 'gaussian': {
+        // sigma is relative to the half-length, so the shape is independent
+        // of n_fft.
+        const sigma = Math.max(1e-3, shape.gaussianSigma) * (M / 2);
+        const x = (n - M / 2) / sigma;
+        window[n] = Math.exp(-0.5 * x * x);
+        break;
+      }
+      case 'kaiser': {
+        const r = (2 * n) / M - 1;
+        window[n] =
+          besselI0(shape.kaiserBeta * Math.sqrt(Math.max(0, 1 - r * r))) /
+          besselI0(shape.kaiserBeta);
+        break;
+      }
+      default:
+        window[n] = 1;
+    }
+  }
+  return window;
+};
+
+export const getStftWindow = (params: StftParams): Float32Array =>
+  createWindow(
+    params.nfft,
+    params.window,
+    params.windowSymmetry,
+    params.windowShape,
+  );
+
+export interface WindowFigures {
+  mainLobeWidthBins: number; // Null-to-null width, in FFT bins
+  peakSidelobeDb: number; // Highest side lobe relative to the main lobe peak
+  enbwBins: number; // Equivalent noise bandwidth, in FFT bins
+}
+
+// Measures spectral figures of merit from a heavily zero-padded FFT of the
+// window, so parametric windows (Tukey, Gaussian, Kaiser) are handled the same
+// way as the fixed ones.
+export const analyzeWindow = (window: Float32Array): WindowFigures => {
+  const N = window.length;
+  const padFactor = 32;
+  let size = 1;
+  while (size < N * padFactor) size *= 2;
+  const pad = size / N;
+
+  const fft = new FFT(size);
+  const input = new Array<number>(size).fill(0);
+  for (let i = 0; i < N; i++) input[i] = window[i];
+  const complexInput = fft.createComplexArray();
+  fft.toComplexArray(input, complexInput);
+  const spectrum = fft.createComplexArray() as number[];
+  fft.transform(spectrum, complexInput);
+
+  const half = size / 2;
+  const magnitude = new Float64Array(half);
+  for (let k = 0; k < half; k++)
+    magnitude[k] = Math.hypot(spectrum[2 * k], spectrum[2 * k + 1]);
+  const peak = magnitude[0] || 1e-12;
+
+  // The main lobe ends at the first local minimum below -6 dB; flat-top
+  // windows ripple near DC, so minima above that are part of the lobe.
+  let firstNull = 1;
+  while (firstNull < half - 1 && magnitude[firstNull] > peak / 2) firstNull++;
+  while (
+    firstNull < half - 1 &&
+    magnitude[firstNull + 1] < magnitude[firstNull]
+  )
+    firstNull++;
+
+  let sidelobe = 0;
+  for (let k = firstNull; k < half; k++)
+    if (magnitude[k] > sidelobe) sidelobe = magnitude[k];
+
+  let sum = 0,
+    sumSq = 0;
+  for (let i = 0; i < N; i++) {
+    sum += window[i];
+    sumSq += window[i] * window[i];
+  }
+
+  return {
+    mainLobeWidthBins: (2 * firstNull) / pad,
+    peakSidelobeDb: 20 * Math.log10(sidelobe / peak + 1e-12),
+    enbwBins: sum > 0 ? (N * sumSq) / (sum * sum) : Infinity,
+  };
+};
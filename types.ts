@@ -1,9 +1,26 @@
-export interface SignalPoint {
-  time: number;
-  amplitude: number;
+export type WindowFunction =
+  | 'hann'
+  | 'hamming'
+  | 'blackman'
+  | 'blackmanHarris'
+  | 'nuttall'
+  | 'flatTop'
+  | 'rectangular'
+  | 'tukey'
+  | 'gaussian'
+  | 'kaiser';
+
+// 'periodic' suits spectral analysis/overlap-add, 'symmetric' filter design.
+export type WindowSymmetry = 'periodic' | 'symmetric';
+
+export interface WindowShapeParams {
+  tukeyAlpha: number; // 0 (rectangular) - 1 (Hann)
+  gaussianSigma: number; // Relative to the half-length
+  kaiserBeta: number;
 }
 
-export type WindowFunction = 'hann';
+// How the signal is extended past its ends when framing.
+export type PadMode = 'zero' | 'reflect' | 'constant' | 'edge';
 
 export interface StftParams {
   sr: number;
@@ -11,11 +28,38 @@ export interface StftParams {
   nfft: number;
   hopLength: number;
   window: WindowFunction;
+  windowSymmetry: WindowSymmetry;
+  windowShape: WindowShapeParams;
+  center: boolean; // Center frames on multiples of the hop (librosa-style)
+  padMode: PadMode;
+  padValue: number; // Used by the 'constant' pad mode
 }
 
+// Half-open ranges of STFT frames and bins.
+export interface SpectrogramViewport {
+  frameStart: number;
+  frameEnd: number;
+  binStart: number;
+  binEnd: number;
+}
+
+// How cells are pooled when a display matrix has fewer cells than the STFT.
+export type SpectrogramAggregation = 'mean' | 'max';
+
+// How frequency is laid out on the spectrogram's vertical axis.
+export type FrequencyScale = 'linear' | 'log' | 'mel' | 'bark' | 'erb';
+
+export type Colormap =
+  'viridis' | 'magma' | 'inferno' | 'cividis' | 'grayscale';
+
+// What a spectrogram display matrix shows: levels, level changes from the
+// original, or complex error against it.
+export type SpectrogramLayer = 'intensity' | 'difference' | 'error';
+
 export interface SpectrogramData {
   data: number[][]; // 2D array of values
-  freqLabels: { bin: number; label: string }[];
+  viewport: SpectrogramViewport; // The frames and bins `data` covers
+  cellSize: { frames: number; bins: number }; // STFT cells pooled per value
 }
 
 export interface Complex {
@@ -25,29 +69,232 @@ export interface Complex {
 
 export type PlaybackStatus = 'playing' | 'stopped';
 
+// What the player lets through: either signal, or what the round trip changed.
+export type PlaybackSource = 'original' | 'reconstructed' | 'difference';
+
+// Chances are per chunk, 0-1.
 export interface GlitchParams {
-  stutterChance: number; // 0-1
+  chunkSize: number; // in samples; glitches start on chunk boundaries
+  stutterChance: number;
   stutterDuration: number; // in ms
-  dropChance: number; // 0-1
-  clipChance: number; // 0-1
-  jitterChance: number; // 0-1
+  dropChance: number;
+  clipChance: number;
+  clipThreshold: number; // Linear amplitude the chunk is clipped to
+  jitterChance: number;
+  jitterAmount: number; // Largest time shift, in ms
+  bitcrushChance: number;
+  bitDepth: number; // 1-16
+  downsampleFactor: number; // Hold every Nth sample; 1 leaves the rate alone
+  reverseChance: number;
+  tapeStopChance: number;
+  tapeStopDuration: number; // in ms, from full speed to standstill
+}
+
+export type GlitchType =
+  'stutter' | 'drop' | 'clip' | 'jitter' | 'bitcrush' | 'reverse' | 'tapeStop';
+
+// One scheduled glitch, in samples of the output signal.
+export interface GlitchEvent {
+  type: GlitchType;
+  start: number;
+  end: number; // Exclusive
+  offset?: number; // Jitter only: samples the chunk was read from ahead (+) or behind (-)
+}
+
+export type SignalType =
+  | 'sine'
+  | 'multiTone'
+  | 'linearChirp'
+  | 'logChirp'
+  | 'impulseTrain'
+  | 'whiteNoise'
+  | 'pinkNoise'
+  | 'square'
+  | 'sawtooth'
+  | 'am'
+  | 'fm';
+
+// Settings for the built-in test signal generator. Each signal type uses only
+// the fields that apply to it.
+export interface SignalGeneratorParams {
+  type: SignalType;
+  duration: number; // in seconds
+  sampleRate: number;
+  amplitudeDb: number; // Peak level, dBFS
+  frequency: number; // Hz; start frequency of chirps, carrier of AM/FM
+  endFrequency: number; // Hz, chirps only
+  frequencies: number[]; // Hz, multi-tone only
+  modFrequency: number; // Hz, AM/FM only
+  modDepth: number; // AM depth, 0-1
+  modIndex: number; // FM index (peak phase deviation, radians)
+}
+
+// Glitches applied to the complex STFT before inversion. Chances are per
+// frame, 0-1.
+export interface SpectralGlitchParams {
+  freezeChance: number;
+  freezeLength: number; // Frames a frozen frame is held for
+  smearChance: number;
+  smearAmount: number; // 0-1, how much of the previous frame bleeds in
+  quantizeChance: number;
+  quantizeStep: number; // Magnitude step in dB
+  shuffleChance: number;
+  shuffleRange: number; // Furthest a bin may be swapped, in bins
+  phaseScrambleChance: number;
+  phaseScrambleAmount: number; // 0-1, fraction of a half-turn of random phase
+}
+
+// What the generative brush paints: a steady sine partial along the painted
+// line, or a band of random-phase noise.
+export type GenerativeMode = 'tone' | 'noise';
+
+// Region selection tools, as an alternative to painting with the brush.
+export type SelectionTool =
+  'rectangle' | 'lasso' | 'timeRange' | 'frequencyBand' | 'magicWand';
+
+// Which neighbours the magic wand spreads to: edges only, or corners too.
+export type WandConnectivity = 4 | 8;
+
+// A point on the STFT grid. Cell (f, b) spans frame f to f + 1 and bin b to
+// b + 1, so its centre is at (f + 0.5, b + 0.5).
+export interface SpectralPoint {
+  frame: number;
+  bin: number;
+}
+
+// A selected time-frequency region. Every tool's shape but the magic wand's
+// is kept as the polygon it encloses; the wand picks cells directly.
+export interface SpectralSelection {
+  tool: SelectionTool;
+  polygon: SpectralPoint[]; // Empty for the magic wand
+  cells: Uint8Array | null; // Magic wand only: 1 per selected cell, frame-major
+  inverted: boolean; // Everything outside the polygon is selected instead
+  feather: number; // Width of the soft edge, in cells; 0 for a hard edge
 }
 
 export interface BrushParams {
   radius: number; // in bins
   gainDb: number;
   brushMode: 'subtractive' | 'generative';
+  generativeMode: GenerativeMode;
+  harmonic: boolean; // Also paint integer multiples of the painted frequency
+  harmonicCount: number; // Partials painted, the fundamental included
+  harmonicRolloffDb: number; // How much weaker each partial's edit is than the one below
+  inharmonicity: number; // Stiff-string B: partial n sits at n * f0 * sqrt(1 + B * n^2)
 }
 
 export interface TransformParams {
   spectralEdit: {
     enabled: boolean;
     brush: BrushParams;
+    linkChannels: boolean; // Edits on L also apply to R (and M to S)
+  };
+  spectralGlitch: {
+    enabled: boolean;
+    params: SpectralGlitchParams;
   };
   audioGlitch: {
     enabled: boolean;
     params: GlitchParams;
   };
+  // Seeds every random choice (glitches, noise phases), so the same settings
+  // always render the same audio.
+  seed: number;
 }
 
-export type SpectrogramView = 'original' | 'transformed' | 'difference';
+export type SpectrogramView =
+  'original' | 'transformed' | 'difference' | 'error';
+
+// Left/right are stored channels; mid/side are derived from them. Mono files
+// only have 'left'.
+export type ChannelView = 'left' | 'right' | 'mid' | 'side';
+
+export interface ChannelMetrics {
+  view: ChannelView;
+  maxError: number;
+  snr: number; // dB, Infinity for a bit-exact reconstruction
+  siSdr: number; // dB, Infinity for a bit-exact reconstruction
+  segmentalSnr: number; // dB, mean of per-segment SNRs clamped to [-10, 35]
+  spectralConvergence: number; // Ratio, 0 for identical magnitudes
+  logSpectralDistance: number; // dB
+  correlation: number; // Pearson, -1 to 1
+  peakDiffDb: number; // Reconstructed minus original
+  rmsDiffDb: number; // Reconstructed minus original
+}
+
+export type ChannelSpectrograms = Partial<Record<ChannelView, SpectrogramData>>;
+
+// #region STFT worker protocol
+export type StftJobKind =
+  'analyze' | 'resynthesize' | 'spectrogram' | 'viewport' | 'magicWand';
+
+export interface MaskLayers {
+  view: ChannelView;
+  gainDbLayer: Float32Array;
+  generativeDbLayer: Float32Array;
+  generativeModeLayer: Uint8Array;
+  pastedLayer: Float32Array; // Interleaved re/im, two values per cell
+}
+
+export type StftWorkerRequest =
+  | {
+      type: 'analyze';
+      id: number;
+      signals: Float32Array[]; // One per channel
+      params: StftParams;
+    }
+  | {
+      type: 'resynthesize';
+      id: number;
+      masks: MaskLayers[];
+      transformParams: TransformParams;
+    }
+  | { type: 'spectrogram'; id: number; signals: Float32Array[] }
+  | {
+      // One channel view's layer recomputed for a zoomed-in window
+      type: 'viewport';
+      id: number;
+      view: ChannelView;
+      layer: SpectrogramLayer;
+      viewport: SpectrogramViewport;
+      aggregation: SpectrogramAggregation;
+    }
+  | {
+      // Magic-wand fill from `seed` over one channel view's original levels
+      type: 'magicWand';
+      id: number;
+      view: ChannelView;
+      seed: SpectralPoint;
+      toleranceDb: number;
+      connectivity: WandConnectivity;
+    }
+  | { type: 'cancel'; id: number };
+
+export type StftWorkerResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | {
+      type: 'analyzed';
+      id: number;
+      complexStfts: Float32Array[]; // Interleaved re/im, [bins][frames]
+      bins: number;
+      frames: number;
+      spectrograms: ChannelSpectrograms;
+    }
+  | {
+      type: 'resynthesized';
+      id: number;
+      signals: Float32Array[];
+      glitchEvents: GlitchEvent[];
+    }
+  | {
+      type: 'spectrogram';
+      id: number;
+      spectrograms: ChannelSpectrograms;
+      differences: ChannelSpectrograms;
+      errors: ChannelSpectrograms; // Complex error magnitude heatmaps
+    }
+  | { type: 'viewport'; id: number; spectrogram: SpectrogramData }
+  | { type: 'magicWand'; id: number; cells: Uint8Array }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
+// #endregion
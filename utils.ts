@@ -6,3 +6,53 @@ export function debounce<T extends (...a: any[]) => any>(fn: T, ms: number) {
     t = window.setTimeout(() => fn(...args), ms);
   };
 }
+
+// Saves a blob through a temporary object URL
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before revoking.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// 1, 2 or 5 times a power of ten, at least `raw`: a step for axis ticks
+export function niceStep(raw: number) {
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].find((m) => m * magnitude >= raw) ?? 10;
+  return step * magnitude;
+}
+
+// Seeded PRNG (mulberry32) returning floats in [0, 1). The same seed always
+// gives the same sequence, so renders that use it are reproducible.
+export function createRng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// murmur3's 32-bit finalizer: every input bit affects every output bit.
+const fmix32 = (h: number) => {
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// A seed for sub-stream `stream` (a channel view, a frame index) of `seed`.
+// Unlike seed + stream, neighbouring seeds and streams give unrelated
+// sequences, so one seed's streams never reappear under another seed.
+export function mixSeed(seed: number, stream: number) {
+  return fmix32((seed >>> 0) ^ fmix32((stream + 0x9e3779b9) >>> 0));
+}
+
+// A fresh seed for when the user asks for different randomness
+export function randomSeed() {
+  return Math.floor(Math.random() * 0x100000000);
+}